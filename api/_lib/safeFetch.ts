@@ -0,0 +1,232 @@
+// Fetching user-supplied URLs from the server without exposing the internal network.
+// Every address a hostname resolves to is checked when the connection is made, so a
+// DNS answer that changes between the check and the request can't reach a private host.
+
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net from 'node:net';
+import zlib from 'node:zlib';
+import type { IncomingMessage } from 'node:http';
+import type { Readable } from 'node:stream';
+import { HttpError } from './server';
+
+export const MAX_REDIRECTS = 5;
+export const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+export const FETCH_TIMEOUT_MS = 15000;
+
+// Content types a page, sitemap or robots.txt can have
+const ALLOWED_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain', 'text/xml', 'application/xml', 'application/rss+xml', 'application/atom+xml'];
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blockedAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export const isBlockedAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are matched against the IPv4 ranges
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// dns.lookup replacement for http.request that refuses to connect to blocked addresses
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    
+    const list = addresses as dns.LookupAddress[];
+    const blocked = list.find(entry => isBlockedAddress(entry.address));
+    if (blocked || list.length === 0) {
+      callback(new HttpError(403, `Access to ${hostname} is not allowed`), '', 0);
+      return;
+    }
+    
+    if ((options as dns.LookupOptions).all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+export const validateUrl = (value: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new HttpError(400, 'Invalid URL');
+  }
+  
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError(400, 'Only http and https URLs can be fetched');
+  }
+  if (url.username || url.password) {
+    throw new HttpError(400, 'URLs with credentials can\'t be fetched');
+  }
+  
+  // Literal IPs never go through the lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new HttpError(403, `Access to ${host} is not allowed`);
+  }
+  
+  return url;
+};
+
+/**
+ * Guess the type of a response that has no useful Content-Type from its first bytes
+ */
+export const sniffContentType = (declared: string, head: Buffer): string => {
+  const type = declared.split(';')[0].trim().toLowerCase();
+  if (type && type !== 'application/octet-stream' && type !== 'text/plain') {
+    return type;
+  }
+  
+  const start = head.subarray(0, 512).toString('utf8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (start.startsWith('<!doctype html') || start.startsWith('<html') || /^<(head|body|meta|title)\b/.test(start)) {
+    return 'text/html';
+  }
+  if (start.startsWith('<?xml') || start.startsWith('<urlset') || start.startsWith('<sitemapindex') || start.startsWith('<rss')) {
+    return 'application/xml';
+  }
+  if (head.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'application/pdf';
+  }
+  // Binary data usually contains NUL bytes, text doesn't
+  return head.includes(0) ? 'application/octet-stream' : 'text/plain';
+};
+
+// Charset from the Content-Type header, or a <meta charset> near the start of an HTML page
+const getCharset = (declared: string, head: Buffer): string => {
+  const match = declared.match(/charset=["']?([\w-]+)/i) ||
+    head.subarray(0, 1024).toString('latin1').match(/<meta[^>]+charset=["']?([\w-]+)/i);
+  return match ? match[1].toLowerCase() : 'utf-8';
+};
+
+/**
+ * Decode a text response to a string, whatever its charset
+ */
+export const decodeText = (body: Buffer, declared: string): string => {
+  try {
+    return new TextDecoder(getCharset(declared, body)).decode(body);
+  } catch {
+    // Unknown charset label
+    return body.toString('utf8');
+  }
+};
+
+const decode = (response: IncomingMessage): Readable => {
+  switch ((response.headers['content-encoding'] || '').toLowerCase()) {
+    case 'gzip':
+      return response.pipe(zlib.createGunzip());
+    case 'deflate':
+      return response.pipe(zlib.createInflate());
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+};
+
+const request = (url: URL, signal: AbortSignal): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.request(url, {
+      method: 'GET',
+      lookup: safeLookup,
+      signal,
+      headers: {
+        'User-Agent': 'SattvaBot/1.0',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,text/plain;q=0.8,*/*;q=0.5',
+        'Accept-Encoding': 'gzip, deflate, br'
+      }
+    }, resolve);
+    req.on('error', reject);
+    req.end();
+  });
+
+export interface SafeFetchResult {
+  url: string;
+  status: number;
+  contentType: string;
+  declaredContentType: string;
+  body: Buffer;
+}
+
+/**
+ * Fetch a public URL, following redirects, with a size limit and an overall timeout
+ */
+export async function safeFetch(value: string): Promise<SafeFetchResult> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  
+  try {
+    let url = validateUrl(value);
+    
+    for (let redirects = 0; ; redirects++) {
+      const response = await request(url, controller.signal);
+      const status = response.statusCode || 0;
+      
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new HttpError(502, 'Too many redirects');
+        }
+        // Each hop is checked again, a public URL may redirect to an internal one
+        url = validateUrl(new URL(response.headers.location, url).toString());
+        continue;
+      }
+      
+      const declaredLength = parseInt(response.headers['content-length'] || '0', 10);
+      if (declaredLength > MAX_RESPONSE_BYTES) {
+        response.destroy();
+        throw new HttpError(413, 'The page is too large');
+      }
+      
+      const chunks: Buffer[] = [];
+      let size = 0;
+      for await (const chunk of decode(response)) {
+        size += chunk.length;
+        // Checked after decompression, so a small compressed body can't expand without limit
+        if (size > MAX_RESPONSE_BYTES) {
+          response.destroy();
+          throw new HttpError(413, 'The page is too large');
+        }
+        chunks.push(chunk);
+      }
+      
+      const body = Buffer.concat(chunks);
+      const declared = response.headers['content-type'] || '';
+      return {
+        url: url.toString(),
+        status,
+        contentType: sniffContentType(declared, body),
+        declaredContentType: declared,
+        body
+      };
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new HttpError(504, 'The website took too long to respond');
+    }
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new HttpError(502, `Could not fetch the page: ${error instanceof Error ? error.message : 'unknown error'}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export const isAllowedContentType = (contentType: string): boolean => ALLOWED_TYPES.includes(contentType);
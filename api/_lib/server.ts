@@ -0,0 +1,199 @@
+// Shared helpers for the backend functions in /api.
+// Provider keys only exist here (server-side environment), never in the client bundle.
+
+const env = (name: string): string => process.env[name] || process.env[`VITE_${name}`] || '';
+
+const SUPABASE_URL = env('SUPABASE_URL').replace(/\/+$/, '');
+const SUPABASE_ANON_KEY = env('SUPABASE_ANON_KEY');
+const LLM_BASE_URL = (process.env.LLM_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+// Comma-separated list from the environment, e.g. LLM_CHAT_MODELS=gpt-4o-mini,gpt-4o
+const envList = (name: string, fallback: string[]): string[] =>
+  process.env[name] ? process.env[name].split(',').map(item => item.trim()).filter(Boolean) : fallback;
+
+interface ProviderPolicy {
+  models: string[]; // Models requests may use; the first one is used when a request names none
+  maxTokens?: number; // Upper bound for max_tokens of chat completions
+}
+
+// Provider endpoints the proxy forwards to, and what requests paid with the server key may ask for.
+// Users who saved their own key can use any model and token limit.
+const PROVIDER_POLICIES: Record<string, ProviderPolicy> = {
+  '/chat/completions': {
+    models: envList('LLM_CHAT_MODELS', ['gpt-3.5-turbo', 'gpt-4o-mini', 'gpt-4o', 'gpt-4']),
+    maxTokens: Number(process.env.LLM_MAX_TOKENS) || 4000
+  },
+  '/embeddings': { models: envList('LLM_EMBEDDING_MODELS', ['text-embedding-3-small']) },
+  '/audio/transcriptions': { models: envList('LLM_TRANSCRIPTION_MODELS', ['whisper-1']) },
+  '/audio/speech': { models: envList('LLM_SPEECH_MODELS', ['tts-1']) }
+};
+
+export class HttpError extends Error {
+  status: number;
+  
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export interface AuthenticatedUser {
+  id: string;
+  accessToken: string;
+}
+
+export const jsonResponse = (body: unknown, status: number = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+// Errors use the same shape as OpenAI's so the client can read them the same way
+export const errorResponse = (error: unknown): Response => {
+  const status = error instanceof HttpError ? error.status : 500;
+  const message = error instanceof Error ? error.message : 'Internal server error';
+  
+  if (status >= 500) {
+    console.error('Backend function error:', error);
+  }
+  
+  return jsonResponse({ error: { message } }, status);
+};
+
+/**
+ * Check the Supabase access token sent by the client and return the signed-in user
+ */
+export async function authenticate(request: Request): Promise<AuthenticatedUser> {
+  const accessToken = (request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  
+  if (!accessToken) {
+    throw new HttpError(401, 'Missing access token');
+  }
+  
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new HttpError(500, 'SUPABASE_URL and SUPABASE_ANON_KEY must be set on the server');
+  }
+  
+  const response = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+    headers: {
+      'apikey': SUPABASE_ANON_KEY,
+      'Authorization': `Bearer ${accessToken}`
+    }
+  });
+  
+  if (!response.ok) {
+    throw new HttpError(401, 'Invalid or expired access token');
+  }
+  
+  const user = await response.json();
+  return { id: user.id, accessToken };
+}
+
+/**
+ * The user's own API key from the API Settings tab, falling back to the server key.
+ * The RPC runs with the user's token, so it can only ever return their own key.
+ */
+async function getProviderKey(user: AuthenticatedUser): Promise<{ apiKey: string; isUserKey: boolean }> {
+  try {
+    const response = await fetch(`${SUPABASE_URL}/rest/v1/rpc/get_user_api_key`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${user.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: '{}'
+    });
+    
+    if (response.ok) {
+      const userKey = await response.json();
+      if (userKey) return { apiKey: userKey, isUserKey: true };
+    }
+  } catch (error) {
+    console.error('Error fetching user API key:', error);
+  }
+  
+  return { apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '', isUserKey: false };
+}
+
+// Check the model against the policy, falling back to its default model
+const resolveModel = (model: unknown, policy: ProviderPolicy): string => {
+  if (model === undefined || model === null || model === '') {
+    return policy.models[0];
+  }
+  if (typeof model !== 'string' || !policy.models.includes(model)) {
+    throw new HttpError(400, `Model ${String(model)} is not available. Add your own API key in Settings to use other models.`);
+  }
+  return model;
+};
+
+/**
+ * Apply the server key's policy to a request body: only allowed models, and max_tokens capped
+ */
+function applyPolicy(body: FormData | string, policy: ProviderPolicy): FormData | string {
+  if (body instanceof FormData) {
+    body.set('model', resolveModel(body.get('model'), policy));
+    return body;
+  }
+  
+  let options: Record<string, unknown>;
+  try {
+    options = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+  
+  options.model = resolveModel(options.model, policy);
+  if (policy.maxTokens) {
+    const requested = Number(options.max_tokens) || policy.maxTokens;
+    options.max_tokens = Math.min(Math.max(requested, 1), policy.maxTokens);
+    delete options.max_completion_tokens;
+    options.n = 1;
+  }
+  return JSON.stringify(options);
+}
+
+/**
+ * Forward an authenticated request to the same path on the AI provider, streaming the response back.
+ * Requests on the server key are limited to the path's allowed models and token cap; multipart
+ * bodies (audio uploads) are re-encoded.
+ */
+export async function proxyToProvider(request: Request, path: string): Promise<Response> {
+  try {
+    if (request.method !== 'POST') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    
+    const policy = PROVIDER_POLICIES[path];
+    if (!policy) {
+      throw new HttpError(404, 'Unknown provider endpoint');
+    }
+    
+    const user = await authenticate(request);
+    const { apiKey, isUserKey } = await getProviderKey(user);
+    
+    const contentType = request.headers.get('Content-Type') || '';
+    const isMultipart = contentType.startsWith('multipart/form-data');
+    const body = isMultipart ? await request.formData() : await request.text();
+    
+    const upstream = await fetch(`${LLM_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        // Let fetch set the multipart boundary itself
+        ...(isMultipart ? {} : { 'Content-Type': 'application/json' })
+      },
+      body: isUserKey ? body : applyPolicy(body, policy)
+    });
+    
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: {
+        'Content-Type': upstream.headers.get('Content-Type') || 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,120 @@
+// YouTube's internal player API, shared by the caption and audio fallbacks for videos SearchAPI has no transcript for.
+// The Android client is used because its stream URLs work without deciphering a signature.
+
+import { HttpError } from './server';
+
+const PLAYER_URL = 'https://www.youtube.com/youtubei/v1/player?prettyPrint=false';
+const ANDROID_CLIENT_VERSION = '19.09.37';
+
+export interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  name: string;
+  kind: 'manual' | 'asr'; // asr: generated by YouTube's speech recognition
+  isTranslatable: boolean;
+}
+
+export interface AudioFormat {
+  url: string;
+  mimeType: string;
+  bitrate: number;
+  contentLength: number | null;
+}
+
+export interface PlayerResponse {
+  captionTracks: CaptionTrack[];
+  audioFormats: AudioFormat[];
+  duration: number | null;
+}
+
+// Fields read from the player API's response. It is undocumented, so values are checked before use.
+interface PlayerText {
+  simpleText?: unknown;
+  runs?: { text?: unknown }[];
+}
+
+interface PlayerCaptionTrack {
+  baseUrl?: unknown;
+  languageCode?: unknown;
+  name?: PlayerText;
+  kind?: unknown;
+  isTranslatable?: unknown;
+}
+
+interface PlayerFormat {
+  url?: unknown;
+  mimeType?: unknown;
+  bitrate?: unknown;
+  contentLength?: unknown;
+}
+
+interface PlayerApiResponse {
+  playabilityStatus?: { status?: string; reason?: string };
+  captions?: { playerCaptionsTracklistRenderer?: { captionTracks?: PlayerCaptionTrack[] } };
+  streamingData?: { adaptiveFormats?: PlayerFormat[] };
+  videoDetails?: { lengthSeconds?: unknown };
+}
+
+const asString = (value: unknown): string => typeof value === 'string' ? value : '';
+
+const getText = (value: PlayerText | undefined): string =>
+  asString(value?.simpleText) || (value?.runs || []).map(run => asString(run.text)).join('') || '';
+
+export const isValidVideoId = (videoId: string): boolean => /^[a-zA-Z0-9_-]{11}$/.test(videoId);
+
+/**
+ * Caption tracks and audio-only streams of a video
+ */
+export async function fetchPlayerResponse(videoId: string): Promise<PlayerResponse> {
+  const response = await fetch(PLAYER_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': `com.google.android.youtube/${ANDROID_CLIENT_VERSION} (Linux; U; Android 11) gzip`
+    },
+    body: JSON.stringify({
+      videoId,
+      context: {
+        client: { clientName: 'ANDROID', clientVersion: ANDROID_CLIENT_VERSION, androidSdkVersion: 30, hl: 'en' }
+      }
+    })
+  });
+  
+  if (!response.ok) {
+    throw new HttpError(502, `YouTube player request failed: ${response.status}`);
+  }
+  
+  const data: PlayerApiResponse = await response.json();
+  const playability = data.playabilityStatus || {};
+  if (playability.status && playability.status !== 'OK') {
+    throw new HttpError(playability.status === 'ERROR' ? 404 : 403, playability.reason || `Video is ${playability.status.toLowerCase()}`);
+  }
+  
+  const captionTracks: CaptionTrack[] = (data.captions?.playerCaptionsTracklistRenderer?.captionTracks || [])
+    .filter(track => asString(track.baseUrl))
+    .map(track => ({
+      baseUrl: asString(track.baseUrl),
+      languageCode: asString(track.languageCode),
+      name: getText(track.name),
+      kind: track.kind === 'asr' ? 'asr' : 'manual',
+      isTranslatable: !!track.isTranslatable
+    }));
+  
+  // Formats with a signatureCipher instead of a url would need the player's cipher to be played
+  const audioFormats: AudioFormat[] = (data.streamingData?.adaptiveFormats || [])
+    .filter(format => asString(format.url) && asString(format.mimeType).startsWith('audio/'))
+    .map(format => ({
+      url: asString(format.url),
+      mimeType: asString(format.mimeType),
+      bitrate: typeof format.bitrate === 'number' ? format.bitrate : 0,
+      contentLength: asString(format.contentLength) ? parseInt(asString(format.contentLength), 10) : null
+    }));
+  
+  const lengthSeconds = parseInt(asString(data.videoDetails?.lengthSeconds), 10);
+  
+  return {
+    captionTracks,
+    audioFormats,
+    duration: Number.isNaN(lengthSeconds) ? null : lengthSeconds
+  };
+}
@@ -0,0 +1,8 @@
+import { proxyToProvider } from '../../_lib/server';
+
+export const config = { runtime: 'edge' };
+
+// OpenAI-compatible /chat/completions endpoint, authenticated with the user's Supabase session
+export default function handler(request: Request): Promise<Response> {
+  return proxyToProvider(request, '/chat/completions');
+}
@@ -0,0 +1,49 @@
+import { authenticate, errorResponse, HttpError } from '../_lib/server';
+import { safeFetch, isAllowedContentType, decodeText } from '../_lib/safeFetch';
+
+// Node.js rather than edge: addresses are checked at connect time with node:http's lookup hook
+export const config = { runtime: 'nodejs' };
+
+/**
+ * First-party fetch proxy for website ingestion.
+ * GET /api/web/fetch?url=... returns the page body; X-Final-Url is the URL after redirects.
+ * Private and internal addresses are refused, and only pages, sitemaps and robots.txt are returned.
+ */
+export async function GET(request: Request): Promise<Response> {
+  try {
+    await authenticate(request);
+    
+    const url = new URL(request.url).searchParams.get('url') || '';
+    if (!url) {
+      throw new HttpError(400, 'Missing url');
+    }
+    
+    const page = await safeFetch(url);
+    
+    // Pages that are gone keep their status, so a re-sync can tell them from a site that is down
+    if (page.status === 404 || page.status === 410) {
+      throw new HttpError(page.status, `The page no longer exists (status ${page.status})`);
+    }
+    
+    if (page.status < 200 || page.status >= 300) {
+      throw new HttpError(502, `The website responded with status ${page.status}`);
+    }
+    
+    if (!isAllowedContentType(page.contentType)) {
+      throw new HttpError(415, `Unsupported content type: ${page.contentType}`);
+    }
+    
+    // Always sent as UTF-8, since the browser's response.text() ignores other charsets
+    return new Response(decodeText(page.body, page.declaredContentType), {
+      status: 200,
+      headers: {
+        'Content-Type': `${page.contentType}; charset=utf-8`,
+        'X-Final-Url': page.url,
+        'Access-Control-Expose-Headers': 'X-Final-Url',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
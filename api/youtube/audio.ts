@@ -0,0 +1,58 @@
+import { authenticate, errorResponse, HttpError } from '../_lib/server';
+import { fetchPlayerResponse, isValidVideoId } from '../_lib/youtube';
+
+export const config = { runtime: 'edge' };
+
+// Longer videos would take too long to download and transcribe in the browser
+const MAX_AUDIO_SECONDS = 2 * 60 * 60;
+
+/**
+ * The audio track of a video, for transcribing videos without any captions.
+ * GET /api/youtube/audio?video_id=... streams the smallest audio-only format. Stream URLs only
+ * work from the address that requested them, so the download has to happen here.
+ */
+export default async function handler(request: Request): Promise<Response> {
+  try {
+    if (request.method !== 'GET') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    
+    await authenticate(request);
+    
+    const videoId = new URL(request.url).searchParams.get('video_id') || '';
+    if (!isValidVideoId(videoId)) {
+      throw new HttpError(400, 'Invalid video_id');
+    }
+    
+    const { audioFormats, duration } = await fetchPlayerResponse(videoId);
+    if (duration && duration > MAX_AUDIO_SECONDS) {
+      throw new HttpError(413, `Videos over ${MAX_AUDIO_SECONDS / 3600} hours can't be transcribed`);
+    }
+    
+    // AAC first, every browser can decode it when long audio is split for transcription
+    const format = [...audioFormats].sort((a, b) =>
+      Number(b.mimeType.startsWith('audio/mp4')) - Number(a.mimeType.startsWith('audio/mp4')) || a.bitrate - b.bitrate
+    )[0];
+    if (!format) {
+      throw new HttpError(404, 'No downloadable audio stream was found for this video');
+    }
+    
+    const upstream = await fetch(format.url);
+    if (!upstream.ok || !upstream.body) {
+      throw new HttpError(502, `YouTube audio download failed: ${upstream.status}`);
+    }
+    
+    const contentLength = upstream.headers.get('Content-Length') || (format.contentLength ? String(format.contentLength) : null);
+    
+    return new Response(upstream.body, {
+      status: 200,
+      headers: {
+        'Content-Type': format.mimeType.split(';')[0],
+        ...(contentLength ? { 'Content-Length': contentLength } : {}),
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
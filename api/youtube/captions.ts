@@ -0,0 +1,99 @@
+import { authenticate, errorResponse, HttpError, jsonResponse } from '../_lib/server';
+import { fetchPlayerResponse, isValidVideoId, type CaptionTrack } from '../_lib/youtube';
+
+export const config = { runtime: 'edge' };
+
+// A cue of a json3 caption track. Auto-generated tracks also have line-break events without segs.
+interface CaptionEvent {
+  tStartMs?: number;
+  dDurationMs?: number;
+  segs?: { utf8?: string }[];
+}
+
+const sameLanguage = (track: CaptionTrack, language: string) =>
+  track.languageCode.split('-')[0].toLowerCase() === language.split('-')[0].toLowerCase();
+
+/**
+ * The best caption track for a language: uploaded captions, then auto-generated ones, then a
+ * track in another language that YouTube can translate, and finally any track as it is
+ */
+const pickTrack = (tracks: CaptionTrack[], language: string): { track: CaptionTrack; translate: boolean } | null => {
+  const inLanguage = tracks.find(track => track.kind === 'manual' && sameLanguage(track, language)) ||
+    tracks.find(track => track.kind === 'asr' && sameLanguage(track, language));
+  if (inLanguage) return { track: inLanguage, translate: false };
+  
+  const translatable = tracks.find(track => track.kind === 'manual' && track.isTranslatable) ||
+    tracks.find(track => track.kind === 'asr' && track.isTranslatable);
+  if (translatable) return { track: translatable, translate: true };
+  
+  const other = tracks.find(track => track.kind === 'manual') || tracks[0];
+  return other ? { track: other, translate: false } : null;
+};
+
+/**
+ * Caption tracks straight from YouTube, for videos SearchAPI has no transcript for.
+ * GET /api/youtube/captions?video_id=...&lang=en returns {segments, language, original_language,
+ * kind, translated}, with segments in the {text, start, duration} shape of SearchAPI's transcripts.
+ */
+export default async function handler(request: Request): Promise<Response> {
+  try {
+    if (request.method !== 'GET') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    
+    await authenticate(request);
+    
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('video_id') || '';
+    const language = searchParams.get('lang') || 'en';
+    
+    if (!isValidVideoId(videoId)) {
+      throw new HttpError(400, 'Invalid video_id');
+    }
+    if (!/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,4})?$/.test(language)) {
+      throw new HttpError(400, 'Invalid lang');
+    }
+    
+    const { captionTracks } = await fetchPlayerResponse(videoId);
+    const choice = pickTrack(captionTracks, language);
+    if (!choice) {
+      throw new HttpError(404, 'This video has no captions');
+    }
+    
+    const captionUrl = new URL(choice.track.baseUrl);
+    captionUrl.searchParams.set('fmt', 'json3');
+    if (choice.translate) {
+      captionUrl.searchParams.set('tlang', language);
+    }
+    
+    const response = await fetch(captionUrl.toString());
+    if (!response.ok) {
+      throw new HttpError(502, `YouTube captions request failed: ${response.status}`);
+    }
+    
+    // json3 events are cues; auto-generated tracks also have empty line-break events
+    const data: { events?: CaptionEvent[] } = await response.json();
+    const segments = (data.events || [])
+      .filter(event => Array.isArray(event.segs))
+      .map(event => ({
+        text: (event.segs || []).map(seg => (typeof seg.utf8 === 'string' ? seg.utf8 : '')).join('').replace(/\s+/g, ' ').trim(),
+        start: (Number(event.tStartMs) || 0) / 1000,
+        duration: (Number(event.dDurationMs) || 0) / 1000
+      }))
+      .filter(segment => segment.text);
+    
+    if (segments.length === 0) {
+      throw new HttpError(404, 'The video\'s captions are empty');
+    }
+    
+    return jsonResponse({
+      segments,
+      language: choice.translate ? language : choice.track.languageCode,
+      original_language: choice.track.languageCode,
+      kind: choice.track.kind,
+      translated: choice.translate
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
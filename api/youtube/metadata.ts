@@ -0,0 +1,107 @@
+import { authenticate, errorResponse, HttpError, jsonResponse } from '../_lib/server';
+
+export const config = { runtime: 'edge' };
+
+// ISO 8601 durations from the Data API, e.g. PT1H2M3S
+const parseIsoDuration = (value: string): number | null => {
+  const match = value.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map(part => parseInt(part || '0', 10));
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+};
+
+async function fetchFromDataApi(videoId: string, apiKey: string) {
+  const apiUrl = new URL('https://www.googleapis.com/youtube/v3/videos');
+  apiUrl.searchParams.append('part', 'snippet,contentDetails');
+  apiUrl.searchParams.append('id', videoId);
+  apiUrl.searchParams.append('key', apiKey);
+  
+  const response = await fetch(apiUrl.toString());
+  if (!response.ok) {
+    throw new HttpError(502, `YouTube Data API error: ${response.status}`);
+  }
+  
+  const data = await response.json();
+  const video = data.items?.[0];
+  if (!video) {
+    throw new HttpError(404, 'Video not found');
+  }
+  
+  const { snippet, contentDetails } = video;
+  const thumbnails = snippet.thumbnails || {};
+  
+  return {
+    video_id: videoId,
+    title: snippet.title,
+    channel_title: snippet.channelTitle,
+    channel_id: snippet.channelId,
+    published_at: snippet.publishedAt,
+    description: snippet.description || '',
+    duration: parseIsoDuration(contentDetails?.duration || ''),
+    thumbnail_url: (thumbnails.high || thumbnails.medium || thumbnails.default)?.url || null,
+    source: 'youtube_data_api'
+  };
+}
+
+// oEmbed needs no key, but only has the title, channel and thumbnail
+async function fetchFromOEmbed(videoId: string) {
+  const oEmbedUrl = new URL('https://www.youtube.com/oembed');
+  oEmbedUrl.searchParams.append('url', `https://www.youtube.com/watch?v=${videoId}`);
+  oEmbedUrl.searchParams.append('format', 'json');
+  
+  const response = await fetch(oEmbedUrl.toString());
+  if (!response.ok) {
+    throw new HttpError(response.status === 404 ? 404 : 502, `YouTube oEmbed error: ${response.status}`);
+  }
+  
+  const data = await response.json();
+  
+  return {
+    video_id: videoId,
+    title: data.title,
+    channel_title: data.author_name,
+    channel_id: null,
+    published_at: null,
+    description: '',
+    duration: null,
+    thumbnail_url: data.thumbnail_url || null,
+    source: 'oembed'
+  };
+}
+
+/**
+ * YouTube video details: title, channel, publish date, duration and description.
+ * GET /api/youtube/metadata?video_id=... uses the YouTube Data API when YOUTUBE_API_KEY is set,
+ * and oEmbed (title, channel and thumbnail only) otherwise.
+ */
+export default async function handler(request: Request): Promise<Response> {
+  try {
+    if (request.method !== 'GET') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    
+    await authenticate(request);
+    
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('video_id') || '';
+    
+    if (!/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      throw new HttpError(400, 'Invalid video_id');
+    }
+    
+    const apiKey = process.env.YOUTUBE_API_KEY;
+    if (apiKey) {
+      try {
+        return jsonResponse(await fetchFromDataApi(videoId, apiKey));
+      } catch (error) {
+        // A missing video won't be found by oEmbed either, but quota and key errors are worth a fallback
+        if (error instanceof HttpError && error.status === 404) throw error;
+        console.error('YouTube Data API request failed, falling back to oEmbed:', error);
+      }
+    }
+    
+    return jsonResponse(await fetchFromOEmbed(videoId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
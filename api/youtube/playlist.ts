@@ -0,0 +1,214 @@
+import { authenticate, errorResponse, HttpError, jsonResponse } from '../_lib/server';
+
+export const config = { runtime: 'edge' };
+
+const MAX_VIDEOS = 200;
+const PAGE_SIZE = 50;
+
+interface CollectionVideo {
+  video_id: string;
+  title: string;
+  channel_title: string | null;
+  published_at: string | null;
+  thumbnail_url: string | null;
+}
+
+interface Collection {
+  type: 'playlist' | 'channel';
+  id: string;
+  title: string | null;
+  videos: CollectionVideo[];
+  total: number | null;
+  truncated: boolean;
+  source: 'youtube_data_api' | 'rss';
+}
+
+const dataApiGet = async (path: string, params: Record<string, string>, apiKey: string) => {
+  const apiUrl = new URL(`https://www.googleapis.com/youtube/v3/${path}`);
+  Object.entries(params).forEach(([key, value]) => apiUrl.searchParams.append(key, value));
+  apiUrl.searchParams.append('key', apiKey);
+  
+  const response = await fetch(apiUrl.toString());
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new HttpError(response.status === 404 ? 404 : 502, `YouTube Data API error: ${data?.error?.message || response.status}`);
+  }
+  return response.json();
+};
+
+// Videos of a playlist, page by page up to the limit
+async function fetchPlaylistItems(playlistId: string, limit: number, apiKey: string) {
+  const videos: CollectionVideo[] = [];
+  let pageToken = '';
+  let total: number | null = null;
+  
+  do {
+    const data = await dataApiGet('playlistItems', {
+      part: 'snippet,contentDetails',
+      playlistId,
+      maxResults: String(PAGE_SIZE),
+      ...(pageToken ? { pageToken } : {})
+    }, apiKey);
+    
+    total = data.pageInfo?.totalResults ?? total;
+    for (const item of data.items || []) {
+      const { snippet, contentDetails } = item;
+      // Private and deleted videos stay in playlists without an owner
+      if (!snippet?.videoOwnerChannelTitle) continue;
+      
+      videos.push({
+        video_id: contentDetails.videoId,
+        title: snippet.title,
+        channel_title: snippet.videoOwnerChannelTitle,
+        published_at: contentDetails.videoPublishedAt || null,
+        thumbnail_url: (snippet.thumbnails?.medium || snippet.thumbnails?.default)?.url || null
+      });
+    }
+    pageToken = data.nextPageToken || '';
+  } while (pageToken && videos.length < limit);
+  
+  return { videos: videos.slice(0, limit), total, truncated: !!pageToken || videos.length > limit };
+}
+
+async function fetchFromDataApi(params: URLSearchParams, limit: number, apiKey: string): Promise<Collection> {
+  const playlistId = params.get('playlist_id');
+  
+  if (playlistId) {
+    const playlist = await dataApiGet('playlists', { part: 'snippet', id: playlistId }, apiKey);
+    if (!playlist.items?.length) {
+      throw new HttpError(404, 'Playlist not found. Private playlists can\'t be imported.');
+    }
+    
+    return {
+      type: 'playlist',
+      id: playlistId,
+      title: playlist.items[0].snippet.title,
+      ...await fetchPlaylistItems(playlistId, limit, apiKey),
+      source: 'youtube_data_api'
+    };
+  }
+  
+  // A channel's videos are its uploads playlist
+  const channelId = params.get('channel_id');
+  const handle = params.get('handle');
+  const username = params.get('username');
+  const channel = await dataApiGet('channels', {
+    part: 'snippet,contentDetails',
+    ...(channelId ? { id: channelId } : handle ? { forHandle: handle } : { forUsername: username || '' })
+  }, apiKey);
+  
+  const item = channel.items?.[0];
+  if (!item) {
+    throw new HttpError(404, 'Channel not found');
+  }
+  
+  return {
+    type: 'channel',
+    id: item.id,
+    title: item.snippet.title,
+    ...await fetchPlaylistItems(item.contentDetails.relatedPlaylists.uploads, limit, apiKey),
+    source: 'youtube_data_api'
+  };
+}
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+
+const getTag = (xml: string, tag: string): string | null => {
+  const match = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1].trim()) : null;
+};
+
+// Without an API key: the public feed, which only lists the latest 15 videos
+async function fetchFromFeed(params: URLSearchParams): Promise<Collection> {
+  const playlistId = params.get('playlist_id');
+  const channelId = params.get('channel_id');
+  
+  if (!playlistId && !channelId) {
+    throw new HttpError(400, 'Channel handles and names can only be looked up with YOUTUBE_API_KEY set on the server. Use the channel\'s /channel/UC... URL instead.');
+  }
+  
+  const feedUrl = new URL('https://www.youtube.com/feeds/videos.xml');
+  feedUrl.searchParams.append(playlistId ? 'playlist_id' : 'channel_id', (playlistId || channelId)!);
+  
+  const response = await fetch(feedUrl.toString());
+  if (!response.ok) {
+    throw new HttpError(response.status === 404 ? 404 : 502, response.status === 404
+      ? `${playlistId ? 'Playlist' : 'Channel'} not found`
+      : `YouTube feed error: ${response.status}`);
+  }
+  
+  const xml = await response.text();
+  const entries = xml.split('<entry>').slice(1);
+  const videos = entries
+    .map(entry => ({
+      video_id: getTag(entry, 'yt:videoId') || '',
+      title: getTag(entry, 'title') || '',
+      channel_title: getTag(getTag(entry, 'author') || '', 'name'),
+      published_at: getTag(entry, 'published'),
+      thumbnail_url: entry.match(/<media:thumbnail url="([^"]+)"/)?.[1] || null
+    }))
+    .filter(video => video.video_id);
+  
+  return {
+    type: playlistId ? 'playlist' : 'channel',
+    id: (playlistId || channelId)!,
+    title: getTag(xml.split('<entry>')[0], 'title'),
+    videos,
+    total: null,
+    // The feed never has more than 15 entries
+    truncated: videos.length >= 15,
+    source: 'rss'
+  };
+}
+
+/**
+ * The videos of a YouTube playlist or channel, for bulk import.
+ * GET /api/youtube/playlist?playlist_id=... (or channel_id, handle, username) lists up to
+ * 200 videos with YOUTUBE_API_KEY set, and the latest 15 from the public feed otherwise.
+ */
+export default async function handler(request: Request): Promise<Response> {
+  try {
+    if (request.method !== 'GET') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    
+    await authenticate(request);
+    
+    const { searchParams } = new URL(request.url);
+    const playlistId = searchParams.get('playlist_id');
+    const channelId = searchParams.get('channel_id');
+    const handle = searchParams.get('handle');
+    const username = searchParams.get('username');
+    
+    if (playlistId && !/^[a-zA-Z0-9_-]{10,64}$/.test(playlistId)) {
+      throw new HttpError(400, 'Invalid playlist_id');
+    }
+    if (channelId && !/^UC[a-zA-Z0-9_-]{22}$/.test(channelId)) {
+      throw new HttpError(400, 'Invalid channel_id');
+    }
+    if (handle && !/^@[a-zA-Z0-9._-]{3,30}$/.test(handle)) {
+      throw new HttpError(400, 'Invalid handle');
+    }
+    if (username && !/^[a-zA-Z0-9._-]{1,64}$/.test(username)) {
+      throw new HttpError(400, 'Invalid username');
+    }
+    if (!playlistId && !channelId && !handle && !username) {
+      throw new HttpError(400, 'A playlist_id, channel_id, handle or username is required');
+    }
+    
+    const limit = Math.min(parseInt(searchParams.get('limit') || '', 10) || MAX_VIDEOS, MAX_VIDEOS);
+    const apiKey = process.env.YOUTUBE_API_KEY;
+    
+    return jsonResponse(apiKey
+      ? await fetchFromDataApi(searchParams, limit, apiKey)
+      : await fetchFromFeed(searchParams));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
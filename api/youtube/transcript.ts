@@ -0,0 +1,48 @@
+import { authenticate, errorResponse, HttpError } from '../_lib/server';
+
+export const config = { runtime: 'edge' };
+
+/**
+ * YouTube transcript lookup through SearchAPI.io.
+ * GET /api/youtube/transcript?video_id=... returns the SearchAPI response unchanged.
+ */
+export default async function handler(request: Request): Promise<Response> {
+  try {
+    if (request.method !== 'GET') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    
+    await authenticate(request);
+    
+    const { searchParams } = new URL(request.url);
+    const videoId = searchParams.get('video_id') || '';
+    
+    if (!/^[a-zA-Z0-9_-]{11}$/.test(videoId)) {
+      throw new HttpError(400, 'Invalid video_id');
+    }
+    
+    const apiKey = process.env.SEARCH_API_KEY;
+    if (!apiKey) {
+      throw new HttpError(500, 'SEARCH_API_KEY is not set on the server');
+    }
+    
+    const apiUrl = new URL('https://www.searchapi.io/api/v1/search');
+    apiUrl.searchParams.append('engine', 'youtube_transcripts');
+    apiUrl.searchParams.append('video_id', videoId);
+    apiUrl.searchParams.append('api_key', apiKey);
+    
+    const lang = searchParams.get('lang');
+    if (lang) {
+      apiUrl.searchParams.append('lang', lang);
+    }
+    
+    const upstream = await fetch(apiUrl.toString());
+    
+    return new Response(upstream.body, {
+      status: upstream.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -3,6 +3,7 @@ import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/comp
 import { FileText, Youtube, Headphones, Video } from 'lucide-react';
 import { formatTime } from '@/lib/youtubeService';
 import type { FileRecord } from '@/lib/supabase';
+import { findReferenceByDocIndex } from '@/lib/aiService';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -12,24 +13,32 @@ interface MixedCitationParserProps {
     fileId: string;
     text: string;
     position?: number;
+    location?: string;
+    page?: number;
+    docIndex?: number;
   }[];
   knowledgebaseFiles: FileRecord[];
-  onReferenceClick: (reference: { fileId: string; text?: string; position?: number }) => void;
+  onReferenceClick: (reference: { fileId: string; text?: string; position?: number; location?: string; page?: number }) => void;
+  isStreaming?: boolean;
 }
 
 // Regex pattern for citation format
 const CITATION_PATTERN = /\(\((\d+)(?::([a-zA-Z0-9\-]+))?\)\)/g;
 
+// Matches a citation that is still being written at the end of streamed content, e.g. "((1:12"
+const PARTIAL_CITATION_PATTERN = /\((?:\((?:\d+(?::[a-zA-Z0-9-]*)?\)?)?)?$/;
+
 export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
-  content = '',
+  content: rawContent = '',
   references = [],
   knowledgebaseFiles = [],
   onReferenceClick,
+  isStreaming = false,
 }) => {
   // Log props for debugging
   useEffect(() => {
     console.log('MixedCitationParser props:', {
-      contentLength: content?.length || 0,
+      contentLength: rawContent?.length || 0,
       referencesCount: references?.length || 0,
       knowledgebaseFilesCount: knowledgebaseFiles?.length || 0
     });
@@ -43,7 +52,7 @@ export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
     } else {
       console.log('No references provided to MixedCitationParser');
     }
-  }, [content, references, knowledgebaseFiles]);
+  }, [rawContent, references, knowledgebaseFiles]);
   
   // Create a map for quick lookup of references by fileId
   const referenceMap = new Map();
@@ -53,7 +62,7 @@ export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
     }
   });
   
-  const renderCitationButton = (fileId: string, timestamp?: number) => {
+  const renderCitationButton = (fileId: string, timestamp?: number, citedReference?: (typeof references)[number]) => {
     // Find the file in the knowledgebase files
     const file = knowledgebaseFiles.find(f => f.id === fileId);
     if (!file) {
@@ -61,8 +70,8 @@ export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
       return null;
     }
     
-    // Get the reference for this file
-    const reference = referenceMap.get(fileId);
+    // The cited chunk's reference, or any reference to this file for citations by fileId
+    const reference = citedReference || referenceMap.get(fileId);
     console.log(`Rendering citation button for ${file.name} (${file.type})`, { timestamp });
     
     // Determine the icon and label based on file type
@@ -181,11 +190,18 @@ export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
       }
     }
     
+    // Document citations also show their section or page, e.g. "DOC · Section 3.2"
+    if (reference?.location && reference?.position === undefined) {
+      label = `${label} · ${reference.location}`;
+    }
+    
     // Create the reference object to pass to the click handler
     const referenceObj = {
       fileId,
       text: reference?.text || '',
-      position: timestamp
+      position: timestamp,
+      location: reference?.location,
+      page: reference?.page
     };
     
     return (
@@ -203,6 +219,9 @@ export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
           <TooltipContent className="tooltip-content">
             <div className="p-2 max-w-md">
               <p className="font-medium text-sm">{file.name}</p>
+              {reference?.location && (
+                <p className="text-xs text-sattva-600 mt-1">{reference.location}</p>
+              )}
               {reference?.text && (
                 <p className="text-xs text-gray-600 mt-1 line-clamp-6">
                   "{reference.text}"
@@ -219,6 +238,9 @@ export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
   };
   
   const parseContentWithReferences = () => {
+    // While streaming, hide a citation marker until it has been fully written
+    const content = isStreaming ? rawContent.replace(PARTIAL_CITATION_PATTERN, '') : rawContent;
+    
     if (!content) {
       console.log('No content to parse');
       return null;
@@ -255,17 +277,19 @@ export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
       // Check if the second part is a fileId (UUID format)
       const isFileId = fileIdOrTimestamp && /^[a-f0-9\-]{36}$/i.test(fileIdOrTimestamp);
       
-      // Get the reference based on the file index or fileId
+      // Get the reference based on the document number or fileId
       let fileId;
+      let citedReference;
       
       if (isFileId) {
         // Use the fileId directly
         fileId = fileIdOrTimestamp;
         console.log(`Using direct fileId: ${fileId}`);
       } else {
-        // Use the index to find the fileId
-        fileId = references[parseInt(fileIndex) - 1]?.fileId;
-        console.log(`Using fileId from index ${fileIndex}: ${fileId}`);
+        // References are keyed by the document number the citation uses, not by list position
+        citedReference = findReferenceByDocIndex(references, parseInt(fileIndex), fileIdOrTimestamp ? parseFloat(fileIdOrTimestamp) : undefined);
+        fileId = citedReference?.fileId;
+        console.log(`Using fileId from document ${fileIndex}: ${fileId}`);
       }
       
       if (fileId) {
@@ -289,7 +313,7 @@ export const MixedCitationParser: React.FC<MixedCitationParserProps> = ({
           // Add the citation button
           segments.push(
             <span key={`citation-${matchIndex}`}>
-              {renderCitationButton(fileId, timestamp)}
+              {renderCitationButton(fileId, timestamp, citedReference)}
             </span>
           );
         } else {
@@ -3,6 +3,7 @@ import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/comp
 import { FileText, Youtube, Play, Headphones, Video, Globe, ExternalLink } from 'lucide-react';
 import { formatTime } from '@/lib/youtubeService';
 import type { FileRecord } from '@/lib/supabase';
+import { findReferenceByDocIndex } from '@/lib/aiService';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -12,9 +13,12 @@ interface TextCitationParserProps {
     fileId: string;
     text: string;
     position?: number;
+    location?: string;
+    page?: number;
+    docIndex?: number;
   }[];
   knowledgebaseFiles: FileRecord[];
-  onReferenceClick: (reference: { fileId: string; text?: string; position?: number }) => void;
+  onReferenceClick: (reference: { fileId: string; text?: string; position?: number; location?: string; page?: number }) => void;
 }
 
 // Regex pattern for citation format
@@ -63,7 +67,7 @@ export const TextCitationParser: React.FC<TextCitationParserProps> = ({
   }
 
   // Function to render a citation button for non-YouTube files
-  const renderCitationButton = (fileId: string, textSnippet?: string) => {
+  const renderCitationButton = (fileId: string, citedReference?: (typeof references)[number]) => {
     // Find the file in the knowledgebase files
     const file = knowledgebaseFiles.find(f => f.id === fileId);
     if (!file) {
@@ -76,8 +80,8 @@ export const TextCitationParser: React.FC<TextCitationParserProps> = ({
       return null;
     }
     
-    // Get the reference for this file
-    const reference = referenceMap.get(fileId);
+    // The cited chunk's reference, or any reference to this file for citations by fileId
+    const reference = citedReference || referenceMap.get(fileId);
     console.log(`Rendering citation button for ${file.name} (${file.type})`);
     
     // Determine the icon and label based on file type
@@ -176,17 +180,27 @@ export const TextCitationParser: React.FC<TextCitationParserProps> = ({
       }
     }
     
+    // Document citations also show their section or page, e.g. "DOC · Section 3.2"
+    if (reference?.location && reference?.position === undefined) {
+      label = `${label} · ${reference.location}`;
+    }
+    
     // Create the reference object to pass to the click handler
     const referenceObj = {
       fileId,
       text: reference?.text || '',
-      position: reference?.position
+      position: reference?.position,
+      location: reference?.location,
+      page: reference?.page
     };
     
     // Enhanced tooltip content
     const tooltipContent = (
       <div className="p-2 max-w-md">
         <p className="font-medium text-sm">{file.name}</p>
+        {reference?.location && (
+          <p className="text-xs text-sattva-600 mt-1">{reference.location}</p>
+        )}
         {file.type?.toLowerCase() === 'website' && file.source_url && (
           <div className="flex items-center text-xs text-gray-600 mt-1">
             <ExternalLink className="h-3 w-3 mr-1" />
@@ -277,17 +291,19 @@ export const TextCitationParser: React.FC<TextCitationParserProps> = ({
       // Check if the second part is a fileId (UUID format)
       const isFileId = fileIdOrTimestamp && /^[a-f0-9\-]{36}$/i.test(fileIdOrTimestamp);
       
-      // Get the reference based on the file index or fileId
+      // Get the reference based on the document number or fileId
       let fileId;
+      let citedReference;
       
       if (isFileId) {
         // Use the fileId directly
         fileId = fileIdOrTimestamp;
         console.log(`Using direct fileId: ${fileId}`);
       } else {
-        // Use the index to find the fileId
-        fileId = references[parseInt(fileIndex) - 1]?.fileId;
-        console.log(`Using fileId from index ${fileIndex}: ${fileId}`);
+        // References are keyed by the document number the citation uses, not by list position
+        citedReference = findReferenceByDocIndex(references, parseInt(fileIndex));
+        fileId = citedReference?.fileId;
+        console.log(`Using fileId from document ${fileIndex}: ${fileId}`);
       }
       
       if (fileId) {
@@ -309,7 +325,7 @@ export const TextCitationParser: React.FC<TextCitationParserProps> = ({
             // Add the citation button for non-YouTube files
             segments.push(
               <span key={`citation-${matchIndex}`}>
-                {renderCitationButton(fileId)}
+                {renderCitationButton(fileId, citedReference)}
               </span>
             );
           }
@@ -3,6 +3,7 @@ import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/comp
 import { FileText, Youtube, Play } from 'lucide-react';
 import { formatTime } from '@/lib/youtubeService';
 import type { FileRecord } from '@/lib/supabase';
+import { findReferenceByDocIndex } from '@/lib/aiService';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -12,6 +13,7 @@ interface YoutubeCitationParserProps {
     fileId: string;
     text: string;
     position?: number;
+    docIndex?: number;
   }[];
   knowledgebaseFiles: FileRecord[];
   onReferenceClick: (reference: { fileId: string; text?: string; position?: number }) => void;
@@ -69,7 +71,7 @@ export const YoutubeCitationParser: React.FC<YoutubeCitationParserProps> = ({
     }
   });
   
-  const renderCitationButton = (fileId: string, timestamp?: number) => {
+  const renderCitationButton = (fileId: string, timestamp?: number, citedReference?: (typeof references)[number]) => {
     // Find the file in the knowledgebase files
     const file = knowledgebaseFiles.find(f => f.id === fileId);
     if (!file) {
@@ -82,8 +84,8 @@ export const YoutubeCitationParser: React.FC<YoutubeCitationParserProps> = ({
       return null;
     }
     
-    // Get the reference for this file
-    const reference = referenceMap.get(fileId);
+    // The cited chunk's reference, or any reference to this file for citations by fileId
+    const reference = citedReference || referenceMap.get(fileId);
     console.log(`Rendering citation button for ${file.name} (${file.type})`, { timestamp });
     
     // Determine the icon and label based on file type
@@ -223,17 +225,19 @@ export const YoutubeCitationParser: React.FC<YoutubeCitationParserProps> = ({
       // Check if the second part is a fileId (UUID format)
       const isFileId = fileIdOrTimestamp && /^[a-f0-9\-]{36}$/i.test(fileIdOrTimestamp);
       
-      // Get the reference based on the file index or fileId
+      // Get the reference based on the document number or fileId
       let fileId;
+      let citedReference;
       
       if (isFileId) {
         // Use the fileId directly
         fileId = fileIdOrTimestamp;
         console.log(`Using direct fileId: ${fileId}`);
       } else {
-        // Use the index to find the fileId
-        fileId = references[parseInt(fileIndex) - 1]?.fileId;
-        console.log(`Using fileId from index ${fileIndex}: ${fileId}`);
+        // References are keyed by the document number the citation uses, not by list position
+        citedReference = findReferenceByDocIndex(references, parseInt(fileIndex), fileIdOrTimestamp ? parseFloat(fileIdOrTimestamp) : undefined);
+        fileId = citedReference?.fileId;
+        console.log(`Using fileId from document ${fileIndex}: ${fileId}`);
       }
       
       if (fileId) {
@@ -257,7 +261,7 @@ export const YoutubeCitationParser: React.FC<YoutubeCitationParserProps> = ({
           // Add the citation button
           segments.push(
             <span key={`citation-${matchIndex}`}>
-              {renderCitationButton(fileId, timestamp)}
+              {renderCitationButton(fileId, timestamp, citedReference)}
             </span>
           );
         } else {
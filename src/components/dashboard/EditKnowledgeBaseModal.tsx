@@ -10,12 +10,13 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
-import { Knowledgebase } from '@/lib/supabase';
+import { Knowledgebase, SearchSettings } from '@/lib/supabase';
+import { DEFAULT_SEARCH_SETTINGS } from '@/lib/knowledgebaseService';
 
 export type EditKnowledgeBaseModalProps = {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (id: string, name: string, description: string) => Promise<void>;
+  onSubmit: (id: string, name: string, description: string, searchSettings: SearchSettings) => Promise<void>;
   knowledgeBase: Knowledgebase | null;
 };
 
@@ -27,6 +28,8 @@ export function EditKnowledgeBaseModal({
 }: EditKnowledgeBaseModalProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [vectorWeight, setVectorWeight] = useState(DEFAULT_SEARCH_SETTINGS.vector_weight);
+  const [keywordWeight, setKeywordWeight] = useState(DEFAULT_SEARCH_SETTINGS.keyword_weight);
   const [isUpdating, setIsUpdating] = useState(false);
 
   // Set initial values when knowledgeBase changes
@@ -34,6 +37,8 @@ export function EditKnowledgeBaseModal({
     if (knowledgeBase) {
       setName(knowledgeBase.title);
       setDescription(knowledgeBase.description || '');
+      setVectorWeight(knowledgeBase.search_settings?.vector_weight ?? DEFAULT_SEARCH_SETTINGS.vector_weight);
+      setKeywordWeight(knowledgeBase.search_settings?.keyword_weight ?? DEFAULT_SEARCH_SETTINGS.keyword_weight);
     }
   }, [knowledgeBase]);
 
@@ -45,10 +50,20 @@ export function EditKnowledgeBaseModal({
       return;
     }
 
+    if (vectorWeight < 0 || keywordWeight < 0 || vectorWeight + keywordWeight === 0) {
+      toast.error('Search weights must be positive and at least one must be above zero');
+      return;
+    }
+
     setIsUpdating(true);
     
     try {
-      await onSubmit(knowledgeBase.id, name, description);
+      await onSubmit(knowledgeBase.id, name, description, {
+        ...DEFAULT_SEARCH_SETTINGS,
+        ...knowledgeBase.search_settings,
+        vector_weight: vectorWeight,
+        keyword_weight: keywordWeight
+      });
       onClose();
     } catch (error) {
       console.error('Error updating knowledge base:', error);
@@ -91,6 +106,41 @@ export function EditKnowledgeBaseModal({
               onChange={(e) => setDescription(e.target.value)}
             />
           </div>
+          
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Search weights</p>
+            <p className="text-xs text-gray-500">
+              How much meaning-based and exact keyword matches count when finding sources for chat answers.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label htmlFor="vector-weight" className="text-xs text-gray-600">
+                  Semantic
+                </label>
+                <Input
+                  id="vector-weight"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={vectorWeight}
+                  onChange={(e) => setVectorWeight(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="keyword-weight" className="text-xs text-gray-600">
+                  Keyword
+                </label>
+                <Input
+                  id="keyword-weight"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={keywordWeight}
+                  onChange={(e) => setKeywordWeight(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+          </div>
         </div>
         
         <DialogFooter>
@@ -3,7 +3,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { knowledgebaseService } from '@/lib/knowledgebaseService';
-import { Loader2 } from 'lucide-react';
+import { sourceSyncService, SYNC_INTERVALS } from '@/lib/sourceSyncService';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { PdfViewer } from '@/components/ui/PdfViewer';
+import { toast } from 'sonner';
 import type { FileRecord } from '@/lib/supabase';
 
 interface FileContentViewerProps {
@@ -12,10 +15,20 @@ interface FileContentViewerProps {
   onClose: () => void;
 }
 
+// Where a video's transcript came from (metadata.extraction_method)
+const TRANSCRIPT_METHODS: Record<string, string> = {
+  searchapi_youtube_transcripts: 'YouTube transcript (SearchAPI)',
+  youtube_captions: 'YouTube captions',
+  youtube_auto_captions: 'YouTube auto-generated captions',
+  openai_whisper: 'Transcribed from the audio'
+};
+
 export function FileContentViewer({ fileId, isOpen, onClose }: FileContentViewerProps) {
   const [file, setFile] = useState<FileRecord | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('content');
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
 
   useEffect(() => {
     if (isOpen && fileId) {
@@ -29,6 +42,11 @@ export function FileContentViewer({ fileId, isOpen, onClose }: FileContentViewer
       const fileData = await knowledgebaseService.getFileById(fileId);
       setFile(fileData);
       console.log('Loaded file for viewer:', fileData);
+      
+      // Stored PDFs can also be shown as the original document
+      setOriginalUrl(fileData.path && fileData.type === 'application/pdf'
+        ? await knowledgebaseService.getOriginalFileUrl(fileData.path)
+        : null);
     } catch (error) {
       console.error('Error loading file:', error);
     } finally {
@@ -40,6 +58,51 @@ export function FileContentViewer({ fileId, isOpen, onClose }: FileContentViewer
     return new Date(dateString).toLocaleString();
   };
 
+  const handleSync = async () => {
+    if (!file) return;
+    
+    setIsSyncing(true);
+    try {
+      const updated = await sourceSyncService.syncFile(file);
+      setFile(updated);
+      toast.success(updated.last_sync_summary?.status === 'changed'
+        ? 'The source changed, the content was updated'
+        : 'The source has not changed');
+    } catch (error) {
+      console.error('Error syncing file:', error);
+      toast.error(`Sync failed: ${error.message}`);
+      // The failure is recorded on the file
+      setFile(await knowledgebaseService.getFileById(file.id).catch(() => file));
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleSyncIntervalChange = async (value: string) => {
+    if (!file) return;
+    
+    try {
+      setFile(await sourceSyncService.setSyncInterval(file.id, value ? parseInt(value, 10) : null));
+    } catch (error) {
+      console.error('Error updating sync schedule:', error);
+      toast.error('Failed to update the sync schedule');
+    }
+  };
+
+  // e.g. "+3 / -1 paragraphs" for pages, "transcript lines" for videos
+  const describeSyncChanges = (fileRecord: FileRecord) => {
+    const summary = fileRecord.last_sync_summary!;
+    const unit = fileRecord.type === 'youtube' ? 'transcript lines' : 'paragraphs';
+    return `+${summary.added || 0} / -${summary.removed || 0} ${unit}, now ${summary.new_length} characters (was ${summary.previous_length})`;
+  };
+
+  // Colour OCR confidence so pages worth double-checking stand out
+  const getConfidenceClassName = (confidence: number) => {
+    if (confidence >= 80) return 'bg-green-100 text-green-800';
+    if (confidence >= 60) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-red-100 text-red-800';
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -63,12 +126,84 @@ export function FileContentViewer({ fileId, isOpen, onClose }: FileContentViewer
           <Tabs defaultValue="content" className="flex-1 overflow-hidden flex flex-col" onValueChange={setActiveTab}>
             <TabsList>
               <TabsTrigger value="content">Content</TabsTrigger>
+              {originalUrl && <TabsTrigger value="original">Original</TabsTrigger>}
               <TabsTrigger value="metadata">Metadata</TabsTrigger>
               <TabsTrigger value="details">File Details</TabsTrigger>
             </TabsList>
             
             <div className="flex-1 overflow-hidden">
               <TabsContent value="content" className="h-full overflow-auto">
+                {sourceSyncService.isSyncable(file) && (
+                  <div className="mb-2 p-3 border rounded-md text-sm space-y-2">
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="font-medium">
+                        {file.last_synced_at
+                          ? `Last synced ${formatDate(file.last_synced_at)}`
+                          : 'Not synced since it was added'}
+                      </p>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <select
+                          aria-label="Sync schedule"
+                          className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                          value={file.sync_interval_hours ?? ''}
+                          onChange={(e) => handleSyncIntervalChange(e.target.value)}
+                        >
+                          {SYNC_INTERVALS.map(interval => (
+                            <option key={interval.label} value={interval.hours ?? ''}>{interval.label}</option>
+                          ))}
+                        </select>
+                        <Button size="sm" variant="outline" onClick={handleSync} disabled={isSyncing}>
+                          {isSyncing ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-4 w-4 mr-2" />
+                          )}
+                          Sync now
+                        </Button>
+                      </div>
+                    </div>
+                    {file.last_sync_summary?.status === 'failed' && (
+                      <p className="text-red-500">
+                        Sync on {formatDate(file.last_sync_summary.checked_at)} failed: {file.last_sync_summary.error}
+                      </p>
+                    )}
+                    {file.last_sync_summary?.status === 'unchanged' && (
+                      <p className="text-muted-foreground">
+                        No changes found on {formatDate(file.last_sync_summary.checked_at)}
+                      </p>
+                    )}
+                    {file.last_sync_summary?.status === 'changed' && (
+                      <div className="space-y-1">
+                        <p className="text-muted-foreground">
+                          Changed on {formatDate(file.last_sync_summary.checked_at)}: {describeSyncChanges(file)}
+                        </p>
+                        {file.last_sync_summary.added_samples?.map((sample, index) => (
+                          <p key={`added-${index}`} className="text-xs text-green-700 truncate">+ {sample}</p>
+                        ))}
+                        {file.last_sync_summary.removed_samples?.map((sample, index) => (
+                          <p key={`removed-${index}`} className="text-xs text-red-600 truncate">- {sample}</p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {file.metadata?.ocr_pages?.length > 0 && (
+                  <div className="mb-2 p-3 border rounded-md text-sm">
+                    <p className="font-medium">
+                      Text read with OCR on {file.metadata.ocr_pages.length} {file.metadata.ocr_pages.length === 1 ? 'page' : 'pages'} (average confidence {file.metadata.ocr_confidence}%)
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {file.metadata.ocr_pages.map((ocrPage: { page: number; confidence: number }) => (
+                        <span 
+                          key={ocrPage.page} 
+                          className={`text-xs px-2 py-0.5 rounded-full ${getConfidenceClassName(ocrPage.confidence)}`}
+                        >
+                          Page {ocrPage.page}: {ocrPage.confidence}%
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 <div className="p-4 bg-muted/30 rounded-md h-full overflow-auto">
                   {file.content_text ? (
                     <pre className="whitespace-pre-wrap font-mono text-sm">
@@ -82,6 +217,14 @@ export function FileContentViewer({ fileId, isOpen, onClose }: FileContentViewer
                 </div>
               </TabsContent>
               
+              {originalUrl && (
+                <TabsContent value="original" className="h-full overflow-auto">
+                  <div className="p-4 bg-muted/30 rounded-md h-full overflow-auto">
+                    <PdfViewer url={originalUrl} />
+                  </div>
+                </TabsContent>
+              )}
+              
               <TabsContent value="metadata" className="h-full overflow-auto">
                 <div className="p-4 bg-muted/30 rounded-md h-full overflow-auto">
                   {file.metadata ? (
@@ -132,6 +275,40 @@ export function FileContentViewer({ fileId, isOpen, onClose }: FileContentViewer
                         <div className="font-medium">Status:</div>
                         <div>{file.extraction_status || 'Unknown'}</div>
                         
+                        {file.last_synced_at && (
+                          <>
+                            <div className="font-medium">Last Synced:</div>
+                            <div>{formatDate(file.last_synced_at)}</div>
+                          </>
+                        )}
+                        
+                        {file.extraction_error && (
+                          <>
+                            <div className="font-medium">Last Error:</div>
+                            <div className="text-red-500">{file.extraction_error}</div>
+                          </>
+                        )}
+                        
+                        {file.type === 'youtube' && file.metadata?.extraction_method && (
+                          <>
+                            <div className="font-medium">Transcript:</div>
+                            <div>
+                              {[
+                                TRANSCRIPT_METHODS[file.metadata.extraction_method] || file.metadata.extraction_method,
+                                file.metadata.transcript_language,
+                                file.metadata.transcript_translated_from && `translated from ${file.metadata.transcript_translated_from}`
+                              ].filter(Boolean).join(' · ')}
+                            </div>
+                          </>
+                        )}
+                        
+                        {file.metadata?.ocr_confidence !== undefined && (
+                          <>
+                            <div className="font-medium">OCR Confidence:</div>
+                            <div>{file.metadata.ocr_confidence}%</div>
+                          </>
+                        )}
+                        
                         {file.source_url && (
                           <>
                             <div className="font-medium">Source URL:</div>
@@ -11,23 +11,34 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { FileUpload } from '@/components/ui/FileUpload';
 import { Input } from '@/components/ui/input';
-import { Youtube, Mic, Upload, FileText, Eye, ArrowRight, FileAudio, PenLine, Video, Globe } from 'lucide-react';
+import { Youtube, Mic, Upload, FileText, Eye, FileAudio, PenLine, Video, Globe } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/lib/AuthContext';
 import { knowledgebaseService } from '@/lib/knowledgebaseService';
-import { extractTextFromFile, extractTextFromPdf, extractTextFromYouTube, extractTextFromWebsite, ExtractedContent } from '@/lib/textExtraction';
-import { extractYoutubeVideoId, formatTime } from '@/lib/youtubeService';
+import { extractTextFromPdf, extractTextFromYouTube, extractTextFromWebsite } from '@/lib/textExtraction';
+import { ingestionService } from '@/lib/ingestionService';
+import { websiteSourceService } from '@/lib/websiteSourceService';
+import { DEFAULT_CRAWL_DEPTH, DEFAULT_CRAWL_PAGES, MAX_CRAWL_PAGES, type CrawlProgress } from '@/lib/websiteCrawler';
+import {
+  extractYoutubeVideoId,
+  fetchYoutubeCollection,
+  formatTime,
+  parseYoutubeCollectionUrl,
+  type TranscriptSegment,
+  type YoutubeCollection
+} from '@/lib/youtubeService';
+import type { FileRecord } from '@/lib/supabase';
 import { formatFileSize } from '@/lib/utils';
 import { useToast } from '@/components/ui/use-toast';
 import { Loader2 } from 'lucide-react';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { supabase } from '@/lib/supabase';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { SpeechToText } from '@/components/ui/SpeechToTextNew';
+import { speechToTextService } from '@/lib/speechToTextService';
 import { AudioToText } from '@/components/ui/AudioToText';
 import { RichTextEditor } from '@/components/ui/RichTextEditor';
 import { VideoToText } from '@/components/ui/VideoToText';
+import { YoutubeCollectionPreview } from './YoutubeCollectionPreview';
 
 export type FileUploadModalProps = {
   isOpen: boolean;
@@ -49,13 +60,18 @@ export function FileUploadModal({
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState('upload');
   const [youtubeUrl, setYoutubeUrl] = useState('');
+  const [importWholePlaylist, setImportWholePlaylist] = useState(false);
+  const [youtubeCollection, setYoutubeCollection] = useState<YoutubeCollection | null>(null);
+  const [selectedVideoIds, setSelectedVideoIds] = useState<Set<string>>(new Set());
+  const [existingVideoIds, setExistingVideoIds] = useState<Set<string>>(new Set());
+  const [importedFiles, setImportedFiles] = useState<Record<string, FileRecord>>({});
   const [websiteUrl, setWebsiteUrl] = useState('');
+  const [crawlWebsite, setCrawlWebsite] = useState(false);
+  const [crawlDepth, setCrawlDepth] = useState(DEFAULT_CRAWL_DEPTH);
+  const [crawlMaxPages, setCrawlMaxPages] = useState(DEFAULT_CRAWL_PAGES);
+  const [useSitemap, setUseSitemap] = useState(true);
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null);
   const [isUploading, setIsUploading] = useState(false);
-  const [isExtracting, setIsExtracting] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
-  const [extractedContent, setExtractedContent] = useState<ExtractedContent | null>(null);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [showPreview, setShowPreview] = useState(false);
   const [transcribedText, setTranscribedText] = useState('');
   const { toast } = useToast();
   
@@ -65,7 +81,37 @@ export function FileUploadModal({
   const [isRecordingProcessing, setIsRecordingProcessing] = useState(false);
   
   // Determine if any processing is happening
-  const isProcessing = isUploading || isExtracting || isVideoProcessing || isAudioProcessing || isRecordingProcessing;
+  const isProcessing = isUploading || isVideoProcessing || isAudioProcessing || isRecordingProcessing;
+  
+  // A playlist or channel URL imports its videos as separate files. A video opened from a
+  // playlist only does when the user asks for the whole playlist.
+  const youtubeCollectionRef = parseYoutubeCollectionUrl(youtubeUrl, importWholePlaylist);
+  const isVideoInPlaylist = !parseYoutubeCollectionUrl(youtubeUrl) && !!parseYoutubeCollectionUrl(youtubeUrl, true);
+  const importedFileList = Object.values(importedFiles);
+  const isImportingVideos = importedFileList.length > 0;
+  
+  const resetYoutubeImport = () => {
+    setYoutubeCollection(null);
+    setSelectedVideoIds(new Set());
+    setExistingVideoIds(new Set());
+    setImportedFiles({});
+  };
+  
+  useEffect(() => {
+    if (!isOpen) {
+      resetYoutubeImport();
+    }
+  }, [isOpen]);
+  
+  // Follow the imported videos as they are processed in the background
+  useEffect(() => {
+    if (!isImportingVideos) return;
+    
+    return ingestionService.subscribe(file => {
+      const videoId = file.metadata?.video_id;
+      setImportedFiles(prev => prev[videoId]?.id === file.id ? { ...prev, [videoId]: file } : prev);
+    });
+  }, [isImportingVideos]);
   
   // Handle escape key and prevent closing when processing
   const handleCloseAttempt = () => {
@@ -87,7 +133,9 @@ export function FileUploadModal({
     'application/msword': ['.doc'],
     'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['.pptx'],
     'application/vnd.ms-powerpoint': ['.ppt'],
-    'text/plain': ['.txt']
+    'text/plain': ['.txt'],
+    'image/png': ['.png'],
+    'image/jpeg': ['.jpg', '.jpeg']
   };
 
   // Define accepted audio file types
@@ -100,126 +148,125 @@ export function FileUploadModal({
     'audio/flac': ['.flac']
   };
 
-  const handleExtractText = async (files: File[]) => {
-    if (!files.length) return;
+  const handleQueueFiles = async (files: File[]) => {
+    if (!files.length || !user) return;
     
-    const file = files[0]; // Just handle the first file for preview
-    setSelectedFile(file);
-    setIsExtracting(true);
-    setShowPreview(true);
+    setIsUploading(true);
     
     try {
-      console.log(`[FileUploadModal] Extracting text from ${file.name} (${file.type}, ${file.size} bytes)`);
+      // Store the originals and queue them; extraction and embedding continue in the background
+      const results = await Promise.allSettled(
+        files.map(file => ingestionService.enqueueFile(user.id, knowledgeBaseId, file))
+      );
       
-      // Extract text from file
-      const content = await extractTextFromFile(file);
-      setExtractedContent(content);
+      const failed = files.filter((_, index) => results[index].status === 'rejected');
+      const queued = files.length - failed.length;
       
-      console.log(`[FileUploadModal] Text extraction successful`);
-      console.log(`[FileUploadModal] Extracted ${content.text.length} characters`);
-      console.log(`[FileUploadModal] Text sample: ${content.text.substring(0, 200)}...`);
-      console.log(`[FileUploadModal] Metadata:`, content.metadata);
+      if (queued > 0) {
+        toast({
+          title: queued === 1 ? "File Queued" : "Files Queued",
+          description: `${queued} ${queued === 1 ? 'file is' : 'files are'} being processed in the background. You can follow the progress in the file list.`,
+        });
+      }
       
-      toast({
-        title: "Text Extraction Complete",
-        description: `Successfully extracted ${content.text.length} characters from ${file.name}`,
-      });
-    } catch (error) {
-      console.error(`[FileUploadModal] Error extracting text:`, error);
-      toast({
-        title: "Text Extraction Failed",
-        description: `Could not extract text from ${file.name}: ${error.message}`,
-        variant: "destructive"
-      });
-      setExtractedContent(null);
+      if (failed.length > 0) {
+        toast({
+          title: "Upload Failed",
+          description: `Could not upload ${failed.map(file => file.name).join(', ')}`,
+          variant: "destructive"
+        });
+      }
+      
+      if (queued > 0) {
+        if (onSuccess) {
+          onSuccess();
+        }
+        onClose();
+      }
     } finally {
-      setIsExtracting(false);
+      setIsUploading(false);
     }
   };
 
-  const handleUpload = async (files: File[]) => {
-    if (!files.length || !user) return;
-    
-    // First extract text to preview
-    await handleExtractText(files);
-  };
-
-  const handleProceedWithUpload = async () => {
-    if (!selectedFile || !extractedContent || !user) return;
+  const handleLoadYoutubeCollection = async () => {
+    if (!youtubeCollectionRef) return;
     
     setIsUploading(true);
-    console.log(`[FileUploadModal] Starting upload of extracted text from ${selectedFile.name} to knowledgebase ${knowledgeBaseId}`);
     
     try {
-      // Update progress
-      setUploadProgress(prev => ({
-        ...prev,
-        [selectedFile.name]: 30 // Started processing
-      }));
+      const [collection, files] = await Promise.all([
+        fetchYoutubeCollection(youtubeCollectionRef),
+        knowledgebaseService.getKnowledgebaseFiles(knowledgeBaseId)
+      ]);
       
-      // Add content directly to knowledgebase without uploading the file to storage
-      console.log(`[FileUploadModal] Adding extracted text to knowledgebase`);
-      console.log(`[FileUploadModal] Text length: ${extractedContent.text.length} characters`);
+      // Videos already in the knowledge base aren't imported twice
+      const existing = new Set(
+        files
+          .filter(file => file.type === 'youtube')
+          .map(file => file.metadata?.video_id || (file.source_url && extractYoutubeVideoId(file.source_url)))
+          .filter(Boolean)
+      );
       
-      // Create a file record with the extracted text
-      const { data, error } = await supabase
-        .from('files')
-        .insert([
-          {
-            user_id: user.id,
-            knowledgebase_id: knowledgeBaseId,
-            name: selectedFile.name,
-            type: selectedFile.type,
-            size: selectedFile.size,
-            content_text: extractedContent.text,
-            content_length: extractedContent.text.length,
-            metadata: extractedContent.metadata,
-            extraction_status: 'completed'
-          }
-        ])
-        .select();
-      
-      if (error) {
-        console.error(`[FileUploadModal] Error saving extracted text:`, error);
+      setYoutubeCollection(collection);
+      setExistingVideoIds(existing);
+      setSelectedVideoIds(new Set(collection.videos.map(video => video.videoId).filter(id => !existing.has(id))));
+      
+      if (collection.videos.length === 0) {
         toast({
-          title: "Upload Failed",
-          description: `Could not save extracted text from ${selectedFile.name}: ${error.message}`,
+          title: "No Videos Found",
+          description: `"${collection.title}" has no public videos to import.`,
           variant: "destructive"
         });
-        return;
       }
-      
-      console.log(`[FileUploadModal] Content added successfully to knowledgebase`);
-      setUploadProgress(prev => ({
-        ...prev,
-        [selectedFile.name]: 100 // Completed
-      }));
+    } catch (error) {
+      console.error('Error loading YouTube playlist:', error);
+      toast({
+        title: "Loading Failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleImportYoutubeCollection = async () => {
+    if (!youtubeCollection || !user) return;
+    
+    const videos = youtubeCollection.videos.filter(video => selectedVideoIds.has(video.videoId));
+    if (videos.length === 0) {
+      toast({
+        title: "No Videos Selected",
+        description: "Select the videos to add to your knowledge base.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    setIsUploading(true);
+    
+    try {
+      // Each video becomes its own file; transcripts are fetched and embedded in the background
+      const { files } = await ingestionService.enqueueYoutubeVideos(user.id, knowledgeBaseId, videos, youtubeCollection);
+      setImportedFiles(Object.fromEntries(files.map(file => [file.metadata.video_id, file])));
       
       toast({
-        title: "Text Added",
-        description: `Successfully added extracted text from ${selectedFile.name} to the knowledgebase.`,
+        title: "Videos Queued",
+        description: `${files.length} ${files.length === 1 ? 'video is' : 'videos are'} being imported in the background. You can close this window and follow the progress in the file list.`,
       });
       
-      // Call onSuccess callback if provided
       if (onSuccess) {
         onSuccess();
       }
-      
-      // Close the modal
-      onClose();
     } catch (error) {
-      console.error(`[FileUploadModal] Upload error:`, error);
+      console.error('Error importing YouTube videos:', error);
       toast({
-        title: "Upload Failed",
-        description: `An error occurred during the process: ${error.message}`,
+        title: "Import Failed",
+        description: error.message,
         variant: "destructive"
       });
     } finally {
       setIsUploading(false);
-      setUploadProgress({});
-      setExtractedContent(null);
-      setSelectedFile(null);
-      setShowPreview(false);
     }
   };
 
@@ -260,28 +307,16 @@ export function FileUploadModal({
       const videoTitle = extractedContent.metadata.title || `YouTube Video - ${new Date().toLocaleString()}`;
       
       // Create a file record with the extracted text
-      const { data, error } = await supabase
-        .from('files')
-        .insert([
-          {
-            user_id: user.id,
-            knowledgebase_id: knowledgeBaseId,
-            name: videoTitle,
-            type: 'youtube',
-            size: extractedContent.text.length,
-            source_url: youtubeUrl,
-            content_text: extractedContent.text,
-            content_length: extractedContent.text.length,
-            metadata: extractedContent.metadata,
-            extraction_status: 'completed'
-          }
-        ])
-        .select();
-      
-      if (error) {
-        console.error(`[FileUploadModal] Error saving YouTube content:`, error);
-        throw new Error(error.message);
-      }
+      await knowledgebaseService.addContentToKnowledgebase(
+        user.id,
+        knowledgeBaseId,
+        videoTitle,
+        'youtube',
+        extractedContent.text.length,
+        youtubeUrl,
+        extractedContent.text,
+        extractedContent.metadata
+      );
       
       toast({
         title: "YouTube Content Added",
@@ -305,7 +340,7 @@ export function FileUploadModal({
     }
   };
 
-  const handleRecordingUpload = async (text: string) => {
+  const handleRecordingUpload = async (text: string, segments?: TranscriptSegment[], recording?: Blob) => {
     if (!text.trim() || !user) {
       toast({
         title: "Invalid Recording",
@@ -324,38 +359,47 @@ export function FileUploadModal({
         description: "Saving transcribed text to your knowledge base...",
       });
       
+      // Keep the recording so citations can play it from the cited second
+      let storagePath: string | null = null;
+      if (recording && segments) {
+        try {
+          storagePath = await speechToTextService.saveAudioFile(user.id, knowledgeBaseId, recording);
+        } catch (storageError) {
+          // The transcription is still useful without the recording
+          console.error('Could not store recording:', storageError);
+        }
+      }
+      
+      // Timestamped transcriptions are stored as segments, like YouTube transcripts
+      const contentText = segments ? JSON.stringify(segments) : text;
+      const lastSegment = segments?.[segments.length - 1];
+      
       // Create metadata for the recording
       const metadata = {
         source_type: 'speech_to_text',
-        extraction_method: 'web_speech_api',
+        extraction_method: segments ? 'openai_whisper_live' : 'manual_edit',
         recording_date: new Date().toISOString(),
+        ...(lastSegment && {
+          duration: Math.round(lastSegment.start + lastSegment.duration),
+          segment_count: segments.length
+        })
       };
       
       // Create a file name based on date and time
       const fileName = `Voice Recording - ${new Date().toLocaleString()}`;
       
       // Create a file record with the transcribed text
-      const { data, error } = await supabase
-        .from('files')
-        .insert([
-          {
-            user_id: user.id,
-            knowledgebase_id: knowledgeBaseId,
-            name: fileName,
-            type: 'text/speech',
-            size: text.length,
-            content_text: text,
-            content_length: text.length,
-            metadata: metadata,
-            extraction_status: 'completed'
-          }
-        ])
-        .select();
-      
-      if (error) {
-        console.error(`[FileUploadModal] Error saving transcribed text:`, error);
-        throw new Error(error.message);
-      }
+      await knowledgebaseService.addContentToKnowledgebase(
+        user.id,
+        knowledgeBaseId,
+        fileName,
+        segments ? 'audio' : 'text/speech',
+        recording?.size || text.length,
+        null,
+        contentText,
+        metadata,
+        storagePath
+      );
       
       toast({
         title: "Recording Added",
@@ -380,7 +424,7 @@ export function FileUploadModal({
     }
   };
 
-  const handleAudioUpload = async (text: string, fileName: string) => {
+  const handleAudioUpload = async (text: string, fileName: string, segments?: TranscriptSegment[], media?: File) => {
     if (!text.trim() || !user) {
       toast({
         title: "Invalid Transcription",
@@ -399,35 +443,44 @@ export function FileUploadModal({
         description: "Saving transcribed text to your knowledge base...",
       });
       
+      // Keep the original audio so citations can play it from the cited second
+      let storagePath: string | null = null;
+      if (media && segments) {
+        try {
+          storagePath = await knowledgebaseService.uploadOriginalFile(user.id, knowledgeBaseId, media);
+        } catch (storageError) {
+          // The transcription is still useful without the original
+          console.error('Could not store original audio:', storageError);
+        }
+      }
+      
+      // Timestamped transcriptions are stored as segments, like YouTube transcripts
+      const contentText = segments ? JSON.stringify(segments) : text;
+      const lastSegment = segments?.[segments.length - 1];
+      
       // Create metadata for the audio transcription
       const metadata = {
         source_type: 'audio_transcription',
         extraction_method: 'openai_whisper',
         transcription_date: new Date().toISOString(),
+        ...(lastSegment && {
+          duration: Math.round(lastSegment.start + lastSegment.duration),
+          segment_count: segments.length
+        })
       };
       
       // Create a file record with the transcribed text
-      const { data, error } = await supabase
-        .from('files')
-        .insert([
-          {
-            user_id: user.id,
-            knowledgebase_id: knowledgeBaseId,
-            name: fileName,
-            type: 'audio/transcription',
-            size: text.length,
-            content_text: text,
-            content_length: text.length,
-            metadata: metadata,
-            extraction_status: 'completed'
-          }
-        ])
-        .select();
-      
-      if (error) {
-        console.error(`[FileUploadModal] Error saving audio transcription:`, error);
-        throw new Error(error.message);
-      }
+      await knowledgebaseService.addContentToKnowledgebase(
+        user.id,
+        knowledgeBaseId,
+        fileName,
+        segments ? 'audio' : 'audio/transcription',
+        media?.size || text.length,
+        null,
+        contentText,
+        metadata,
+        storagePath
+      );
       
       toast({
         title: "Audio Transcription Added",
@@ -451,7 +504,7 @@ export function FileUploadModal({
     }
   };
 
-  const handleVideoUpload = async (text: string, fileName: string) => {
+  const handleVideoUpload = async (text: string, fileName: string, segments?: TranscriptSegment[], media?: File) => {
     if (!text.trim() || !user) {
       toast({
         title: "Invalid Transcription",
@@ -470,35 +523,44 @@ export function FileUploadModal({
         description: "Saving transcribed text to your knowledge base...",
       });
       
+      // Keep the original video so citations can play it from the cited second
+      let storagePath: string | null = null;
+      if (media && segments) {
+        try {
+          storagePath = await knowledgebaseService.uploadOriginalFile(user.id, knowledgeBaseId, media);
+        } catch (storageError) {
+          // The transcription is still useful without the original
+          console.error('Could not store original video:', storageError);
+        }
+      }
+      
+      // Timestamped transcriptions are stored as segments, like YouTube transcripts
+      const contentText = segments ? JSON.stringify(segments) : text;
+      const lastSegment = segments?.[segments.length - 1];
+      
       // Create metadata for the video transcription
       const metadata = {
         source_type: 'video_transcription',
         extraction_method: 'openai_whisper',
         transcription_date: new Date().toISOString(),
+        ...(lastSegment && {
+          duration: Math.round(lastSegment.start + lastSegment.duration),
+          segment_count: segments.length
+        })
       };
       
       // Create a file record with the transcribed text
-      const { data, error } = await supabase
-        .from('files')
-        .insert([
-          {
-            user_id: user.id,
-            knowledgebase_id: knowledgeBaseId,
-            name: fileName,
-            type: 'video/transcription',
-            size: text.length,
-            content_text: text,
-            content_length: text.length,
-            metadata: metadata,
-            extraction_status: 'completed'
-          }
-        ])
-        .select();
-      
-      if (error) {
-        console.error(`[FileUploadModal] Error saving video transcription:`, error);
-        throw new Error(error.message);
-      }
+      await knowledgebaseService.addContentToKnowledgebase(
+        user.id,
+        knowledgeBaseId,
+        fileName,
+        segments ? 'video' : 'video/transcription',
+        media?.size || text.length,
+        null,
+        contentText,
+        metadata,
+        storagePath
+      );
       
       toast({
         title: "Video Transcription Added",
@@ -555,27 +617,16 @@ export function FileUploadModal({
       };
       
       // Create a file record with the note content
-      const { data, error } = await supabase
-        .from('files')
-        .insert([
-          {
-            user_id: user.id,
-            knowledgebase_id: knowledgeBaseId,
-            name: title,
-            type: 'text/note',
-            size: plainText.length,
-            content_text: plainText,
-            content_length: plainText.length,
-            metadata: metadata,
-            extraction_status: 'completed'
-          }
-        ])
-        .select();
-      
-      if (error) {
-        console.error(`[FileUploadModal] Error saving note:`, error);
-        throw new Error(error.message);
-      }
+      await knowledgebaseService.addContentToKnowledgebase(
+        user.id,
+        knowledgeBaseId,
+        title,
+        'text/note',
+        plainText.length,
+        null,
+        plainText,
+        metadata
+      );
       
       toast({
         title: "Note Added",
@@ -599,12 +650,6 @@ export function FileUploadModal({
     }
   };
 
-  const handleCancelPreview = () => {
-    setShowPreview(false);
-    setExtractedContent(null);
-    setSelectedFile(null);
-  };
-
   const handleWebsiteUpload = async () => {
     if (!websiteUrl.trim()) {
       toast({
@@ -615,6 +660,11 @@ export function FileUploadModal({
       return;
     }
 
+    if (crawlWebsite) {
+      await handleWebsiteCrawl();
+      return;
+    }
+
     try {
       setIsUploading(true);
       
@@ -671,6 +721,47 @@ export function FileUploadModal({
     }
   };
 
+  const handleWebsiteCrawl = async () => {
+    try {
+      setIsUploading(true);
+      setCrawlProgress({ crawled: 0, queued: 0 });
+      
+      // Crawl the site and store each page as its own file
+      const { summary } = await websiteSourceService.importWebsite(
+        userId,
+        knowledgeBaseId,
+        websiteUrl.trim(),
+        { maxDepth: crawlDepth, maxPages: crawlMaxPages, useSitemap },
+        setCrawlProgress
+      );
+      
+      toast({
+        title: "Success",
+        description: `Added ${summary.added} ${summary.added === 1 ? 'page' : 'pages'} to the knowledge base` +
+          (summary.failed.length > 0 ? ` (${summary.failed.length} could not be fetched)` : ''),
+      });
+      
+      // Reset the form
+      setWebsiteUrl('');
+      
+      if (onSuccess) {
+        onSuccess();
+      }
+      
+      onClose();
+    } catch (error) {
+      console.error('Error crawling website:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to crawl website",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUploading(false);
+      setCrawlProgress(null);
+    }
+  };
+
   return (
     <Dialog 
       open={isOpen} 
@@ -708,206 +799,275 @@ export function FileUploadModal({
           </DialogDescription>
         </DialogHeader>
         
-        {showPreview && extractedContent ? (
-          <>
-            <div className="space-y-4">
-              {isExtracting ? (
-                <div className="flex flex-col items-center justify-center py-8">
-                  <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
-                  <p>Extracting text from {selectedFile?.name}...</p>
-                </div>
-              ) : extractedContent ? (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <FileText className="h-5 w-5" />
-                      {selectedFile?.name}
-                    </CardTitle>
-                    <CardDescription>
-                      {extractedContent.metadata.source_type} • {extractedContent.text.length} characters
-                      {extractedContent.metadata.page_count && ` • ${extractedContent.metadata.page_count} pages`}
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <ScrollArea className="h-[300px] w-full border rounded-md p-4 bg-muted/30">
-                      <pre className="text-sm whitespace-pre-wrap font-mono">
-                        {extractedContent.text}
-                      </pre>
-                    </ScrollArea>
-                  </CardContent>
-                </Card>
-              ) : (
-                <div className="flex flex-col items-center justify-center py-8">
-                  <p className="text-destructive">Failed to extract text from the file.</p>
-                </div>
-              )}
+        <Tabs defaultValue="upload" className="flex-1 overflow-hidden flex flex-col" value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid grid-cols-7">
+            <TabsTrigger value="upload" disabled={isProcessing}>
+              <Upload className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Upload</span>
+            </TabsTrigger>
+            <TabsTrigger value="youtube" disabled={isProcessing}>
+              <Youtube className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">YouTube</span>
+            </TabsTrigger>
+            <TabsTrigger value="website" disabled={isProcessing}>
+              <Globe className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Website</span>
+            </TabsTrigger>
+            <TabsTrigger value="audio" disabled={isProcessing}>
+              <FileAudio className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Audio</span>
+            </TabsTrigger>
+            <TabsTrigger value="video" disabled={isProcessing}>
+              <Video className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Video</span>
+            </TabsTrigger>
+            <TabsTrigger value="record" disabled={isProcessing}>
+              <Mic className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Record</span>
+            </TabsTrigger>
+            <TabsTrigger value="notes" disabled={isProcessing}>
+              <PenLine className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">Notes</span>
+            </TabsTrigger>
+          </TabsList>
+          
+          <TabsContent value="upload" className="mt-0 flex-1 overflow-auto">
+            <div className="py-4 space-y-4">
+              <FileUpload 
+                onUpload={handleQueueFiles}
+                accept={acceptedFileTypes}
+                maxSize={20 * 1024 * 1024} // 20MB
+                disabled={isUploading}
+              />
+              <div className="text-sm text-muted-foreground">
+                <p>Supported file types: PDF, DOCX, DOC, PPTX, PPT, TXT, PNG, JPG (scanned pages are read with OCR)</p>
+                <p>Maximum file size: 20MB</p>
+                <p>Files are processed in the background, so you can close this window once they are uploaded.</p>
+              </div>
             </div>
-            
-            <DialogFooter className="flex justify-between">
-              <Button variant="outline" onClick={handleCancelPreview}>
-                Back
-              </Button>
-              <Button 
-                onClick={handleProceedWithUpload} 
-                disabled={isUploading || !extractedContent}
-                className="bg-sattva-600 hover:bg-sattva-700"
-              >
-                {isUploading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Uploading...
-                  </>
-                ) : (
-                  <>
-                    Proceed with Upload
-                    <ArrowRight className="ml-2 h-4 w-4" />
-                  </>
-                )}
-              </Button>
-            </DialogFooter>
-          </>
-        ) : (
-          <>
-            <Tabs defaultValue="upload" className="flex-1 overflow-hidden flex flex-col" value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid grid-cols-7">
-                <TabsTrigger value="upload" disabled={isProcessing}>
-                  <Upload className="h-4 w-4 mr-2" />
-                  <span className="hidden sm:inline">Upload</span>
-                </TabsTrigger>
-                <TabsTrigger value="youtube" disabled={isProcessing}>
-                  <Youtube className="h-4 w-4 mr-2" />
-                  <span className="hidden sm:inline">YouTube</span>
-                </TabsTrigger>
-                <TabsTrigger value="website" disabled={isProcessing}>
-                  <Globe className="h-4 w-4 mr-2" />
-                  <span className="hidden sm:inline">Website</span>
-                </TabsTrigger>
-                <TabsTrigger value="audio" disabled={isProcessing}>
-                  <FileAudio className="h-4 w-4 mr-2" />
-                  <span className="hidden sm:inline">Audio</span>
-                </TabsTrigger>
-                <TabsTrigger value="video" disabled={isProcessing}>
-                  <Video className="h-4 w-4 mr-2" />
-                  <span className="hidden sm:inline">Video</span>
-                </TabsTrigger>
-                <TabsTrigger value="record" disabled={isProcessing}>
-                  <Mic className="h-4 w-4 mr-2" />
-                  <span className="hidden sm:inline">Record</span>
-                </TabsTrigger>
-                <TabsTrigger value="notes" disabled={isProcessing}>
-                  <PenLine className="h-4 w-4 mr-2" />
-                  <span className="hidden sm:inline">Notes</span>
-                </TabsTrigger>
-              </TabsList>
+          </TabsContent>
+          
+          <TabsContent value="youtube" className="mt-0">
+            <div className="py-4 space-y-4">
+              <div className="flex flex-col space-y-2">
+                <label htmlFor="youtube-url" className="text-sm font-medium">
+                  YouTube URL
+                </label>
+                <Input
+                  id="youtube-url"
+                  placeholder="https://www.youtube.com/watch?v=..."
+                  value={youtubeUrl}
+                  onChange={(e) => {
+                    setYoutubeUrl(e.target.value);
+                    resetYoutubeImport();
+                  }}
+                  disabled={isUploading || isImportingVideos}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Enter a YouTube video URL, or a playlist or channel URL to choose several videos at once.
+              </p>
               
-              <TabsContent value="upload" className="mt-0 flex-1 overflow-auto">
-                <div className="py-4 space-y-4">
-                  <FileUpload 
-                    onUpload={handleExtractText}
-                    accept={acceptedFileTypes}
-                    maxSize={20 * 1024 * 1024} // 20MB
-                    disabled={isExtracting}
-                  />
-                  <div className="text-sm text-muted-foreground">
-                    <p>Supported file types: PDF, DOCX, DOC, PPTX, PPT, TXT</p>
-                    <p>Maximum file size: 20MB</p>
+              {isVideoInPlaylist && (
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="import-playlist">Import the whole playlist</Label>
+                    <p className="text-xs text-muted-foreground">
+                      This video is part of a playlist. Choose which of its videos to add.
+                    </p>
                   </div>
+                  <Switch
+                    id="import-playlist"
+                    checked={importWholePlaylist}
+                    onCheckedChange={(checked) => {
+                      setImportWholePlaylist(checked);
+                      resetYoutubeImport();
+                    }}
+                    disabled={isUploading || isImportingVideos}
+                  />
                 </div>
-              </TabsContent>
+              )}
               
-              <TabsContent value="youtube" className="mt-0">
-                <div className="py-4 space-y-4">
-                  <div className="flex flex-col space-y-2">
-                    <label htmlFor="youtube-url" className="text-sm font-medium">
-                      YouTube URL
-                    </label>
-                    <Input
-                      id="youtube-url"
-                      placeholder="https://www.youtube.com/watch?v=..."
-                      value={youtubeUrl}
-                      onChange={(e) => setYoutubeUrl(e.target.value)}
-                    />
-                  </div>
+              {youtubeCollection && (
+                <YoutubeCollectionPreview
+                  collection={youtubeCollection}
+                  selectedIds={selectedVideoIds}
+                  onSelectionChange={setSelectedVideoIds}
+                  existingIds={existingVideoIds}
+                  importedFiles={importedFiles}
+                  disabled={isUploading}
+                />
+              )}
+              
+              {isImportingVideos && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  {importedFileList.some(file => file.extraction_status === 'pending' || file.extraction_status === 'processing') && (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  )}
+                  <span>
+                    {importedFileList.filter(file => file.extraction_status === 'completed').length} of {importedFileList.length} videos added
+                    {importedFileList.some(file => file.extraction_status === 'failed') &&
+                      `, ${importedFileList.filter(file => file.extraction_status === 'failed').length} failed (they can be retried from the file list)`}
+                  </span>
+                </div>
+              )}
+            </div>
+          </TabsContent>
+          
+          <TabsContent value="website" className="mt-0">
+            <div className="py-4 space-y-4">
+              <div className="flex flex-col space-y-2">
+                <label htmlFor="website-url" className="text-sm font-medium">
+                  Website URL
+                </label>
+                <Input
+                  id="website-url"
+                  placeholder="https://example.com"
+                  value={websiteUrl}
+                  onChange={(e) => setWebsiteUrl(e.target.value)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Enter a website URL to extract content and add it to your knowledge base.
+              </p>
+              
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="crawl-website">Include linked pages</Label>
                   <p className="text-xs text-muted-foreground">
-                    Enter a YouTube URL to extract content and add it to your knowledge base.
+                    Crawl pages of the same site below this URL, e.g. a whole documentation section
                   </p>
                 </div>
-              </TabsContent>
+                <Switch
+                  id="crawl-website"
+                  checked={crawlWebsite}
+                  onCheckedChange={setCrawlWebsite}
+                  disabled={isUploading}
+                />
+              </div>
               
-              <TabsContent value="website" className="mt-0">
-                <div className="py-4 space-y-4">
-                  <div className="flex flex-col space-y-2">
-                    <label htmlFor="website-url" className="text-sm font-medium">
-                      Website URL
-                    </label>
-                    <Input
-                      id="website-url"
-                      placeholder="https://example.com"
-                      value={websiteUrl}
-                      onChange={(e) => setWebsiteUrl(e.target.value)}
+              {crawlWebsite && (
+                <div className="space-y-3 rounded-md border p-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="crawl-depth">Link depth</Label>
+                      <Input
+                        id="crawl-depth"
+                        type="number"
+                        min={0}
+                        max={5}
+                        value={crawlDepth}
+                        onChange={(e) => setCrawlDepth(Math.min(Math.max(parseInt(e.target.value, 10) || 0, 0), 5))}
+                        disabled={isUploading}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="crawl-pages">Maximum pages</Label>
+                      <Input
+                        id="crawl-pages"
+                        type="number"
+                        min={1}
+                        max={MAX_CRAWL_PAGES}
+                        value={crawlMaxPages}
+                        onChange={(e) => setCrawlMaxPages(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), MAX_CRAWL_PAGES))}
+                        disabled={isUploading}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="use-sitemap">Find pages in sitemap.xml</Label>
+                    <Switch
+                      id="use-sitemap"
+                      checked={useSitemap}
+                      onCheckedChange={setUseSitemap}
+                      disabled={isUploading}
                     />
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Enter a website URL to extract content and add it to your knowledge base.
+                    Pages disallowed by the site's robots.txt are skipped. The pages are grouped so they can be re-synced or removed together.
                   </p>
                 </div>
-              </TabsContent>
-              
-              <TabsContent value="audio" className="mt-0">
-                <AudioToText 
-                  onSave={handleAudioUpload}
-                  className="border-none shadow-none"
-                  onProcessingChange={setIsAudioProcessing}
-                />
-              </TabsContent>
-              
-              <TabsContent value="video" className="mt-0 flex-1 overflow-y-auto">
-                <VideoToText 
-                  onSave={handleVideoUpload}
-                  className="border-none shadow-none"
-                  onProcessingChange={setIsVideoProcessing}
-                />
-              </TabsContent>
-              
-              <TabsContent value="record" className="mt-0">
-                <SpeechToText 
-                  onSave={handleRecordingUpload}
-                  onTranscriptionComplete={setTranscribedText}
-                  className="border-none shadow-none"
-                  onProcessingChange={setIsRecordingProcessing}
-                />
-              </TabsContent>
-              
-              <TabsContent value="notes" className="mt-0">
-                <RichTextEditor 
-                  onSave={handleNoteUpload}
-                  className="border-none shadow-none"
-                />
-              </TabsContent>
-            </Tabs>
-            
-            <DialogFooter>
-              {activeTab === 'youtube' && (
-                <Button 
-                  className="bg-sattva-600 hover:bg-sattva-700" 
-                  onClick={handleYoutubeUpload}
-                  disabled={isUploading}
-                >
-                  {isUploading ? 'Processing...' : 'Add Video'}
-                </Button>
               )}
-              {activeTab === 'website' && (
-                <Button 
-                  className="bg-sattva-600 hover:bg-sattva-700" 
-                  onClick={handleWebsiteUpload}
-                  disabled={isUploading}
-                >
-                  {isUploading ? 'Processing...' : 'Add Website Content'}
-                </Button>
+              
+              {crawlProgress && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span className="truncate">
+                    {crawlProgress.crawled} {crawlProgress.crawled === 1 ? 'page' : 'pages'} crawled
+                    {crawlProgress.currentUrl ? `, reading ${crawlProgress.currentUrl}` : '...'}
+                  </span>
+                </div>
               )}
-            </DialogFooter>
-          </>
-        )}
+            </div>
+          </TabsContent>
+          
+          <TabsContent value="audio" className="mt-0">
+            <AudioToText 
+              onSave={handleAudioUpload}
+              className="border-none shadow-none"
+              onProcessingChange={setIsAudioProcessing}
+            />
+          </TabsContent>
+          
+          <TabsContent value="video" className="mt-0 flex-1 overflow-y-auto">
+            <VideoToText 
+              onSave={handleVideoUpload}
+              className="border-none shadow-none"
+              onProcessingChange={setIsVideoProcessing}
+            />
+          </TabsContent>
+          
+          <TabsContent value="record" className="mt-0">
+            <SpeechToText 
+              onSave={handleRecordingUpload}
+              onTranscriptionComplete={setTranscribedText}
+              className="border-none shadow-none"
+              onProcessingChange={setIsRecordingProcessing}
+            />
+          </TabsContent>
+          
+          <TabsContent value="notes" className="mt-0">
+            <RichTextEditor 
+              onSave={handleNoteUpload}
+              className="border-none shadow-none"
+            />
+          </TabsContent>
+        </Tabs>
+        
+        <DialogFooter>
+          {activeTab === 'youtube' && (isImportingVideos ? (
+            <Button className="bg-sattva-600 hover:bg-sattva-700" onClick={onClose}>
+              Done
+            </Button>
+          ) : youtubeCollection ? (
+            <Button 
+              className="bg-sattva-600 hover:bg-sattva-700" 
+              onClick={handleImportYoutubeCollection}
+              disabled={isUploading || selectedVideoIds.size === 0}
+            >
+              {isUploading
+                ? 'Processing...'
+                : `Import ${selectedVideoIds.size} ${selectedVideoIds.size === 1 ? 'Video' : 'Videos'}`}
+            </Button>
+          ) : (
+            <Button 
+              className="bg-sattva-600 hover:bg-sattva-700" 
+              onClick={youtubeCollectionRef ? handleLoadYoutubeCollection : handleYoutubeUpload}
+              disabled={isUploading}
+            >
+              {isUploading ? 'Processing...' : youtubeCollectionRef ? 'Load Videos' : 'Add Video'}
+            </Button>
+          ))}
+          {activeTab === 'website' && (
+            <Button 
+              className="bg-sattva-600 hover:bg-sattva-700" 
+              onClick={handleWebsiteUpload}
+              disabled={isUploading}
+            >
+              {isUploading ? 'Processing...' : crawlWebsite ? 'Crawl Website' : 'Add Website Content'}
+            </Button>
+          )}
+        </DialogFooter>
       </DialogContent>
     </Dialog>
   );
@@ -3,11 +3,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { knowledgebaseService } from '@/lib/knowledgebaseService';
+import { ingestionService } from '@/lib/ingestionService';
+import { websiteSourceService } from '@/lib/websiteSourceService';
+import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
-import { FileText, Search, Trash, ArrowLeft, Upload, Code, Edit, ChevronLeft, RefreshCw, MessageSquare } from 'lucide-react';
+import { FileText, Search, Trash, ArrowLeft, Upload, Code, Edit, ChevronLeft, RefreshCw, MessageSquare, RotateCw, Globe } from 'lucide-react';
 import { formatFileSize } from '@/lib/utils';
 import { FileContentViewer } from './FileContentViewer';
-import type { FileRecord } from '@/lib/supabase';
+import type { FileRecord, WebsiteSource } from '@/lib/supabase';
 import { useToast } from '@/components/ui/use-toast';
 import { useNavigate } from 'react-router-dom';
 import {
@@ -56,6 +59,9 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
   const [isRenameDialogOpen, setIsRenameDialogOpen] = useState(false);
   const [fileToRename, setFileToRename] = useState<FileRecord | null>(null);
   const [newFileName, setNewFileName] = useState('');
+  const [websiteSources, setWebsiteSources] = useState<WebsiteSource[]>([]);
+  const [syncingSourceId, setSyncingSourceId] = useState<string | null>(null);
+  const [sourceToDelete, setSourceToDelete] = useState<WebsiteSource | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -66,6 +72,11 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
       const filesData = await knowledgebaseService.getKnowledgebaseFiles(knowledgebaseId);
       setFiles(filesData);
       
+      // Crawled websites are listed separately so their pages can be managed together
+      websiteSourceService.getWebsiteSources(knowledgebaseId)
+        .then(setWebsiteSources)
+        .catch(sourcesError => console.error('Error fetching website sources:', sourcesError));
+      
       // Log all files and their content to console for debugging
       console.log('Files loaded:', filesData.length);
       filesData.forEach(file => {
@@ -107,6 +118,47 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
     fetchFiles();
   }, [knowledgebaseId]);
 
+  // Keep ingestion status live, both for jobs in this tab and ones running elsewhere
+  useEffect(() => {
+    const applyUpdate = (updated: FileRecord) => {
+      if (updated.knowledgebase_id !== knowledgebaseId) return;
+      
+      setFiles(prev => prev.some(file => file.id === updated.id)
+        ? prev.map(file => file.id === updated.id ? { ...file, ...updated } : file)
+        : [updated, ...prev]
+      );
+    };
+    
+    const unsubscribe = ingestionService.subscribe(applyUpdate);
+    
+    const channel = supabase
+      .channel(`files-${knowledgebaseId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'files', filter: `knowledgebase_id=eq.${knowledgebaseId}` },
+        payload => applyUpdate(payload.new as FileRecord)
+      )
+      .subscribe();
+    
+    return () => {
+      unsubscribe();
+      supabase.removeChannel(channel);
+    };
+  }, [knowledgebaseId]);
+
+  const handleRetryFile = async (fileId: string) => {
+    try {
+      await ingestionService.retryFile(fileId);
+    } catch (error) {
+      console.error('Error retrying file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to retry processing the file",
+        variant: "destructive"
+      });
+    }
+  };
+
   const confirmDeleteFile = (fileId: string) => {
     setFileToDelete(fileId);
     setIsDeleteDialogOpen(true);
@@ -139,6 +191,57 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
     }
   };
 
+  const handleSyncWebsiteSource = async (source: WebsiteSource) => {
+    try {
+      setSyncingSourceId(source.id);
+      const summary = await websiteSourceService.syncWebsiteSource(source);
+      
+      toast({
+        title: "Website Re-synced",
+        description: `${summary.added} added, ${summary.updated} updated, ${summary.removed} removed, ${summary.unchanged} unchanged` +
+          (summary.failed.length > 0 ? `, ${summary.failed.length} could not be fetched` : ''),
+      });
+      
+      await fetchFiles();
+    } catch (error) {
+      console.error('Error syncing website source:', error);
+      toast({
+        title: "Error",
+        description: "Failed to re-sync website",
+        variant: "destructive"
+      });
+    } finally {
+      setSyncingSourceId(null);
+    }
+  };
+
+  const handleDeleteWebsiteSource = async () => {
+    if (!sourceToDelete) return;
+    
+    try {
+      setIsLoading(true);
+      await websiteSourceService.deleteWebsiteSource(sourceToDelete.id);
+      
+      toast({
+        title: "Success",
+        description: "Website and its pages removed",
+      });
+      
+      setWebsiteSources(websiteSources.filter(source => source.id !== sourceToDelete.id));
+      setFiles(files.filter(file => file.website_source_id !== sourceToDelete.id));
+      setSourceToDelete(null);
+    } catch (error) {
+      console.error('Error deleting website source:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove website",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleViewFileDetails = (fileId: string) => {
     setSelectedFileId(fileId);
     setIsViewerOpen(true);
@@ -255,11 +358,35 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
     if (fileType.includes('presentation')) return 'PPT';
     if (fileType.includes('wordprocessingml') || fileType.includes('msword')) return 'DOC';
     if (fileType.includes('text/plain')) return 'TXT';
+    if (fileType === 'image/png') return 'PNG';
+    if (fileType === 'image/jpeg') return 'JPG';
     
     // For other types, just return the original type in uppercase
     return fileType.toUpperCase();
   };
 
+  const renderStatusBadge = (file: FileRecord) => {
+    switch (file.extraction_status) {
+      case 'pending':
+        return <Badge variant="secondary" className="mr-2">Queued</Badge>;
+      case 'processing':
+        return (
+          <Badge variant="secondary" className="mr-2 bg-blue-100 text-blue-700 hover:bg-blue-100">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Processing{file.extraction_attempts && file.extraction_attempts > 1 ? ` (attempt ${file.extraction_attempts})` : ''}
+          </Badge>
+        );
+      case 'failed':
+        return (
+          <Badge variant="destructive" className="mr-2" title={file.extraction_error || undefined}>
+            Failed
+          </Badge>
+        );
+      default:
+        return null;
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -338,6 +465,7 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
                   <div>Size: {formatFileSize(debugFile.size)}</div>
                   <div>Content Length: {formatFileSize(debugFile.content_length || 0)}</div>
                   <div>Status: {debugFile.extraction_status || 'unknown'}</div>
+                  {debugFile.extraction_error && <div>Error: {debugFile.extraction_error}</div>}
                   <div>Created: {new Date(debugFile.created_at).toLocaleString()}</div>
                 </div>
               </div>
@@ -364,6 +492,59 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
         </Card>
       )}
 
+      {websiteSources.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Websites ({websiteSources.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {websiteSources.map((source) => (
+                <div key={source.id} className="p-4 flex items-center justify-between">
+                  <div className="flex items-center min-w-0">
+                    <div className="w-10 h-10 rounded bg-gray-100 flex items-center justify-center mr-3 flex-shrink-0">
+                      <Globe className="h-5 w-5 text-blue-500" />
+                    </div>
+                    <div className="min-w-0">
+                      <h4 className="font-medium truncate">{source.title || source.root_url}</h4>
+                      <div className="text-xs text-gray-500 truncate">
+                        {source.root_url} · {source.page_count} {source.page_count === 1 ? 'page' : 'pages'}
+                        {source.last_synced_at && ` · Synced ${formatDate(source.last_synced_at).toLowerCase()}`}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button 
+                      variant="ghost" 
+                      size="icon"
+                      onClick={() => handleSyncWebsiteSource(source)}
+                      disabled={syncingSourceId !== null}
+                      title="Re-sync Website"
+                    >
+                      {syncingSourceId === source.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button 
+                      variant="ghost" 
+                      size="icon"
+                      onClick={() => setSourceToDelete(source)}
+                      disabled={syncingSourceId === source.id}
+                      title="Remove Website"
+                      className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {isLoading ? (
         <div className="flex justify-center items-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-sattva-600" />
@@ -408,6 +589,10 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
                           <Button variant="outline" size="sm" className="h-6 px-2 mr-2">
                             {formatFileType(file.type)}
                           </Button>
+                          {renderStatusBadge(file)}
+                          {file.metadata?.channel && (
+                            <span className="mr-2 truncate max-w-[200px]">{file.metadata.channel}</span>
+                          )}
                           <span className="mr-2">{formatFileSize(file.size)}</span>
                           {file.content_length && (
                             <span>
@@ -418,6 +603,16 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
                       </div>
                     </div>
                     <div className="flex gap-2">
+                      {file.extraction_status === 'failed' && (file.path || file.source_url) && (
+                        <Button 
+                          variant="ghost" 
+                          size="icon"
+                          onClick={() => handleRetryFile(file.id)}
+                          title={file.extraction_error ? `Retry (${file.extraction_error})` : 'Retry'}
+                        >
+                          <RotateCw className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button 
                         variant="ghost" 
                         size="icon"
@@ -490,6 +685,27 @@ export const KnowledgebaseFiles = forwardRef<{ refreshFiles: () => Promise<void>
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog open={!!sourceToDelete} onOpenChange={(open) => !open && setSourceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this website?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently remove all {sourceToDelete?.page_count} pages crawled from {sourceToDelete?.root_url} from your knowledgebase.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction 
+              onClick={handleDeleteWebsiteSource}
+              className="bg-red-500 hover:bg-red-600 text-white"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Dialog open={isRenameDialogOpen} onOpenChange={setIsRenameDialogOpen}>
         <DialogContent>
           <DialogHeader>
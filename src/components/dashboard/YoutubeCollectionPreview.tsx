@@ -0,0 +1,135 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2 } from 'lucide-react';
+import type { FileRecord } from '@/lib/supabase';
+import type { YoutubeCollection } from '@/lib/youtubeService';
+
+type YoutubeCollectionPreviewProps = {
+  collection: YoutubeCollection;
+  selectedIds: Set<string>;
+  onSelectionChange: (selectedIds: Set<string>) => void;
+  existingIds: Set<string>; // Videos already in the knowledge base
+  importedFiles: Record<string, FileRecord>; // File records of imported videos, by video ID
+  disabled?: boolean;
+};
+
+const renderImportStatus = (file: FileRecord) => {
+  switch (file.extraction_status) {
+    case 'pending':
+      return <Badge variant="secondary">Queued</Badge>;
+    case 'processing':
+      return (
+        <Badge variant="secondary" className="bg-blue-100 text-blue-700 hover:bg-blue-100">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Processing
+        </Badge>
+      );
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="secondary" className="bg-green-100 text-green-700 hover:bg-green-100">Added</Badge>;
+  }
+};
+
+export function YoutubeCollectionPreview({
+  collection,
+  selectedIds,
+  onSelectionChange,
+  existingIds,
+  importedFiles,
+  disabled = false
+}: YoutubeCollectionPreviewProps) {
+  const isImporting = Object.keys(importedFiles).length > 0;
+  const selectableIds = collection.videos.map(video => video.videoId).filter(id => !existingIds.has(id));
+
+  const toggleVideo = (videoId: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(videoId);
+    } else {
+      next.delete(videoId);
+    }
+    onSelectionChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{collection.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {collection.videos.length} {collection.videos.length === 1 ? 'video' : 'videos'}
+            {collection.truncated && (collection.total
+              ? ` listed of ${collection.total}`
+              : ', only the latest videos could be listed')}
+            {existingIds.size > 0 && `, ${existingIds.size} already in this knowledge base`}
+          </p>
+        </div>
+        {!isImporting && (
+          <div className="flex gap-1 shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onSelectionChange(new Set(selectableIds))}
+              disabled={disabled}
+            >
+              Select all
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onSelectionChange(new Set())}
+              disabled={disabled}
+            >
+              Select none
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="max-h-[40vh] overflow-y-auto rounded-md border divide-y">
+        {collection.videos.map(video => {
+          const file = importedFiles[video.videoId];
+          const exists = existingIds.has(video.videoId);
+
+          return (
+            <label
+              key={video.videoId}
+              htmlFor={`video-${video.videoId}`}
+              className="flex items-center gap-3 p-2 text-sm cursor-pointer hover:bg-gray-50"
+            >
+              <Checkbox
+                id={`video-${video.videoId}`}
+                checked={selectedIds.has(video.videoId)}
+                onCheckedChange={(checked) => toggleVideo(video.videoId, checked === true)}
+                disabled={disabled || exists || isImporting}
+              />
+              {video.thumbnailUrl && (
+                <img src={video.thumbnailUrl} alt="" className="h-10 w-16 rounded object-cover shrink-0" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate">{video.title}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {[video.channelName, video.publishedAt && new Date(video.publishedAt).toLocaleDateString()]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+                {file?.extraction_status === 'failed' && file.extraction_error && (
+                  <p className="text-xs text-red-600 truncate" title={file.extraction_error}>
+                    {file.extraction_error}
+                  </p>
+                )}
+              </div>
+              <div className="shrink-0">
+                {file
+                  ? renderImportStatus(file)
+                  : exists && <Badge variant="outline">Already added</Badge>}
+              </div>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,14 @@ import { Progress } from '@/components/ui/progress';
 import { FileAudio, Save, Trash, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import axios from 'axios';
+import { transcribeLongAudio, TimedTranscription, SegmentProgress } from '@/lib/transcription';
+import { TranscriptionProgress } from '@/components/ui/TranscriptionProgress';
+import type { TranscriptSegment } from '@/lib/youtubeService';
 
 interface AudioToTextProps {
   onTranscriptionComplete?: (text: string) => void;
-  onSave?: (text: string, fileName: string) => void;
+  // Segments are only passed while the text is unedited, so the timestamps still match it
+  onSave?: (text: string, fileName: string, segments?: TranscriptSegment[], media?: File) => void;
   onProcessingChange?: (isProcessing: boolean) => void;
   className?: string;
 }
@@ -25,8 +29,9 @@ const SUPPORTED_AUDIO_FORMATS = [
   'audio/flac', // FLAC
 ];
 
-// Maximum file size (25MB - Whisper API limit)
-const MAX_FILE_SIZE = 25 * 1024 * 1024;
+// Maximum file size. Files over the Whisper upload limit are split into segments,
+// this only keeps decoding within what a browser tab can hold in memory.
+const MAX_FILE_SIZE = 500 * 1024 * 1024;
 
 export function AudioToText({
   onTranscriptionComplete,
@@ -37,7 +42,9 @@ export function AudioToText({
   const [file, setFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [segmentProgress, setSegmentProgress] = useState<SegmentProgress[]>([]);
   const [transcribedText, setTranscribedText] = useState('');
+  const [transcription, setTranscription] = useState<TimedTranscription | null>(null);
   const [audioURL, setAudioURL] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -81,6 +88,7 @@ export function AudioToText({
     // Clear previous data
     setError(null);
     setTranscribedText('');
+    setTranscription(null);
     
     // Set the selected file
     setFile(selectedFile);
@@ -100,32 +108,22 @@ export function AudioToText({
     
     setIsProcessing(true);
     setUploadProgress(0);
+    setSegmentProgress([]);
     
     try {
-      // Create a FormData object to send the audio file
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('model', 'whisper-1');
-      formData.append('language', 'en'); // You can make this configurable
-      
-      // Make the API request with upload progress tracking
-      const response = await axios.post(
-        'https://api.openai.com/v1/audio/transcriptions',
-        formData,
-        {
-          headers: {
-            'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-            'Content-Type': 'multipart/form-data',
-          },
-          onUploadProgress: (progressEvent) => {
-            const percentCompleted = Math.round((progressEvent.loaded * 100) / (progressEvent.total || file.size));
-            setUploadProgress(percentCompleted);
-          },
-        }
-      );
+      // Send the audio to the transcription provider, split into segments if it is too large for one request
+      const result = await transcribeLongAudio(file, {
+        fileName: file.name,
+        onProgress: (segments) => {
+          const total = segments.reduce((sum, segment) => sum + (segment.status === 'completed' ? 100 : segment.progress), 0);
+          setUploadProgress(Math.round(total / segments.length));
+          setSegmentProgress(segments);
+        },
+      });
       
       // Set the transcribed text
-      const text = response.data.text;
+      const text = result.text;
+      setTranscription(result);
       setTranscribedText(text);
       
       // Call the callback if provided
@@ -141,19 +139,21 @@ export function AudioToText({
       if (axios.isAxiosError(error) && error.response) {
         setError(`API Error: ${error.response.data.error?.message || 'Unknown error'}`);
       } else {
-        setError('Failed to transcribe audio. Please try again.');
+        setError(error.message || 'Failed to transcribe audio. Please try again.');
       }
       
       toast.error('Transcription failed');
     } finally {
       setIsProcessing(false);
       setUploadProgress(0);
+      setSegmentProgress([]);
     }
   };
 
   const handleSave = () => {
     if (onSave && transcribedText.trim() && file) {
-      onSave(transcribedText, file.name);
+      const segments = transcription && transcribedText === transcription.text ? transcription.segments : undefined;
+      onSave(transcribedText, file.name, segments, file);
       toast.success('Transcription saved');
     }
   };
@@ -161,6 +161,7 @@ export function AudioToText({
   const handleClear = () => {
     setFile(null);
     setTranscribedText('');
+    setTranscription(null);
     setError(null);
     setUploadProgress(0);
     
@@ -236,8 +237,11 @@ export function AudioToText({
               </div>
               <Progress value={uploadProgress} className="h-1" />
               <p className="text-xs text-gray-500">
-                Uploading and transcribing your audio file. This may take a moment...
+                {segmentProgress.length > 1
+                  ? `Long recording split into ${segmentProgress.length} segments. Transcribing them in parallel...`
+                  : 'Uploading and transcribing your audio file. This may take a moment...'}
               </p>
+              <TranscriptionProgress segments={segmentProgress} />
             </div>
           )}
         </div>
@@ -253,7 +257,9 @@ export function AudioToText({
             <div className="flex items-center justify-between">
               <h3 className="text-sm font-medium">Transcription Result</h3>
               <span className="text-xs text-gray-500">
-                {transcribedText.length} characters
+                {transcription && transcribedText === transcription.text
+                  ? `${transcription.segments.length} timestamped segments`
+                  : `${transcribedText.length} characters`}
               </span>
             </div>
             <Textarea
@@ -262,6 +268,11 @@ export function AudioToText({
               className="min-h-[150px]"
               placeholder="Transcribed text will appear here..."
             />
+            {transcription && transcribedText !== transcription.text && (
+              <p className="text-xs text-gray-500">
+                Edited transcriptions are saved without timestamps.
+              </p>
+            )}
           </div>
         )}
       </CardContent>
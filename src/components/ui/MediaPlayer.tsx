@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+
+interface MediaPlayerProps {
+  url: string;
+  kind: 'audio' | 'video';
+  currentTime?: number;
+  onTimeUpdate?: (time: number) => void;
+  height?: number;
+}
+
+export interface MediaPlayerHandle {
+  playFromTime: (time: number) => void;
+  getElement: () => HTMLMediaElement | null;
+}
+
+/**
+ * Player for audio and video files kept in storage, with the same seek interface as YoutubePlayer.
+ * Changing currentTime only seeks; playback starts through playFromTime on the ref.
+ */
+export const MediaPlayer = forwardRef<MediaPlayerHandle, MediaPlayerProps>(({
+  url,
+  kind,
+  currentTime = 0,
+  onTimeUpdate,
+  height = 240
+}, ref) => {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  // Seek requested before the media could be seeked, applied once metadata has loaded
+  const pendingSeekRef = useRef<{ time: number; play: boolean } | null>(null);
+  // Latest requested time, read when a new file is loaded
+  const currentTimeRef = useRef(currentTime);
+  currentTimeRef.current = currentTime;
+  
+  const seek = (time: number, play: boolean) => {
+    const media = mediaRef.current;
+    if (!media || media.readyState < HTMLMediaElement.HAVE_METADATA) {
+      pendingSeekRef.current = { time, play };
+      return;
+    }
+    
+    media.currentTime = time;
+    if (play) {
+      media.play().catch(error => {
+        console.error('MediaPlayer: Error starting playback:', error);
+      });
+    }
+  };
+  
+  // Seek to currentTime when it changes, ignoring the updates this player reports itself
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media || Math.abs(media.currentTime - currentTime) <= 0.5) return;
+    
+    seek(currentTime, false);
+  }, [currentTime]);
+  
+  // Start from the requested time when a new file is loaded
+  useEffect(() => {
+    const time = currentTimeRef.current;
+    pendingSeekRef.current = time > 0 ? { time, play: false } : null;
+  }, [url]);
+  
+  const handleLoadedMetadata = () => {
+    if (pendingSeekRef.current) {
+      const { time, play } = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+      seek(time, play);
+    }
+  };
+  
+  useImperativeHandle(ref, () => ({
+    playFromTime: (time: number) => seek(time, true),
+    getElement: () => mediaRef.current
+  }), []);
+  
+  const sharedProps = {
+    src: url,
+    controls: true,
+    preload: 'metadata',
+    onLoadedMetadata: handleLoadedMetadata,
+    onTimeUpdate: (event: React.SyntheticEvent<HTMLMediaElement>) => onTimeUpdate?.(event.currentTarget.currentTime)
+  };
+  
+  return kind === 'video' ? (
+    <video
+      ref={element => { mediaRef.current = element; }}
+      className="w-full rounded-md bg-black"
+      style={{ maxHeight: height }}
+      {...sharedProps}
+    />
+  ) : (
+    <audio
+      ref={element => { mediaRef.current = element; }}
+      className="w-full"
+      {...sharedProps}
+    />
+  );
+});
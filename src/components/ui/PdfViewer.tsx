@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy, RenderTask, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+// Set the worker source
+pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
+
+interface PdfViewerProps {
+  url: string;
+  page?: number;
+  highlightText?: string;
+  width?: number; // Defaults to the width of the surrounding container
+}
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Lowercase and collapse whitespace so extracted text and the PDF text layer compare equal
+const normalizeText = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Find the text items of a page that make up a passage and return their boxes in viewport space
+const findPassageRects = (items: TextItem[], passage: string, viewport: pdfjsLib.PageViewport): HighlightRect[] => {
+  const needle = normalizeText(passage.replace(/\[(Page|Slide) \d+\]/g, ' '));
+  if (!needle) return [];
+  
+  // Join the items the same way the PDF extractor does, remembering where each one starts
+  let pageText = '';
+  const ranges = items.map(item => {
+    const start = pageText.length;
+    pageText += normalizeText(item.str) + ' ';
+    return { item, start, end: pageText.length - 1 };
+  });
+  
+  // Citations quote the start of a chunk, which may run onto the next page, so fall back to shorter prefixes
+  let matchStart = -1;
+  let matchLength = 0;
+  for (const length of [needle.length, 120, 60, 30]) {
+    const candidate = needle.substring(0, length).trim();
+    if (candidate.length < 10 && length !== needle.length) continue;
+    matchStart = pageText.indexOf(candidate);
+    if (matchStart !== -1) {
+      matchLength = candidate.length;
+      break;
+    }
+  }
+  
+  if (matchStart === -1) return [];
+  const matchEnd = matchStart + matchLength;
+  
+  return ranges
+    .filter(range => range.end > matchStart && range.start < matchEnd && range.item.str.trim())
+    .map(({ item }) => {
+      const transform = pdfjsLib.Util.transform(viewport.transform, item.transform);
+      const height = Math.hypot(transform[2], transform[3]);
+      return {
+        left: transform[4],
+        top: transform[5] - height,
+        width: item.width * viewport.scale,
+        height
+      };
+    });
+};
+
+/**
+ * Renders one page of a PDF with page navigation and an optional highlighted passage
+ */
+export const PdfViewer: React.FC<PdfViewerProps> = ({ url, page = 1, highlightText, width }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderTaskRef = useRef<RenderTask | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [currentPage, setCurrentPage] = useState(page);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const pageWidth = width || containerWidth || 560;
+  
+  // Follow the container width so the page always fits the panel
+  useEffect(() => {
+    if (width || !containerRef.current) return;
+    
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerWidth(Math.floor(entry.contentRect.width));
+    });
+    observer.observe(containerRef.current);
+    
+    return () => observer.disconnect();
+  }, [width]);
+  
+  // Load the document
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    
+    const loadingTask = pdfjsLib.getDocument(url);
+    loadingTask.promise
+      .then(document => {
+        if (!cancelled) setPdf(document);
+      })
+      .catch(loadError => {
+        console.error('[PdfViewer] Error loading PDF:', loadError);
+        if (!cancelled) setError('Could not load the original PDF');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+    };
+  }, [url]);
+  
+  // Jump to a newly cited page
+  useEffect(() => {
+    setCurrentPage(page);
+  }, [page, highlightText]);
+  
+  // Render the current page and work out the highlight boxes
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    let cancelled = false;
+    
+    const renderPage = async () => {
+      const pageNumber = Math.min(Math.max(currentPage, 1), pdf.numPages);
+      const pdfPage = await pdf.getPage(pageNumber);
+      const baseViewport = pdfPage.getViewport({ scale: 1 });
+      const viewport = pdfPage.getViewport({ scale: pageWidth / baseViewport.width });
+      
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      
+      renderTaskRef.current?.cancel();
+      renderTaskRef.current = pdfPage.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport
+      });
+      
+      try {
+        await renderTaskRef.current.promise;
+      } catch (renderError) {
+        // A newer render replaced this one
+        if (renderError?.name === 'RenderingCancelledException') return;
+        throw renderError;
+      }
+      
+      if (highlightText && pageNumber === page) {
+        const textContent = await pdfPage.getTextContent();
+        const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+        if (!cancelled) setHighlights(findPassageRects(items, highlightText, viewport));
+      } else if (!cancelled) {
+        setHighlights([]);
+      }
+    };
+    
+    renderPage().catch(renderError => {
+      console.error('[PdfViewer] Error rendering page:', renderError);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, currentPage, page, highlightText, pageWidth]);
+  
+  if (error) {
+    return <p className="text-sm text-muted-foreground p-4">{error}</p>;
+  }
+  
+  return (
+    <div ref={containerRef} className="flex flex-col items-center w-full">
+      <div className="flex items-center gap-2 mb-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={!pdf || currentPage <= 1}
+          onClick={() => setCurrentPage(prev => prev - 1)}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-xs text-gray-500">
+          Page {currentPage} {pdf ? `of ${pdf.numPages}` : ''}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={!pdf || currentPage >= pdf.numPages}
+          onClick={() => setCurrentPage(prev => prev + 1)}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+      
+      <div className="relative border shadow-sm bg-white">
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-sattva-600" />
+          </div>
+        )}
+        <canvas ref={canvasRef} className="block" />
+        {highlights.map((rect, index) => (
+          <div
+            key={index}
+            className="absolute bg-yellow-300/40 rounded-sm pointer-events-none"
+            style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
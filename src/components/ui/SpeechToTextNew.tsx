@@ -3,66 +3,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
-import { Mic, Square, Save, Trash } from 'lucide-react';
+import { Mic, Square, Save, Trash, Loader2 } from 'lucide-react';
 import { AudioRecorder } from '@/lib/audioRecorder';
+import { speechToTextService } from '@/lib/speechToTextService';
+import { formatTime, type TranscriptSegment } from '@/lib/youtubeService';
 import { toast } from 'sonner';
 
-// Add type definitions for the Web Speech API
-interface SpeechRecognitionEvent extends Event {
-  resultIndex: number;
-  results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionResultList {
-  length: number;
-  item(index: number): SpeechRecognitionResult;
-  [index: number]: SpeechRecognitionResult;
-}
-
-interface SpeechRecognitionResult {
-  length: number;
-  item(index: number): SpeechRecognitionAlternative;
-  [index: number]: SpeechRecognitionAlternative;
-  isFinal: boolean;
-}
-
-interface SpeechRecognitionAlternative {
-  transcript: string;
-  confidence: number;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  error: string;
-  message: string;
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  abort(): void;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
-  onend: (() => void) | null;
-}
-
-// Add the SpeechRecognition constructor to the Window interface
-declare global {
-  interface Window {
-    SpeechRecognition?: {
-      new (): SpeechRecognition;
-    };
-    webkitSpeechRecognition?: {
-      new (): SpeechRecognition;
-    };
-  }
-}
-
 interface SpeechToTextProps {
   onTranscriptionComplete?: (text: string) => void;
-  onSave?: (text: string) => void;
+  onSave?: (text: string, segments?: TranscriptSegment[], recording?: Blob) => void;
   onProcessingChange?: (isProcessing: boolean) => void;
   initialText?: string;
   className?: string;
@@ -76,41 +25,30 @@ export function SpeechToText({
   className = '',
 }: SpeechToTextProps) {
   const [isRecording, setIsRecording] = useState(false);
+  const [isFinishing, setIsFinishing] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [transcribedText, setTranscribedText] = useState(initialText);
-  const [finalTranscript, setFinalTranscript] = useState('');
-  const [interimTranscript, setInterimTranscript] = useState('');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [pendingWindows, setPendingWindows] = useState(0);
+  const [recording, setRecording] = useState<Blob | null>(null);
+  // The transcript as returned by the live transcription, to tell whether it was edited
+  const [liveText, setLiveText] = useState('');
   const [isSupported, setIsSupported] = useState(true);
   const [volumeLevel, setVolumeLevel] = useState(0);
-  
-  const audioRecorder = useRef<AudioRecorder>(new AudioRecorder());
+
   const timerRef = useRef<number | null>(null);
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
 
   // Notify parent component when recording state changes
   useEffect(() => {
     if (onProcessingChange) {
-      onProcessingChange(isRecording);
+      onProcessingChange(isRecording || isFinishing);
     }
-  }, [isRecording, onProcessingChange]);
+  }, [isRecording, isFinishing, onProcessingChange]);
 
-  // Update transcribed text whenever final or interim transcript changes
+  // Check if browser supports audio recording
   useEffect(() => {
-    const combinedText = finalTranscript + interimTranscript;
-    setTranscribedText(combinedText);
-    
-    // Call the callback if provided
-    if (onTranscriptionComplete) {
-      onTranscriptionComplete(combinedText);
-    }
-  }, [finalTranscript, interimTranscript, onTranscriptionComplete]);
-
-  // Check if browser supports audio recording and speech recognition
-  useEffect(() => {
-    const isSpeechRecognitionSupported = 'SpeechRecognition' in window || 
-      'webkitSpeechRecognition' in window;
-    
-    setIsSupported(AudioRecorder.isSupported() && isSpeechRecognitionSupported);
+    setIsSupported(AudioRecorder.isSupported());
   }, []);
 
   // Handle recording timer
@@ -146,75 +84,50 @@ export function SpeechToText({
     };
   }, []);
 
+  // Keep the newest lines of the live transcript in view
+  useEffect(() => {
+    if (isRecording) {
+      transcriptEndRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [segments, isRecording]);
+
   // Clean up resources when component unmounts
   useEffect(() => {
     return () => {
-      stopRecording();
+      speechToTextService.stopRealtimeTranscription().catch(error => {
+        console.error('Failed to stop live transcription:', error);
+      });
     };
   }, []);
 
   const startRecording = async () => {
     try {
       // Clear previous data
-      setFinalTranscript('');
-      setInterimTranscript('');
-      
-      // Start recording for volume visualization only
-      await audioRecorder.current.startRecording();
-      
-      // Initialize speech recognition
-      const SpeechRecognitionConstructor = window.SpeechRecognition || window.webkitSpeechRecognition;
-      
-      if (!SpeechRecognitionConstructor) {
-        throw new Error('Speech recognition not supported in this browser');
-      }
-      
-      const recognition = new SpeechRecognitionConstructor();
-      
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = 'en-US';
-      
-      recognition.onresult = (event) => {
-        let currentInterimTranscript = '';
-        let currentFinalTranscript = '';
-        
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const transcript = event.results[i][0].transcript;
-          if (event.results[i].isFinal) {
-            currentFinalTranscript += transcript;
-          } else {
-            currentInterimTranscript += transcript;
+      setTranscribedText('');
+      setLiveText('');
+      setSegments([]);
+      setRecording(null);
+      setPendingWindows(0);
+
+      await speechToTextService.startRealtimeTranscription(
+        (update) => {
+          setSegments(update.segments);
+          setPendingWindows(update.pendingWindows);
+          setTranscribedText(update.text);
+
+          // Call the callback if provided
+          if (onTranscriptionComplete) {
+            onTranscriptionComplete(update.text);
           }
+        },
+        (error) => {
+          toast.error(error.message);
         }
-        
-        // Update the final transcript by appending the new final transcript
-        if (currentFinalTranscript) {
-          setFinalTranscript(prev => prev + ' ' + currentFinalTranscript.trim());
-        }
-        
-        // Replace the interim transcript with the current one
-        setInterimTranscript(currentInterimTranscript);
-      };
-      
-      recognition.onerror = (event) => {
-        console.error('Speech recognition error:', event.error);
-        toast.error(`Speech recognition error: ${event.error}`);
-      };
-      
-      recognition.onend = () => {
-        // Only restart if we're still recording
-        if (isRecording) {
-          recognition.start();
-        }
-      };
-      
-      recognition.start();
-      recognitionRef.current = recognition;
-      
+      );
+
       setIsRecording(true);
       setRecordingDuration(0);
-      
+
       toast.success('Recording started');
     } catch (error) {
       console.error('Failed to start recording:', error);
@@ -223,50 +136,49 @@ export function SpeechToText({
   };
 
   const stopRecording = async () => {
+    setIsRecording(false);
+    setIsFinishing(true);
+
     try {
-      // Stop speech recognition
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
-        recognitionRef.current = null;
-      }
-      
-      // Stop audio recording (used for volume visualization)
-      await audioRecorder.current.stopRecording();
-      
-      setIsRecording(false);
-      
-      // Add any remaining interim transcript to the final transcript
-      if (interimTranscript.trim()) {
-        setFinalTranscript(prev => {
-          const combined = prev + ' ' + interimTranscript.trim();
-          return combined.trim();
-        });
-        setInterimTranscript('');
+      // Waits for the last few seconds of audio to be transcribed
+      const result = await speechToTextService.stopRealtimeTranscription();
+
+      if (result) {
+        setSegments(result.segments);
+        setTranscribedText(result.text);
+        setLiveText(result.text);
+        setRecording(result.audioBlob);
+
+        // Call the callback with the final transcription
+        if (onTranscriptionComplete) {
+          onTranscriptionComplete(result.text);
+        }
       }
-      
+
       toast.success('Recording stopped');
-      
-      // Call the callback with the final transcription
-      if (onTranscriptionComplete && finalTranscript) {
-        onTranscriptionComplete(finalTranscript);
-      }
     } catch (error) {
       console.error('Failed to stop recording:', error);
-      setIsRecording(false);
       toast.error('Failed to stop recording');
+    } finally {
+      setIsFinishing(false);
+      setPendingWindows(0);
     }
   };
 
   const handleSave = () => {
     if (onSave && transcribedText.trim()) {
-      onSave(transcribedText);
+      // Timestamps only match the text as it was transcribed
+      const isEdited = transcribedText !== liveText;
+      onSave(transcribedText, isEdited ? undefined : segments, isEdited ? undefined : recording || undefined);
       toast.success('Transcription saved');
     }
   };
 
   const handleClear = () => {
-    setFinalTranscript('');
-    setInterimTranscript('');
+    setTranscribedText('');
+    setLiveText('');
+    setSegments([]);
+    setRecording(null);
     setRecordingDuration(0);
   };
 
@@ -284,7 +196,7 @@ export function SpeechToText({
         </CardHeader>
         <CardContent>
           <div className="text-center py-6 text-red-500">
-            Your browser does not support speech recognition.
+            Your browser does not support audio recording.
             Please use a modern browser like Chrome or Edge.
           </div>
         </CardContent>
@@ -313,6 +225,7 @@ export function SpeechToText({
                 variant="default"
                 size="icon"
                 onClick={startRecording}
+                disabled={isFinishing}
               >
                 <Mic className="h-4 w-4" />
               </Button>
@@ -321,13 +234,13 @@ export function SpeechToText({
               {formatDuration(recordingDuration)}
             </span>
           </div>
-          
+
           {isRecording && (
             <div className="flex items-center gap-2">
               <span className="animate-pulse text-red-500">Recording</span>
-              <div 
+              <div
                 className="w-3 h-3 rounded-full bg-red-500 animate-pulse"
-                style={{ 
+                style={{
                   transform: `scale(${1 + volumeLevel / 100})`,
                   opacity: 0.5 + volumeLevel / 200
                 }}
@@ -335,51 +248,76 @@ export function SpeechToText({
             </div>
           )}
         </div>
-        
+
         {isRecording && (
           <div className="space-y-2">
             <Progress value={volumeLevel} className="h-1" />
           </div>
         )}
-        
+
         <div className="space-y-2">
           <label htmlFor="transcription" className="text-sm font-medium">
             Transcription
           </label>
-          <Textarea
-            id="transcription"
-            value={transcribedText}
-            onChange={(e) => setTranscribedText(e.target.value)}
-            placeholder="Speak to see transcription here..."
-            className="min-h-[150px] resize-none"
-          />
+          {isRecording || isFinishing ? (
+            <div className="min-h-[150px] max-h-[250px] overflow-y-auto rounded-md border p-3 text-sm space-y-1">
+              {segments.length === 0 && pendingWindows === 0 && (
+                <p className="text-muted-foreground">Speak to see transcription here...</p>
+              )}
+              {segments.map((segment, index) => (
+                <div key={index} className="flex gap-2">
+                  <span className="font-mono text-xs text-sattva-600 pt-0.5 flex-shrink-0">
+                    {formatTime(segment.start)}
+                  </span>
+                  <span>{segment.text}</span>
+                </div>
+              ))}
+              {pendingWindows > 0 && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Transcribing...
+                </div>
+              )}
+              <div ref={transcriptEndRef} />
+            </div>
+          ) : (
+            <Textarea
+              id="transcription"
+              value={transcribedText}
+              onChange={(e) => setTranscribedText(e.target.value)}
+              placeholder="Speak to see transcription here..."
+              className="min-h-[150px] resize-none"
+            />
+          )}
           <div className="text-xs text-muted-foreground">
             {isRecording ? (
               <span className="text-sattva-600">
-                Speaking... {interimTranscript && <span className="italic">(interim: {interimTranscript})</span>}
+                Speaking... The transcript is updated every few seconds.
               </span>
+            ) : isFinishing ? (
+              "Finishing the transcription..."
             ) : (
-              transcribedText ? 
-                "You can edit the transcription if needed." : 
+              transcribedText ?
+                "You can edit the transcription if needed. Edited transcriptions are saved without timestamps." :
                 "Start recording to generate transcription."
             )}
           </div>
         </div>
       </CardContent>
-      
+
       <CardFooter className="flex justify-between">
         <Button
           variant="outline"
           onClick={handleClear}
-          disabled={isRecording || !transcribedText}
+          disabled={isRecording || isFinishing || !transcribedText}
         >
           <Trash className="h-4 w-4 mr-2" />
           Clear
         </Button>
-        
+
         <Button
           onClick={handleSave}
-          disabled={isRecording || !transcribedText.trim()}
+          disabled={isRecording || isFinishing || !transcribedText.trim()}
         >
           <Save className="h-4 w-4 mr-2" />
           Save
@@ -387,4 +325,4 @@ export function SpeechToText({
       </CardFooter>
     </Card>
   );
-} 
\ No newline at end of file
+}
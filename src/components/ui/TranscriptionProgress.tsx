@@ -0,0 +1,74 @@
+import { CheckCircle2, Loader2, RotateCw, XCircle, Clock } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { formatTime } from '@/lib/youtubeService';
+import type { SegmentProgress } from '@/lib/transcription';
+
+interface TranscriptionProgressProps {
+  segments: SegmentProgress[];
+  className?: string;
+}
+
+const STATUS_LABELS: Record<SegmentProgress['status'], string> = {
+  pending: 'Waiting',
+  transcribing: 'Transcribing',
+  retrying: 'Retrying',
+  completed: 'Done',
+  failed: 'Failed'
+};
+
+const StatusIcon = ({ status }: { status: SegmentProgress['status'] }) => {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="h-3 w-3 text-green-600" />;
+    case 'failed':
+      return <XCircle className="h-3 w-3 text-red-500" />;
+    case 'retrying':
+      return <RotateCw className="h-3 w-3 text-yellow-600 animate-spin" />;
+    case 'transcribing':
+      return <Loader2 className="h-3 w-3 animate-spin" />;
+    default:
+      return <Clock className="h-3 w-3 text-gray-400" />;
+  }
+};
+
+/**
+ * Per-segment progress of a long transcription
+ */
+export function TranscriptionProgress({ segments, className = '' }: TranscriptionProgressProps) {
+  // Short recordings are sent in one request, the overall progress bar covers them
+  if (segments.length <= 1) {
+    return null;
+  }
+  
+  const completed = segments.filter(segment => segment.status === 'completed').length;
+  
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>Segments</span>
+        <span>{completed} of {segments.length} transcribed</span>
+      </div>
+      <div className="max-h-[160px] overflow-y-auto space-y-1 pr-1">
+        {segments.map(segment => (
+          <div key={segment.index} className="flex items-center gap-2 text-xs">
+            <StatusIcon status={segment.status} />
+            <span className="w-24 flex-shrink-0 text-gray-600">
+              {formatTime(segment.start)} - {formatTime(segment.end)}
+            </span>
+            <Progress
+              value={segment.status === 'completed' ? 100 : segment.progress}
+              className="h-1 flex-1"
+            />
+            <span
+              className={`w-20 flex-shrink-0 text-right ${segment.status === 'failed' ? 'text-red-500' : 'text-gray-500'}`}
+              title={segment.error}
+            >
+              {STATUS_LABELS[segment.status]}
+              {segment.attempt > 1 && segment.status !== 'completed' ? ` (${segment.attempt})` : ''}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,15 @@ import { Progress } from '@/components/ui/progress';
 import { FileVideo, Save, Trash, Loader2, Play, Pause, Info } from 'lucide-react';
 import { toast } from 'sonner';
 import axios from 'axios';
+import { transcribeLongAudio, TimedTranscription, SegmentProgress } from '@/lib/transcription';
+import { TranscriptionProgress } from '@/components/ui/TranscriptionProgress';
+import { extractAudio, terminateAudioExtraction } from '@/lib/audioExtraction';
+import type { TranscriptSegment } from '@/lib/youtubeService';
 
 interface VideoToTextProps {
   onTranscriptionComplete?: (text: string) => void;
-  onSave?: (text: string, fileName: string) => void;
+  // Segments are only passed while the text is unedited, so the timestamps still match it
+  onSave?: (text: string, fileName: string, segments?: TranscriptSegment[], media?: File) => void;
   onProcessingChange?: (isProcessing: boolean) => void;
   className?: string;
 }
@@ -22,10 +27,15 @@ const SUPPORTED_VIDEO_FORMATS = [
   'video/quicktime', // MOV
   'video/x-msvideo', // AVI
   'video/x-matroska', // MKV
+  'video/avi',
 ];
 
-// Maximum file size (100MB)
-const MAX_FILE_SIZE = 100 * 1024 * 1024;
+// Browsers often report no type for MKV and AVI, so also accept these extensions
+const SUPPORTED_VIDEO_EXTENSIONS = ['mp4', 'webm', 'ogv', 'mov', 'avi', 'mkv'];
+
+// Maximum file size. ffmpeg reads the video in place and long recordings are
+// transcribed in segments, so this is only a sanity limit.
+const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024;
 
 // Supported audio formats for Whisper API
 const SUPPORTED_WHISPER_FORMATS = ['mp3', 'mp4', 'mpeg', 'mpga', 'wav', 'webm'];
@@ -43,9 +53,11 @@ export function VideoToText({
   const [uploadProgress, setUploadProgress] = useState(0);
   const [conversionProgress, setConversionProgress] = useState(0);
   const [transcriptionProgress, setTranscriptionProgress] = useState(0);
+  const [segmentProgress, setSegmentProgress] = useState<SegmentProgress[]>([]);
   const [overallProgress, setOverallProgress] = useState(0);
   const [currentStatus, setCurrentStatus] = useState<string>('');
   const [transcribedText, setTranscribedText] = useState('');
+  const [transcription, setTranscription] = useState<TimedTranscription | null>(null);
   const [videoURL, setVideoURL] = useState<string | null>(null);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [audioURL, setAudioURL] = useState<string | null>(null);
@@ -53,7 +65,6 @@ export function VideoToText({
   const [isPlaying, setIsPlaying] = useState(false);
   const [showDebugInfo, setShowDebugInfo] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const progressIntervalRef = useRef<number | null>(null);
 
   // Notify parent component when processing state changes
   useEffect(() => {
@@ -85,7 +96,14 @@ export function VideoToText({
     }
   }, [isConverting, isTranscribing, conversionProgress, transcriptionProgress, isProcessing, overallProgress]);
 
-  // Clean up URLs and intervals when component unmounts or file changes
+  // Free the ffmpeg worker when the component unmounts
+  useEffect(() => {
+    return () => {
+      terminateAudioExtraction();
+    };
+  }, []);
+
+  // Clean up URLs when component unmounts or file changes
   useEffect(() => {
     return () => {
       if (videoURL) {
@@ -94,9 +112,6 @@ export function VideoToText({
       if (audioURL) {
         URL.revokeObjectURL(audioURL);
       }
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-      }
     };
   }, [videoURL, audioURL]);
 
@@ -108,7 +123,8 @@ export function VideoToText({
     }
     
     // Validate file format
-    if (!SUPPORTED_VIDEO_FORMATS.includes(selectedFile.type)) {
+    const extension = selectedFile.name.split('.').pop()?.toLowerCase() || '';
+    if (!SUPPORTED_VIDEO_FORMATS.includes(selectedFile.type) && !SUPPORTED_VIDEO_EXTENSIONS.includes(extension)) {
       setError('Unsupported file format. Please upload a video file (MP4, WEBM, MOV, etc.).');
       toast.error('Unsupported file format');
       return;
@@ -124,6 +140,7 @@ export function VideoToText({
     // Clear previous data
     setError(null);
     setTranscribedText('');
+    setTranscription(null);
     setAudioBlob(null);
     setOverallProgress(0);
     setCurrentStatus('');
@@ -142,158 +159,22 @@ export function VideoToText({
     setVideoURL(URL.createObjectURL(selectedFile));
   };
 
-  // Extract audio directly from the video file
+  // Extract a compact mono audio track from the video with ffmpeg.wasm
   const extractAudioFromVideo = async (videoFile: File): Promise<Blob> => {
-    setCurrentStatus('Extracting audio from video file...');
+    setCurrentStatus('Loading audio extractor...');
+    setConversionProgress(0);
     
-    return new Promise((resolve, reject) => {
-      try {
-        // Create a simulated progress updater
-        let progress = 0;
-        progressIntervalRef.current = window.setInterval(() => {
-          progress += 5;
-          if (progress > 95) {
-            progress = 95;
-          }
-          setConversionProgress(progress);
-          setCurrentStatus(`Extracting audio: ${progress}%`);
-        }, 500) as unknown as number;
-        
-        // Use the video file directly
-        // For MP4 files, we can use them directly with Whisper API
-        if (videoFile.type === 'video/mp4') {
-          if (progressIntervalRef.current) {
-            clearInterval(progressIntervalRef.current);
-            progressIntervalRef.current = null;
-          }
-          setConversionProgress(100);
-          setCurrentStatus('Audio extraction complete');
-          resolve(videoFile);
-          return;
-        }
-        
-        // For other formats, we'll create a simple audio extraction
-        // by playing the video and recording its audio output
-        if (videoRef.current) {
-          const video = videoRef.current;
-          
-          // Create a MediaSource
-          const mediaSource = new MediaSource();
-          const url = URL.createObjectURL(mediaSource);
-          video.src = url;
-          
-          mediaSource.addEventListener('sourceopen', async () => {
-            try {
-              // Read the video file
-              const arrayBuffer = await videoFile.arrayBuffer();
-              
-              // Create a source buffer
-              const sourceBuffer = mediaSource.addSourceBuffer(videoFile.type);
-              sourceBuffer.appendBuffer(arrayBuffer);
-              
-              sourceBuffer.addEventListener('updateend', () => {
-                // When the buffer is loaded, we can extract the audio
-                try {
-                  // Create a new audio context
-                  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-                  
-                  // Create a media element source
-                  const source = audioContext.createMediaElementSource(video);
-                  
-                  // Create a destination for recording
-                  const destination = audioContext.createMediaStreamDestination();
-                  
-                  // Connect the source to the destination
-                  source.connect(destination);
-                  
-                  // Create a media recorder
-                  const mediaRecorder = new MediaRecorder(destination.stream, {
-                    mimeType: 'audio/webm'
-                  });
-                  
-                  const chunks: BlobPart[] = [];
-                  
-                  mediaRecorder.ondataavailable = (e) => {
-                    if (e.data.size > 0) {
-                      chunks.push(e.data);
-                    }
-                  };
-                  
-                  mediaRecorder.onstop = () => {
-                    // Create the audio blob
-                    const audioBlob = new Blob(chunks, { type: 'audio/webm' });
-                    
-                    if (progressIntervalRef.current) {
-                      clearInterval(progressIntervalRef.current);
-                      progressIntervalRef.current = null;
-                    }
-                    
-                    setConversionProgress(100);
-                    setCurrentStatus('Audio extraction complete');
-                    
-                    // Clean up
-                    URL.revokeObjectURL(url);
-                    
-                    resolve(audioBlob);
-                  };
-                  
-                  // Start recording
-                  mediaRecorder.start(100);
-                  
-                  // Play the video silently
-                  video.muted = true;
-                  video.currentTime = 0;
-                  video.play().catch(error => {
-                    console.error('Error playing video:', error);
-                    if (progressIntervalRef.current) {
-                      clearInterval(progressIntervalRef.current);
-                      progressIntervalRef.current = null;
-                    }
-                    reject(error);
-                  });
-                  
-                  // Stop recording when video ends
-                  video.onended = () => {
-                    mediaRecorder.stop();
-                    video.pause();
-                  };
-                } catch (error) {
-                  console.error('Error setting up audio extraction:', error);
-                  if (progressIntervalRef.current) {
-                    clearInterval(progressIntervalRef.current);
-                    progressIntervalRef.current = null;
-                  }
-                  reject(error);
-                }
-              });
-            } catch (error) {
-              console.error('Error reading video file:', error);
-              if (progressIntervalRef.current) {
-                clearInterval(progressIntervalRef.current);
-                progressIntervalRef.current = null;
-              }
-              reject(error);
-            }
-          });
-        } else {
-          // Fallback: use the video file directly
-          if (progressIntervalRef.current) {
-            clearInterval(progressIntervalRef.current);
-            progressIntervalRef.current = null;
-          }
-          setConversionProgress(100);
-          setCurrentStatus('Using video file directly for transcription');
-          resolve(videoFile);
-        }
-      } catch (error) {
-        console.error('Error extracting audio:', error);
-        if (progressIntervalRef.current) {
-          clearInterval(progressIntervalRef.current);
-          progressIntervalRef.current = null;
-        }
-        reject(error);
-      }
+    const audio = await extractAudio(videoFile, (ratio) => {
+      const progress = Math.round(ratio * 100);
+      setConversionProgress(progress);
+      setCurrentStatus(`Extracting audio: ${progress}%`);
     });
+    
+    console.log(`Extracted ${formatFileSize(audio.size)} of audio from ${formatFileSize(videoFile.size)} of video`);
+    setConversionProgress(100);
+    setCurrentStatus('Audio extraction complete');
+    
+    return audio;
   };
 
   const transcribeAudio = async (audioBlob: Blob) => {
@@ -306,9 +187,6 @@ export function VideoToText({
       console.log('Audio blob type:', audioBlob.type);
       console.log('Audio blob size:', audioBlob.size);
       
-      // Create a FormData object to send the audio file
-      const formData = new FormData();
-      
       // Determine the file extension based on MIME type
       let fileExtension = 'mp4';
       if (audioBlob.type.includes('/')) {
@@ -320,45 +198,29 @@ export function VideoToText({
         fileExtension = 'mp4'; // Default to mp4 which is supported
       }
       
-      // Add the file to the form data
-      formData.append('file', audioBlob, `audio.${fileExtension}`);
-      formData.append('model', 'whisper-1');
-      formData.append('language', 'en'); // You can make this configurable
-      
       setCurrentStatus('Uploading audio to transcription service...');
+      setSegmentProgress([]);
       
-      // Simulate upload progress since axios doesn't always report it correctly
-      let simulatedProgress = 0;
-      const progressInterval = setInterval(() => {
-        simulatedProgress += 5;
-        if (simulatedProgress > 95) {
-          clearInterval(progressInterval);
-          simulatedProgress = 95;
+      // Send the audio to the transcription provider, split into segments if it is too large for one request
+      const result = await transcribeLongAudio(audioBlob, {
+        fileName: `audio.${fileExtension}`,
+        onProgress: (segments) => {
+          const completed = segments.filter(segment => segment.status === 'completed').length;
+          const total = segments.reduce((sum, segment) => sum + (segment.status === 'completed' ? 100 : segment.progress), 0);
+          setTranscriptionProgress(Math.round(total / segments.length));
+          setSegmentProgress(segments);
+          setCurrentStatus(segments.length > 1
+            ? `Transcribing segments: ${completed} of ${segments.length} done`
+            : 'Uploading and transcribing audio...');
         }
-        setTranscriptionProgress(simulatedProgress);
-        setCurrentStatus(`Uploading and transcribing audio: ${simulatedProgress}%`);
-      }, 1000);
-      
-      // Make the API request
-      const response = await axios.post(
-        'https://api.openai.com/v1/audio/transcriptions',
-        formData,
-        {
-          headers: {
-            'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-            'Content-Type': 'multipart/form-data',
-          }
-        }
-      );
-      
-      // Clear the simulated progress interval
-      clearInterval(progressInterval);
+      });
       
       setTranscriptionProgress(100);
       setCurrentStatus('Processing transcription results...');
       
       // Set the transcribed text
-      const text = response.data.text;
+      const text = result.text;
+      setTranscription(result);
       setTranscribedText(text);
       
       // Call the callback if provided
@@ -377,7 +239,7 @@ export function VideoToText({
         setCurrentStatus(errorMsg);
         throw new Error(errorMsg);
       } else {
-        const errorMsg = 'Failed to transcribe audio. Please try again.';
+        const errorMsg = error.message || 'Failed to transcribe audio. Please try again.';
         setCurrentStatus(errorMsg);
         throw new Error(errorMsg);
       }
@@ -442,7 +304,8 @@ export function VideoToText({
 
   const handleSave = () => {
     if (onSave && transcribedText.trim() && file) {
-      onSave(transcribedText, file.name.replace(/\.[^/.]+$/, '') + ' (Transcription)');
+      const segments = transcription && transcribedText === transcription.text ? transcription.segments : undefined;
+      onSave(transcribedText, file.name.replace(/\.[^/.]+$/, '') + ' (Transcription)', segments, file);
       toast.success('Transcription saved');
     }
   };
@@ -450,10 +313,12 @@ export function VideoToText({
   const handleClear = () => {
     setFile(null);
     setTranscribedText('');
+    setTranscription(null);
     setError(null);
     setUploadProgress(0);
     setConversionProgress(0);
     setTranscriptionProgress(0);
+    setSegmentProgress([]);
     setOverallProgress(0);
     setCurrentStatus('');
     setIsPlaying(false);
@@ -470,12 +335,6 @@ export function VideoToText({
     
     setAudioBlob(null);
     
-    // Clear any running intervals
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-      progressIntervalRef.current = null;
-    }
-    
     // Reset the file input
     const fileInput = document.getElementById('video-file-input') as HTMLInputElement;
     if (fileInput) {
@@ -533,7 +392,7 @@ export function VideoToText({
             <input
               id="video-file-input"
               type="file"
-              accept="video/*"
+              accept="video/*,.mkv,.avi,.mov"
               onChange={handleFileChange}
               className="hidden"
               disabled={isProcessing}
@@ -597,6 +456,8 @@ export function VideoToText({
                 Status: <span className="text-primary">{currentStatus}</span>
               </div>
               
+              {isTranscribing && <TranscriptionProgress segments={segmentProgress} />}
+              
               {showDebugInfo && (
                 <div className="space-y-2 text-xs text-muted-foreground border-t pt-2 mt-2">
                   <div>
@@ -637,7 +498,9 @@ export function VideoToText({
             <div className="flex items-center justify-between">
               <h3 className="text-sm font-medium">Transcription Result</h3>
               <span className="text-xs text-gray-500">
-                {transcribedText.length} characters
+                {transcription && transcribedText === transcription.text
+                  ? `${transcription.segments.length} timestamped segments`
+                  : `${transcribedText.length} characters`}
               </span>
             </div>
             <Textarea
@@ -646,6 +509,11 @@ export function VideoToText({
               className="min-h-[150px] max-h-[300px] overflow-y-auto"
               placeholder="Transcribed text will appear here..."
             />
+            {transcription && transcribedText !== transcription.text && (
+              <p className="text-xs text-gray-500">
+                Edited transcriptions are saved without timestamps.
+              </p>
+            )}
           </div>
         )}
       </CardContent>
@@ -1,6 +1,10 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from './supabase';
+import { userSettingsService } from './userSettingsService';
+import { ingestionService } from './ingestionService';
+import { sourceSyncService } from './sourceSyncService';
+import { knowledgebaseService } from './knowledgebaseService';
 import { useNavigate } from 'react-router-dom';
 
 type AuthContextType = {
@@ -47,6 +51,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Apply the signed-in user's AI settings (models, temperature, own API key)
+  useEffect(() => {
+    userSettingsService.applyAISettings(user?.id ?? null);
+  }, [user?.id]);
+
+  // Pick up uploads whose processing was interrupted, e.g. by closing the tab
+  useEffect(() => {
+    if (!user?.id) return;
+
+    ingestionService.resumePendingJobs(user.id).catch(error => {
+      console.error('Error resuming ingestion jobs:', error);
+    });
+  }, [user?.id]);
+
+  // Embed files that have no usable chunks, e.g. because the embedding provider failed
+  useEffect(() => {
+    if (!user?.id) return;
+
+    knowledgebaseService.indexMissingFiles(user.id).catch(error => {
+      console.error('Error indexing files:', error);
+    });
+  }, [user?.id]);
+
+  // Re-fetch website and YouTube files that are synced on a schedule
+  useEffect(() => {
+    if (!user?.id) return;
+
+    return sourceSyncService.startScheduler(user.id);
+  }, [user?.id]);
+
   const signUp = async (email: string, password: string, fullName: string) => {
     const { data, error } = await supabase.auth.signUp({
       email,
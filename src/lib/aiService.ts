@@ -1,11 +1,18 @@
 import axios from 'axios';
 import { knowledgebaseService } from './knowledgebaseService';
+import type { ChunkSearchOptions } from './knowledgebaseService';
 import { formatTime } from './youtubeService';
+import { llmProvider } from './llmProvider';
+import type { ChatCompletionOptions, ChatMessage } from './llmProvider';
+import { userSettingsService } from './userSettingsService';
 
-interface Reference {
+export interface Reference {
   fileId: string;
   text: string;
   position?: number;
+  location?: string; // Where the cited text is in a document, e.g. "Section 3.2" or "Page 4"
+  page?: number; // First page of the cited passage, used to open PDFs at the right page
+  docIndex?: number; // Number of the document in the prompt, what ((N)) citations refer to
 }
 
 interface AIResponse {
@@ -14,19 +21,130 @@ interface AIResponse {
   isGenericResponse: boolean;
 }
 
+export interface ChatHistoryMessage {
+  content: string;
+  isUser: boolean;
+}
+
+export interface StreamOptions {
+  onSources?: (sources: Reference[]) => void; // Called with one entry per numbered document, keyed by docIndex like the final references
+  onToken?: (token: string, text: string) => void; // Called with each new token and the text so far
+  signal?: AbortSignal; // Aborting keeps the text received so far as the answer
+}
+
+interface ChunkLocation {
+  pageStart?: number;
+  pageEnd?: number;
+  section?: string;
+  sectionTitle?: string;
+  startTime?: number;
+  endTime?: number;
+}
+
+// Where a document chunk is in its file, e.g. "Section 3.2" or "Pages 3-4" (media chunks are cited by timestamp instead)
+const formatDocumentLocation = (chunkMetadata: ChunkLocation): string | undefined => {
+  if (chunkMetadata.section !== undefined) {
+    return `Section ${chunkMetadata.section}`;
+  }
+  
+  if (chunkMetadata.pageStart !== undefined) {
+    return chunkMetadata.pageEnd !== undefined && chunkMetadata.pageEnd !== chunkMetadata.pageStart
+      ? `Pages ${chunkMetadata.pageStart}-${chunkMetadata.pageEnd}`
+      : `Page ${chunkMetadata.pageStart}`;
+  }
+  
+  return undefined;
+};
+
+// Describe where a chunk comes from in its file, e.g. ", Pages 3-4"
+const describeChunkLocation = (chunkMetadata: ChunkLocation): string => {
+  const documentLocation = formatDocumentLocation(chunkMetadata);
+  if (documentLocation) {
+    return chunkMetadata.sectionTitle
+      ? `, ${documentLocation} "${chunkMetadata.sectionTitle}"`
+      : `, ${documentLocation}`;
+  }
+  
+  if (chunkMetadata.startTime !== undefined) {
+    const time = `, Time ${formatTime(chunkMetadata.startTime)}-${formatTime(chunkMetadata.endTime ?? chunkMetadata.startTime)}`;
+    // Transcript chunks are labelled with their topic section
+    return chunkMetadata.sectionTitle ? `${time} "${chunkMetadata.sectionTitle}"` : time;
+  }
+  
+  return '';
+};
+
+// Rough token estimate for budgeting prompt space (about 4 characters per token)
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Keep the most recent messages that fit in the token budget, oldest first.
+// Citation markers are removed because document numbers change between questions.
+const selectHistoryWithinBudget = (history: ChatHistoryMessage[], maxTokens: number) => {
+  const selected: { role: 'user' | 'assistant'; content: string }[] = [];
+  let usedTokens = 0;
+  
+  for (let i = history.length - 1; i >= 0; i--) {
+    const content = history[i].content
+      .replace(/\(\((\d+)(?::([a-zA-Z0-9-]+))?\)\)/g, '')
+      .trim();
+    if (!content) continue;
+    
+    const tokens = estimateTokens(content);
+    if (usedTokens + tokens > maxTokens) break;
+    
+    usedTokens += tokens;
+    selected.unshift({ role: history[i].isUser ? 'user' : 'assistant', content });
+  }
+  
+  return selected;
+};
+
+/**
+ * The reference a ((N)) citation points at, preferring the one cited at the same timestamp.
+ * Answers saved before references carried their document number fall back to list position.
+ */
+export const findReferenceByDocIndex = <T extends { docIndex?: number; position?: number }>(
+  references: T[],
+  docIndex: number,
+  position?: number
+): T | undefined => {
+  if (!references.some(ref => ref.docIndex !== undefined)) {
+    return references[docIndex - 1];
+  }
+  
+  const matches = references.filter(ref => ref.docIndex === docIndex);
+  return matches.find(ref => position !== undefined && ref.position === position) || matches[0];
+};
+
 export const aiService = {
   /**
    * Query the OpenAI API with the user's question and knowledge base context
    * @param knowledgebaseId The ID of the knowledge base to query
    * @param query The user's question
+   * @param history Earlier messages in the chat, oldest first
+   * @param searchOptions Number of chunks to retrieve overall and per file
+   * @param streamOptions Callbacks for streaming the answer and a signal to stop it
    * @returns The AI response with references
    */
-  async queryKnowledgebase(knowledgebaseId: string, query: string): Promise<AIResponse> {
+  async queryKnowledgebase(
+    knowledgebaseId: string,
+    query: string,
+    history: ChatHistoryMessage[] = [],
+    searchOptions: ChunkSearchOptions = {},
+    streamOptions: StreamOptions = {}
+  ): Promise<AIResponse> {
     try {
-      // 1. Search the knowledge base for relevant content
-      let relevantFiles;
+      // 1. Search the knowledge base for relevant chunks, using a standalone
+      // version of follow-up questions so they retrieve the right content
+      const retrievalQuery = await this.condenseQuery(query, history);
+      
+      let relevantChunks;
       try {
-        relevantFiles = await knowledgebaseService.semanticSearchContent(knowledgebaseId, query);
+        relevantChunks = await knowledgebaseService.searchChunks(knowledgebaseId, retrievalQuery, {
+          topK: 8,
+          maxChunksPerFile: 3,
+          ...searchOptions
+        });
       } catch (searchError) {
         console.error('Error searching knowledge base:', searchError);
         return {
@@ -36,7 +154,7 @@ export const aiService = {
         };
       }
       
-      if (!relevantFiles || relevantFiles.length === 0) {
+      if (!relevantChunks || relevantChunks.length === 0) {
         return {
           text: "I don't have specific information about that in your knowledge base. Here's what I can suggest:\n\n- Try rephrasing your question with different keywords\n- Add more content to your knowledge base related to this topic\n- Check if your question is relevant to the content in this knowledge base",
           references: [],
@@ -44,13 +162,26 @@ export const aiService = {
         };
       }
       
-      // 2. Prepare context from the relevant files
-      const context = relevantFiles.map((file, index) => {
+      // 2. Prepare context from the relevant chunks, one numbered document per chunk
+      const context = relevantChunks.map((chunk, index) => {
+        const file = chunk.file;
+        
         // Store the exact chunk that was found during semantic search
-        const exactChunk = file.content_text || "";
+        const exactChunk = chunk.content || "";
         
-        // Store the chunk metadata if available
-        const chunkMetadata = file.metadata || {};
+        // Store where the chunk sits in the file
+        const chunkMetadata = {
+          chunkIndex: chunk.chunkIndex,
+          score: chunk.score,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset,
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          section: chunk.section,
+          sectionTitle: chunk.sectionTitle,
+          startTime: chunk.startTime,
+          endTime: chunk.endTime
+        };
         
         // For media files, try to extract timestamp information
         let processedContent = exactChunk;
@@ -65,7 +196,7 @@ export const aiService = {
             ))) {
           try {
             // If the content is JSON (like YouTube transcripts), preserve the timestamp information
-            const contentData = JSON.parse(file.content_text);
+            const contentData = JSON.parse(exactChunk);
             if (Array.isArray(contentData) && contentData.length > 0 && contentData[0].start !== undefined) {
               // Store timestamp data for reference
               timestampData = contentData.map(segment => ({
@@ -146,13 +277,7 @@ export const aiService = {
         IMPORTANT: For YouTube videos, you MUST include the timestamp in seconds in your citations. For example, if you're referencing content at 2 minutes and 30 seconds (150 seconds), use ((DOC_INDEX:150)). The exact timestamps are provided in the TIMESTAMP DATA section for each document.
       `;
       
-      // 4. Call the OpenAI API
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      
-      if (!apiKey) {
-        throw new Error('OpenAI API key is not set in environment variables');
-      }
-      
+      // 4. Call the AI provider
       // Limit context size to prevent exceeding token limits
       const limitedContext = context.map(ctx => {
         // Limit each document to a maximum of 4000 characters
@@ -168,65 +293,76 @@ export const aiService = {
       });
       
       // Limit the number of documents to prevent exceeding token limits
-      const maxDocuments = 5;
+      const maxDocuments = 10;
       const truncatedContext = limitedContext.slice(0, maxDocuments);
       
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-3.5-turbo',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { 
-              role: 'user', 
-              content: `
-                Context:
-                ${truncatedContext.map((ctx) => `
-                  --- Document ${ctx.docIndex} (ID: ${ctx.fileId}, Type: ${ctx.fileType}, Name: ${ctx.fileName}) ---
-                  ${ctx.content}
-                  
-                  ${ctx.timestampData && ctx.timestampData.length > 0 ? 
-                    `TIMESTAMP DATA FOR DOCUMENT ${ctx.docIndex} (IMPORTANT - USE THESE EXACT TIMESTAMPS):
-                    ${JSON.stringify(ctx.timestampData.slice(0, 10).map(td => ({
-                      timestamp: td.timestamp,
-                      text: td.text.substring(0, 50) + (td.text.length > 50 ? '...' : ''),
-                      formattedTime: td.formattedTime
-                    })), null, 2)}
-                    ... (${ctx.timestampData.length} total timestamps)` 
-                    : ''}
-                `).join('\n\n')}
-                
-                Document to File Mapping:
-                ${truncatedContext.map(ctx => `Document ${ctx.docIndex} = ${ctx.fileName} (${ctx.fileId})`).join('\n')}
+      // Include as much of the recent conversation as fits in the history budget
+      const maxHistoryTokens = 1000;
+      const historyMessages = selectHistoryWithinBudget(history, maxHistoryTokens);
+      
+      // Provide the document-ordered sources before the answer starts
+      streamOptions.onSources?.(truncatedContext.map(ctx => ({
+        fileId: ctx.fileId,
+        text: ctx.content.substring(0, 200),
+        location: formatDocumentLocation(ctx.chunkMetadata),
+        page: ctx.chunkMetadata.pageStart,
+        docIndex: ctx.docIndex
+      })));
+      
+      const aiSettings = userSettingsService.getActiveAISettings();
+      const requestBody: ChatCompletionOptions = {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          ...historyMessages,
+          { 
+            role: 'user', 
+            content: `
+              Context:
+              ${truncatedContext.map((ctx) => `
+                --- Document ${ctx.docIndex} (ID: ${ctx.fileId}, Type: ${ctx.fileType}, Name: ${ctx.fileName}${describeChunkLocation(ctx.chunkMetadata)}) ---
+                ${ctx.content}
                 
-                Question: ${query}
-                
-                IMPORTANT REMINDER: 
-                1. Use the citation format ((DOC_INDEX:TIMESTAMP)) for every statement
-                2. DOC_INDEX is the document number (1, 2, 3, etc.)
-                3. For YouTube videos and other media, you MUST include the TIMESTAMP in seconds
-                4. Use the exact timestamps from the TIMESTAMP DATA provided for each document
-                5. Place citations immediately after each statement
-                6. Make sure EVERY factual statement has a citation
-                7. Format your response with proper markdown headings, lists, and formatting
-              `
-            }
-          ],
-          temperature: 0.5, // Lower temperature for more consistent responses
-          max_tokens: 800, // Reduced max tokens for faster responses
-          presence_penalty: 0.1, // Slight penalty to avoid repetition
-          frequency_penalty: 0.1 // Slight penalty to avoid repetition
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
+                ${ctx.timestampData && ctx.timestampData.length > 0 ? 
+                  `TIMESTAMP DATA FOR DOCUMENT ${ctx.docIndex} (IMPORTANT - USE THESE EXACT TIMESTAMPS):
+                  ${JSON.stringify(ctx.timestampData.slice(0, 10).map(td => ({
+                    timestamp: td.timestamp,
+                    text: td.text.substring(0, 50) + (td.text.length > 50 ? '...' : ''),
+                    formattedTime: td.formattedTime
+                  })), null, 2)}
+                  ... (${ctx.timestampData.length} total timestamps)` 
+                  : ''}
+              `).join('\n\n')}
+              
+              Document to File Mapping:
+              ${truncatedContext.map(ctx => `Document ${ctx.docIndex} = ${ctx.fileName} (${ctx.fileId})`).join('\n')}
+              
+              Question: ${query}
+              
+              IMPORTANT REMINDER: 
+              1. Use the citation format ((DOC_INDEX:TIMESTAMP)) for every statement
+              2. DOC_INDEX is the document number (1, 2, 3, etc.)
+              3. For YouTube videos and other media, you MUST include the TIMESTAMP in seconds
+              4. Use the exact timestamps from the TIMESTAMP DATA provided for each document
+              5. Place citations immediately after each statement
+              6. Make sure EVERY factual statement has a citation
+              7. Format your response with proper markdown headings, lists, and formatting
+            `
           }
-        }
-      );
+        ],
+        temperature: aiSettings.temperature, // From the user's API settings (0.5 by default)
+        max_tokens: aiSettings.max_tokens, // From the user's API settings (800 by default)
+        presence_penalty: 0.1, // Slight penalty to avoid repetition
+        frequency_penalty: 0.1 // Slight penalty to avoid repetition
+      };
       
-      // 5. Extract the AI response
-      const aiResponseText = response.data.choices[0].message.content;
+      // 5. Extract the AI response, streaming it token by token if requested
+      let aiResponseText: string;
+      
+      if (streamOptions.onToken) {
+        aiResponseText = await llmProvider.streamChatCompletion(requestBody, streamOptions.onToken, streamOptions.signal);
+      } else {
+        aiResponseText = await llmProvider.createChatCompletion(requestBody);
+      }
       
       console.log('AI response text sample:', aiResponseText.substring(0, 200) + (aiResponseText.length > 200 ? '...' : ''));
       
@@ -328,7 +464,8 @@ export const aiService = {
             references.push({
               fileId,
               text: textSnippet,
-              position
+              position,
+              docIndex: actualFile.docIndex
             });
           }
         }
@@ -424,7 +561,8 @@ export const aiService = {
             uniqueReferences.set(refKey, {
               fileId,
               text: textSnippet,
-              position: undefined
+              position: undefined,
+              docIndex: actualFile.docIndex
             });
           } else {
             console.log(`No file found for fileId ${fileId}`);
@@ -438,8 +576,9 @@ export const aiService = {
             
             const fileId = file.fileId;
             
-            // Create a unique key for this reference based on fileId and timestamp
-            const refKey = `${fileId}:${idOrTimestamp !== undefined ? idOrTimestamp : 'null'}`;
+            // Create a unique key for this reference based on fileId and timestamp,
+            // or on the chunk when there is no timestamp
+            const refKey = `${fileId}:${idOrTimestamp !== undefined ? idOrTimestamp : `chunk-${file.chunkMetadata.chunkIndex}`}`;
             
             // Skip if we've already processed this exact reference
             if (uniqueReferences.has(refKey)) {
@@ -527,22 +666,8 @@ export const aiService = {
                 }
               }
             } else {
-              // For non-media files, extract different snippets for each reference
-              const referenceCount = Array.from(uniqueReferences.values())
-                .filter(ref => ref.fileId === fileId).length;
-              const contentLength = file.content.length;
-              
-              let start = 0;
-              let end = Math.min(contentLength, 200);
-              
-              if (referenceCount > 0) {
-                // For subsequent references, use different parts of the content
-                const segmentSize = Math.min(200, Math.floor(contentLength / 5));
-                start = Math.min(referenceCount * segmentSize, contentLength - segmentSize);
-                end = Math.min(start + segmentSize, contentLength);
-              }
-              
-              textSnippet = file.content.substring(start, end);
+              // For non-media files, each document is a single chunk so use its opening text
+              textSnippet = file.content.substring(0, 200);
             }
             
             console.log(`Adding reference: fileId=${fileId}, position=${finalTimestamp}`);
@@ -551,7 +676,10 @@ export const aiService = {
             uniqueReferences.set(refKey, {
               fileId,
               text: textSnippet,
-              position: finalTimestamp
+              position: finalTimestamp,
+              location: finalTimestamp === undefined ? formatDocumentLocation(file.chunkMetadata) : undefined,
+              page: finalTimestamp === undefined ? file.chunkMetadata.pageStart : undefined,
+              docIndex
             });
           } else {
             console.log(`No file found for docIndex ${docIndex}`);
@@ -562,8 +690,11 @@ export const aiService = {
       // Convert the map values to an array
       const extractedReferences = Array.from(uniqueReferences.values());
       
-      // Add the extracted references to our references array
-      references.push(...extractedReferences);
+      // Ordered by document number, so the list matches the numbering of the prompt. Cited passages
+      // come before Sources-section entries for the same document.
+      const citedDocuments = new Set(extractedReferences.map(ref => ref.docIndex));
+      const sourcesReferences = references.filter(ref => !citedDocuments.has(ref.docIndex));
+      const orderedReferences = [...extractedReferences, ...sourcesReferences].sort((a, b) => a.docIndex - b.docIndex);
       
       // Remove the Sources section from the response text
       if (sourcesMatch) {
@@ -571,11 +702,11 @@ export const aiService = {
       }
       
       // 7. Return the AI response with references
-      console.log(`Returning AI response with ${references.length} references`);
+      console.log(`Returning AI response with ${orderedReferences.length} references`);
       
       // Log the references for debugging
-      if (references.length > 0) {
-        console.log('References:', references.map(ref => ({
+      if (orderedReferences.length > 0) {
+        console.log('References:', orderedReferences.map(ref => ({
           fileId: ref.fileId,
           position: ref.position,
           textSnippet: ref.text.substring(0, 50) + (ref.text.length > 50 ? '...' : '')
@@ -586,16 +717,17 @@ export const aiService = {
       
       return {
         text: cleanedResponseText,
-        references,
+        references: orderedReferences,
         isGenericResponse: false
       };
     } catch (error) {
       console.error('Error querying OpenAI:', error);
       
-      // Check for specific error types
-      if (axios.isAxiosError(error) && error.response) {
-        const statusCode = error.response.status;
-        const errorMessage = error.response.data?.error?.message || 'Unknown error';
+      // Check for specific error types (axios errors, or HTTP errors from a streamed request)
+      const statusCode = axios.isAxiosError(error) ? error.response?.status : error.status;
+      
+      if (statusCode) {
+        const errorMessage = (axios.isAxiosError(error) ? error.response.data?.error?.message : error.message) || 'Unknown error';
         
         console.error(`OpenAI API error (${statusCode}): ${errorMessage}`);
         
@@ -647,6 +779,46 @@ export const aiService = {
     }
   },
   
+  /**
+   * Rewrite a follow-up question as a standalone question using the chat history
+   * @param query The user's latest question
+   * @param history Earlier messages in the chat, oldest first
+   * @returns A question that can be searched without the history
+   */
+  async condenseQuery(query: string, history: ChatHistoryMessage[]): Promise<string> {
+    const recentHistory = selectHistoryWithinBudget(history, 500);
+    
+    if (recentHistory.length === 0) {
+      return query;
+    }
+    
+    try {
+      const responseText = await llmProvider.createChatCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: 'Given a conversation and a follow-up question, rewrite the follow-up question as a standalone question that can be understood without the conversation. Keep the original language. If it is already standalone, return it unchanged. Reply with the question only.'
+          },
+          {
+            role: 'user',
+            content: `Conversation:\n${recentHistory.map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`).join('\n')}\n\nFollow-up question: ${query}`
+          }
+        ],
+        temperature: 0,
+        max_tokens: 100
+      });
+      
+      const condensed = responseText.trim();
+      console.log(`Condensed follow-up question: "${query}" -> "${condensed}"`);
+      
+      return condensed || query;
+    } catch (error) {
+      console.error('Error condensing follow-up question:', error);
+      // Fall back to searching with the original question
+      return query;
+    }
+  },
+  
   /**
    * Generate study notes from chat history
    * @param messages Array of chat messages
@@ -654,16 +826,10 @@ export const aiService = {
    */
   async generateStudyNotes(messages: { content: string; isUser: boolean }[]): Promise<string> {
     try {
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      
-      if (!apiKey) {
-        throw new Error('OpenAI API key is not set in environment variables');
-      }
-      
       // Filter out system messages and format the conversation
       const conversation = messages
         .filter(msg => msg.content.trim().length > 0)
-        .map(msg => ({
+        .map((msg): ChatMessage => ({
           role: msg.isUser ? 'user' : 'assistant',
           content: msg.content
         }));
@@ -700,30 +866,21 @@ export const aiService = {
         - **Term 2**: Definition
       `;
       
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-3.5-turbo',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            ...truncatedConversation,
-            { 
-              role: 'user', 
-              content: 'Please generate well-structured study notes based on our conversation above.'
-            }
-          ],
-          temperature: 0.5,
-          max_tokens: 2000
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
+      const responseText = await llmProvider.createChatCompletion({
+        messages: [
+          { role: 'system', content: systemPrompt },
+          ...truncatedConversation,
+          { 
+            role: 'user', 
+            content: 'Please generate well-structured study notes based on our conversation above.'
           }
-        }
-      );
+        ],
+        model: userSettingsService.getActiveAISettings().notes_model,
+        temperature: userSettingsService.getActiveAISettings().temperature,
+        max_tokens: userSettingsService.getActiveAISettings().notes_max_tokens
+      });
       
-      return response.data.choices[0].message.content;
+      return responseText;
     } catch (error) {
       console.error('Error generating study notes:', error);
       
@@ -0,0 +1,358 @@
+/**
+ * Main content extraction for web pages
+ * Every block of the page is scored by how much prose it holds (text length, commas, link
+ * density and class/id hints), and the best block is kept with the siblings that belong to it.
+ * Navigation, sidebars, comments and footers score low and are left out.
+ */
+
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+export interface ArticleMetadata {
+  author: string | null;
+  publishedAt: string | null;
+  canonicalUrl: string;
+  siteName: string | null;
+  description: string | null;
+  language: string | null;
+}
+
+export interface ExtractedArticle {
+  title: string;
+  markdown: string;
+  metadata: ArticleMetadata;
+}
+
+// Pages with less text than this in the best block are converted whole
+const MIN_ARTICLE_WORDS = 50;
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const REMOVED_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button', 'input',
+  'select', 'textarea', 'nav', 'aside', 'footer', 'dialog', '[hidden]', '[aria-hidden="true"]',
+  '[role="navigation"]', '[role="banner"]', '[role="complementary"]', '[role="contentinfo"]', '[role="dialog"]'
+].join(', ');
+
+// Class and id hints for blocks that are rarely the article, unless they also look like content
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumb|combx|comment|community|cookie|consent|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|toolbar|widget/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|post|shadow|text/i;
+const POSITIVE_HINTS = /article|blog|body|content|entry|hentry|h-entry|main|page|post|prose|story|text/i;
+const NEGATIVE_HINTS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|byline|combx|comment|com-|contact|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+// Tags that are elements of an article rather than containers of one
+const KEPT_TAGS = new Set(['body', 'html', 'main', 'article', 'a', 'table', 'tbody', 'tr', 'td', 'th', 'pre', 'code']);
+
+const TAG_SCORES: Record<string, number> = {
+  div: 5,
+  article: 5,
+  main: 5,
+  section: 3,
+  pre: 3,
+  td: 3,
+  blockquote: 3,
+  address: -3,
+  ol: -3,
+  ul: -3,
+  dl: -3,
+  dd: -3,
+  dt: -3,
+  li: -3,
+  form: -3,
+  th: -5,
+  h1: -5,
+  h2: -5,
+  h3: -5,
+  h4: -5,
+  h5: -5,
+  h6: -5
+};
+
+const BLOCK_SELECTOR = 'address, article, blockquote, div, dl, figure, h1, h2, h3, h4, h5, h6, ol, p, pre, section, table, ul';
+
+const getText = (element: Element): string => (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+const getHints = (element: Element): string => `${element.getAttribute('class') || ''} ${element.id || ''}`;
+
+// +/-25 for class and id names that suggest content or clutter
+const getClassWeight = (element: Element): number => {
+  const hints = getHints(element);
+  let weight = 0;
+  if (NEGATIVE_HINTS.test(hints)) weight -= 25;
+  if (POSITIVE_HINTS.test(hints)) weight += 25;
+  return weight;
+};
+
+// Share of an element's text that sits inside links
+const getLinkDensity = (element: Element): number => {
+  const length = getText(element).length;
+  if (length === 0) return 0;
+  
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((total, link) => total + getText(link).length, 0);
+  return linkLength / length;
+};
+
+const toAbsoluteUrl = (href: string, base: string): string | null => {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Copy the page body without scripts, forms, navigation and blocks that are unlikely to be content
+ */
+function prepareBody(doc: Document, url: string): HTMLElement {
+  const body = (doc.body || doc.documentElement).cloneNode(true) as HTMLElement;
+  
+  body.querySelectorAll(REMOVED_SELECTOR).forEach(element => element.remove());
+  
+  Array.from(body.querySelectorAll('*')).forEach(element => {
+    // Already removed with an ancestor
+    if (!body.contains(element)) return;
+    
+    const hints = getHints(element);
+    if (UNLIKELY_CANDIDATES.test(hints) && !MAYBE_CANDIDATE.test(hints) && !KEPT_TAGS.has(element.tagName.toLowerCase())) {
+      element.remove();
+    }
+  });
+  
+  // Links in the markdown should still work outside the page
+  body.querySelectorAll('a[href]').forEach(link => {
+    const href = link.getAttribute('href') || '';
+    if (href.startsWith('#')) return;
+    
+    const absolute = toAbsoluteUrl(href, url);
+    if (absolute) {
+      link.setAttribute('href', absolute);
+    } else {
+      link.removeAttribute('href');
+    }
+  });
+  
+  return body;
+}
+
+/**
+ * Score the containers of every paragraph, giving most to the parent and less to
+ * ancestors further up
+ */
+function scoreCandidates(body: HTMLElement): Map<Element, number> {
+  const scores = new Map<Element, number>();
+  
+  const paragraphs = Array.from(body.querySelectorAll('p, pre, td, blockquote, div'))
+    // Divs only count as paragraphs when they hold text directly
+    .filter(element => element.tagName.toLowerCase() !== 'div' || !element.querySelector(BLOCK_SELECTOR));
+  
+  for (const paragraph of paragraphs) {
+    const text = getText(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+    
+    const score = 1 + (text.split(/[,，、]/).length - 1) + Math.min(Math.floor(text.length / 100), 3);
+    
+    let ancestor = paragraph.parentElement;
+    for (let level = 0; ancestor && level < 3; level++) {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, (TAG_SCORES[ancestor.tagName.toLowerCase()] || 0) + getClassWeight(ancestor));
+      }
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+      ancestor = ancestor.parentElement;
+    }
+  }
+  
+  // Blocks that are mostly links are menus and link lists, however long they are
+  for (const [element, score] of scores) {
+    scores.set(element, score * (1 - getLinkDensity(element)));
+  }
+  
+  return scores;
+}
+
+/**
+ * The best scoring block, together with the siblings that look like part of the same article
+ */
+function selectContent(body: HTMLElement, scores: Map<Element, number>): HTMLElement {
+  let top: Element | null = null;
+  for (const [element, score] of scores) {
+    if (!top || score > scores.get(top)!) {
+      top = element;
+    }
+  }
+  
+  if (!top || top === body) {
+    return body;
+  }
+  
+  const content = body.ownerDocument.createElement('div');
+  const threshold = Math.max(10, scores.get(top)! * 0.2);
+  const siblings = top.parentElement ? Array.from(top.parentElement.children) : [top];
+  
+  for (const sibling of siblings) {
+    let include = sibling === top || (scores.get(sibling) || 0) >= threshold;
+    
+    if (!include && sibling.tagName.toLowerCase() === 'p') {
+      const text = getText(sibling);
+      const linkDensity = getLinkDensity(sibling);
+      include = (text.length > 80 && linkDensity < 0.25) ||
+        (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text));
+    }
+    
+    // The article's title often sits just before its body
+    if (!include && sibling.tagName.toLowerCase() === 'h1') {
+      include = siblings.indexOf(sibling) < siblings.indexOf(top);
+    }
+    
+    if (include) {
+      content.appendChild(sibling.cloneNode(true));
+    }
+  }
+  
+  return content;
+}
+
+/**
+ * Remove leftover link lists, share bars and similar blocks from inside the article
+ */
+function cleanContent(content: HTMLElement): void {
+  Array.from(content.querySelectorAll('div, section, ul, ol, figure')).forEach(element => {
+    if (!content.contains(element) || element.querySelector('pre, table')) return;
+    
+    const text = getText(element);
+    const linkDensity = getLinkDensity(element);
+    const weight = getClassWeight(element);
+    
+    if ((weight < 0 && linkDensity > 0.2) || (linkDensity > 0.5 && text.length < 500)) {
+      element.remove();
+    }
+  });
+}
+
+// Content of the first matching meta tag
+const getMetaContent = (doc: Document, selectors: string[]): string | null => {
+  for (const selector of selectors) {
+    const value = doc.querySelector(selector)?.getAttribute('content')?.trim();
+    if (value) return value;
+  }
+  return null;
+};
+
+// A JSON-LD object, with the fields read here. Values come from the page, so they are checked before use.
+interface JsonLdItem {
+  '@graph'?: unknown;
+  author?: unknown;
+  datePublished?: unknown;
+}
+
+// Objects in the JSON-LD blocks of a page, with @graph lists flattened
+const getJsonLdItems = (doc: Document): JsonLdItem[] => {
+  const items: JsonLdItem[] = [];
+  
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      const queue: unknown[] = Array.isArray(data) ? [...data] : [data];
+      while (queue.length > 0) {
+        const item = queue.shift() as JsonLdItem;
+        if (!item || typeof item !== 'object') continue;
+        items.push(item);
+        if (Array.isArray(item['@graph'])) {
+          queue.push(...item['@graph']);
+        }
+      }
+    } catch {
+      // Invalid JSON-LD is common, ignore it
+    }
+  });
+  
+  return items;
+};
+
+// JSON-LD authors can be a name, a Person object or a list of either
+const getJsonLdAuthor = (author: unknown): string | null => {
+  if (!author) return null;
+  if (typeof author === 'string') return author.trim() || null;
+  if (Array.isArray(author)) {
+    const names = author.map(getJsonLdAuthor).filter(Boolean);
+    return names.length > 0 ? names.join(', ') : null;
+  }
+  const { name } = author as { name?: unknown };
+  return typeof name === 'string' ? name.trim() || null : null;
+};
+
+const toIsoDate = (value: unknown): string | null => {
+  if (!value || (typeof value !== 'string' && typeof value !== 'number')) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Author, publish date, canonical URL and other details a page declares about itself
+ */
+export function extractArticleMetadata(doc: Document, url: string): ArticleMetadata {
+  const jsonLd = getJsonLdItems(doc);
+  const jsonLdArticle: JsonLdItem = jsonLd.find(item => item.author || item.datePublished) || {};
+  
+  // article:author is often a profile URL rather than a name
+  const metaAuthor = getMetaContent(doc, ['meta[name="author"]', 'meta[property="article:author"]', 'meta[name="parsely-author"]']);
+  const author = (metaAuthor && !/^https?:\/\//.test(metaAuthor) ? metaAuthor : null) ||
+    getJsonLdAuthor(jsonLdArticle.author) ||
+    (doc.querySelector('[rel="author"], [itemprop="author"]')?.textContent || '').replace(/\s+/g, ' ').trim() ||
+    null;
+  
+  const publishedAt = toIsoDate(getMetaContent(doc, [
+    'meta[property="article:published_time"]',
+    'meta[itemprop="datePublished"]',
+    'meta[name="date"]',
+    'meta[name="publish-date"]',
+    'meta[name="pubdate"]',
+    'meta[name="dc.date"]'
+  ])) ||
+    toIsoDate(jsonLdArticle.datePublished) ||
+    toIsoDate(doc.querySelector('article time[datetime], time[pubdate], time[datetime]')?.getAttribute('datetime'));
+  
+  const canonicalHref = doc.querySelector('link[rel="canonical"]')?.getAttribute('href') ||
+    getMetaContent(doc, ['meta[property="og:url"]']);
+  
+  return {
+    author,
+    publishedAt,
+    canonicalUrl: (canonicalHref && toAbsoluteUrl(canonicalHref, url)) || url,
+    siteName: getMetaContent(doc, ['meta[property="og:site_name"]', 'meta[name="application-name"]']),
+    description: getMetaContent(doc, ['meta[name="description"]', 'meta[property="og:description"]']),
+    language: doc.documentElement.getAttribute('lang') || null
+  };
+}
+
+/**
+ * Extract the main content of a page as markdown, with the page's metadata
+ */
+export function extractArticle(doc: Document, url: string): ExtractedArticle {
+  const title = getMetaContent(doc, ['meta[property="og:title"]', 'meta[name="twitter:title"]']) ||
+    doc.title.trim() ||
+    (doc.querySelector('h1')?.textContent || '').replace(/\s+/g, ' ').trim() ||
+    'Untitled Website';
+  
+  const body = prepareBody(doc, url);
+  const content = selectContent(body, scoreCandidates(body));
+  cleanContent(content);
+  
+  let markdown = htmlToMarkdown(content);
+  
+  if (markdown.split(/\s+/).filter(Boolean).length < MIN_ARTICLE_WORDS) {
+    // Short pages and unusual layouts: keep everything that survived the clean-up
+    console.log('[Article Extraction] Little content in the best block, using the whole page');
+    markdown = htmlToMarkdown(body);
+  }
+  
+  // Start with the title as the top heading, unless the article already has one
+  if (!/^# /m.test(markdown)) {
+    markdown = `# ${title}\n\n${markdown}`;
+  }
+  
+  return {
+    title,
+    markdown: markdown.replace(/\n{3,}/g, '\n\n').trim(),
+    metadata: extractArticleMetadata(doc, url)
+  };
+}
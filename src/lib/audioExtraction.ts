@@ -0,0 +1,160 @@
+/**
+ * Audio extraction utilities for Sattva AI
+ * Runs ffmpeg.wasm in its own web worker to pull a compact mono audio track (or a stretch
+ * of it) out of video and large audio files before they are sent for transcription
+ */
+
+import { FFmpeg, FFFSType } from '@ffmpeg/ffmpeg';
+import type { LogEvent, ProgressEvent } from '@ffmpeg/ffmpeg';
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+
+// 16kHz mono MP3 at 32kbps: about 14MB per hour, so most lectures fit in one Whisper request
+const OUTPUT_ARGS = ['-vn', '-ac', '1', '-ar', '16000', '-c:a', 'libmp3lame', '-b:a', '32k'];
+const INPUT_DIR = '/input';
+const OUTPUT_FILE = 'audio.mp3';
+
+// Transcription segments as 16kHz mono 16-bit WAV: ten minutes is about 19MB, below Whisper's upload limit
+const SEGMENT_ARGS = ['-vn', '-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le'];
+const SEGMENT_FILE = 'segment.wav';
+
+// Share one instance, since loading the ~30MB core is the slow part
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+
+// Commands waiting for the shared instance
+let queue: Promise<unknown> = Promise.resolve();
+
+const getFFmpeg = (): Promise<FFmpeg> => {
+  if (!ffmpegPromise) {
+    console.log('[Audio Extraction] Loading ffmpeg.wasm');
+    const ffmpeg = new FFmpeg();
+    ffmpegPromise = ffmpeg.load({ coreURL, wasmURL })
+      .then(() => ffmpeg)
+      .catch(error => {
+        ffmpegPromise = null;
+        throw error;
+      });
+  }
+  return ffmpegPromise;
+};
+
+// Read "Duration: 01:02:03.45" from ffmpeg's log output
+const parseDuration = (message: string): number | null => {
+  const match = message.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  return match ? parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]) : null;
+};
+
+// WORKERFS only mounts files, so blobs (e.g. downloaded YouTube audio) are wrapped without copying
+const toFile = (media: Blob): File => media instanceof File ? media : new File([media], 'media', { type: media.type });
+
+// Run ffmpeg on a mounted input and return the output file, or null when ffmpeg writes none
+async function runFFmpeg(
+  media: Blob,
+  buildArgs: (input: string) => string[],
+  outputFile: string | null,
+  onProgress?: (ratio: number) => void,
+  onLog?: (message: string) => void
+): Promise<Uint8Array | null> {
+  const ffmpeg = await getFFmpeg();
+  const file = toFile(media);
+  let duration: number | null = null;
+  
+  const handleLog = ({ message }: LogEvent) => {
+    duration = duration ?? parseDuration(message);
+    onLog?.(message);
+  };
+  
+  // ffmpeg's own ratio is unreliable when the video stream is dropped, so prefer time / duration
+  const handleProgress = ({ progress, time }: ProgressEvent) => {
+    const ratio = duration ? time / 1_000_000 / duration : progress;
+    onProgress?.(Math.min(Math.max(ratio, 0), 1));
+  };
+  
+  ffmpeg.on('log', handleLog);
+  ffmpeg.on('progress', handleProgress);
+  
+  // Mount the file instead of copying it, so large videos aren't held in worker memory twice
+  await ffmpeg.createDir(INPUT_DIR);
+  await ffmpeg.mount(FFFSType.WORKERFS, { files: [file] }, INPUT_DIR);
+  
+  try {
+    const exitCode = await ffmpeg.exec(buildArgs(`${INPUT_DIR}/${file.name}`));
+    if (!outputFile) return null;
+    if (exitCode !== 0) {
+      throw new Error(`ffmpeg exited with code ${exitCode}. The file may have no audio track.`);
+    }
+    
+    const data = await ffmpeg.readFile(outputFile);
+    await ffmpeg.deleteFile(outputFile);
+    onProgress?.(1);
+    
+    return data as Uint8Array;
+  } finally {
+    ffmpeg.off('log', handleLog);
+    ffmpeg.off('progress', handleProgress);
+    await ffmpeg.unmount(INPUT_DIR).catch(() => undefined);
+    await ffmpeg.deleteDir(INPUT_DIR).catch(() => undefined);
+  }
+}
+
+// ffmpeg runs one command at a time, so jobs are queued
+const enqueue = <T>(run: () => Promise<T>): Promise<T> => {
+  const job = queue.then(run);
+  queue = job.catch(() => undefined);
+  return job;
+};
+
+/**
+ * Extract the audio track of a video or audio file as compact mono MP3
+ * @param onProgress Called with the fraction of the file processed, 0-1
+ */
+export function extractAudio(file: File, onProgress?: (ratio: number) => void): Promise<Blob> {
+  return enqueue(async () => {
+    const data = await runFFmpeg(file, input => ['-i', input, ...OUTPUT_ARGS, OUTPUT_FILE], OUTPUT_FILE, onProgress);
+    return new Blob([data], { type: 'audio/mpeg' });
+  });
+}
+
+/**
+ * Duration of an audio or video file in seconds, read from the file's header
+ */
+export function getMediaDuration(media: Blob): Promise<number> {
+  return enqueue(async () => {
+    let duration: number | null = null;
+    // Without an output ffmpeg only reads the header and exits with an error, which is expected
+    await runFFmpeg(media, input => ['-i', input], null, undefined, message => {
+      duration = duration ?? parseDuration(message);
+    });
+    
+    if (duration === null) {
+      throw new Error('Could not read the duration of this file');
+    }
+    return duration;
+  });
+}
+
+/**
+ * Decode one stretch of an audio or video file as 16kHz mono WAV. Only that stretch is
+ * decoded, so long recordings never have to fit in memory as a whole.
+ */
+export function extractAudioSegment(media: Blob, start: number, duration: number): Promise<Blob> {
+  return enqueue(async () => {
+    const data = await runFFmpeg(
+      media,
+      input => ['-ss', String(start), '-t', String(duration), '-i', input, ...SEGMENT_ARGS, SEGMENT_FILE],
+      SEGMENT_FILE
+    );
+    return new Blob([data], { type: 'audio/wav' });
+  });
+}
+
+/**
+ * Stop the shared ffmpeg worker, freeing its memory until it is needed again
+ */
+export async function terminateAudioExtraction(): Promise<void> {
+  if (!ffmpegPromise) return;
+  
+  const ffmpeg = await ffmpegPromise.catch(() => null);
+  ffmpegPromise = null;
+  ffmpeg?.terminate();
+}
@@ -7,13 +7,18 @@ export class AudioRecorder {
   private stream: MediaStream | null = null;
   private onDataAvailable: ((chunk: Blob) => void) | null = null;
   private recordingInterval: number | null = null;
+  private audioContext: AudioContext | null = null;
 
   /**
    * Start recording audio from the user's microphone
    * @param onDataAvailable Optional callback for real-time audio chunks
+   * @param onSamples Optional callback for raw mono samples, for processing the audio while recording
    * @returns A promise that resolves when recording starts
    */
-  async startRecording(onDataAvailable?: (chunk: Blob) => void): Promise<void> {
+  async startRecording(
+    onDataAvailable?: (chunk: Blob) => void,
+    onSamples?: (samples: Float32Array, sampleRate: number) => void
+  ): Promise<void> {
     try {
       // Request microphone access
       this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -48,11 +53,22 @@ export class AudioRecorder {
       // Set up an interval to check audio levels for visualization
       if (this.stream) {
         const audioContext = new AudioContext();
+        this.audioContext = audioContext;
         const source = audioContext.createMediaStreamSource(this.stream);
         const analyser = audioContext.createAnalyser();
         analyser.fftSize = 256;
         source.connect(analyser);
         
+        if (onSamples) {
+          // The processor only runs while connected to the destination; it outputs silence
+          const processor = audioContext.createScriptProcessor(4096, 1, 1);
+          processor.onaudioprocess = (event) => {
+            onSamples(new Float32Array(event.inputBuffer.getChannelData(0)), audioContext.sampleRate);
+          };
+          source.connect(processor);
+          processor.connect(audioContext.destination);
+        }
+        
         const bufferLength = analyser.frequencyBinCount;
         const dataArray = new Uint8Array(bufferLength);
         
@@ -107,6 +123,12 @@ export class AudioRecorder {
           this.stream = null;
         }
         
+        // Release the audio context used for levels and samples
+        if (this.audioContext) {
+          this.audioContext.close().catch(() => undefined);
+          this.audioContext = null;
+        }
+        
         // Clear the callback
         this.onDataAvailable = null;
         
@@ -0,0 +1,21 @@
+import { supabase } from './supabase';
+
+// Base URL of the backend functions in /api (same origin by default)
+export const BACKEND_API_URL = (import.meta.env.VITE_API_BASE_URL || '/api').replace(/\/+$/, '');
+
+/**
+ * Headers for a backend request, authenticated with the current Supabase session.
+ * The backend owns the provider keys and checks this token before using them.
+ */
+export async function getBackendHeaders(contentType?: string): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  
+  if (!session) {
+    throw new Error('You must be signed in to use AI features');
+  }
+  
+  return {
+    'Authorization': `Bearer ${session.access_token}`,
+    ...(contentType ? { 'Content-Type': contentType } : {})
+  };
+}
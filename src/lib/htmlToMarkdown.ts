@@ -0,0 +1,237 @@
+/**
+ * HTML to markdown conversion for extracted documents
+ * Keeps the structure that matters for search and citations: headings, lists, tables,
+ * code, quotes, links and emphasis. Everything else is reduced to its text.
+ */
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'figure', 'footer', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'img', 'svg', 'iframe', 'head']);
+
+// Collapse whitespace the way a browser renders inline text
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ');
+
+// Convert the inline content of an element (text, emphasis, links, line breaks)
+function inlineToMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return collapseWhitespace(node.textContent || '');
+  }
+  
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+  
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  
+  if (SKIPPED_TAGS.has(tag)) {
+    return '';
+  }
+  
+  if (tag === 'br') {
+    return '\n';
+  }
+  
+  const content = Array.from(element.childNodes).map(inlineToMarkdown).join('');
+  const trimmed = content.trim();
+  
+  if (!trimmed) {
+    return content;
+  }
+  
+  switch (tag) {
+    case 'strong':
+    case 'b':
+      return `**${trimmed}**`;
+    case 'em':
+    case 'i':
+      return `*${trimmed}*`;
+    case 'code':
+      return `\`${trimmed}\``;
+    case 'a': {
+      const href = element.getAttribute('href') || '';
+      // Internal anchors (footnotes, bookmarks) are kept as plain text
+      return href && !href.startsWith('#') && !href.startsWith('javascript:') ? `[${trimmed}](${href})` : content;
+    }
+    default:
+      return content;
+  }
+}
+
+// Convert a list, indenting nested lists under their item
+function listToMarkdown(list: Element, depth: number): string {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  let number = parseInt(list.getAttribute('start') || '1', 10) || 1;
+  
+  for (const item of Array.from(list.children)) {
+    if (item.tagName.toLowerCase() !== 'li') continue;
+    
+    const inlineParts: string[] = [];
+    const nestedLists: string[] = [];
+    
+    for (const child of Array.from(item.childNodes)) {
+      const childTag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).tagName.toLowerCase() : '';
+      if (childTag === 'ul' || childTag === 'ol') {
+        nestedLists.push(listToMarkdown(child as Element, depth + 1));
+      } else if (childTag === 'p' || childTag === 'div') {
+        inlineParts.push(inlineToMarkdown(child).trim());
+      } else {
+        inlineParts.push(inlineToMarkdown(child));
+      }
+    }
+    
+    const marker = ordered ? `${number++}.` : '-';
+    const text = collapseWhitespace(inlineParts.join(' ')).trim();
+    lines.push(`${indent}${marker} ${text}`);
+    lines.push(...nestedLists.filter(Boolean));
+  }
+  
+  return lines.join('\n');
+}
+
+// Convert a table to a GFM table, using the first row as the header
+function tableToMarkdown(table: Element): string {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .map(row => Array.from(row.children)
+      .filter(cell => ['td', 'th'].includes(cell.tagName.toLowerCase()))
+      .map(cell => collapseWhitespace(
+        Array.from(cell.childNodes).map(inlineToMarkdown).join(' ')
+      ).trim().replace(/\|/g, '\\|')))
+    .filter(cells => cells.length > 0);
+  
+  if (rows.length === 0) {
+    return '';
+  }
+  
+  const columnCount = Math.max(...rows.map(cells => cells.length));
+  const toRow = (cells: string[]) =>
+    `| ${Array.from({ length: columnCount }, (_, i) => cells[i] || '').join(' | ')} |`;
+  
+  return [
+    toRow(rows[0]),
+    `| ${Array(columnCount).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map(toRow)
+  ].join('\n');
+}
+
+// Convert the children of an element into markdown blocks
+function blocksToMarkdown(parent: Node): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+  
+  const flushInline = () => {
+    const text = inline
+      .split('\n')
+      .map(line => line.trim())
+      .join('\n')
+      .trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+  
+  for (const node of Array.from(parent.childNodes)) {
+    const tag = node.nodeType === Node.ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : '';
+    
+    if (!BLOCK_TAGS.has(tag)) {
+      inline += inlineToMarkdown(node);
+      continue;
+    }
+    
+    flushInline();
+    const element = node as Element;
+    
+    if (/^h[1-6]$/.test(tag)) {
+      const text = collapseWhitespace(inlineToMarkdown(element)).trim();
+      if (text) blocks.push(`${'#'.repeat(parseInt(tag[1], 10))} ${text}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const list = listToMarkdown(element, 0);
+      if (list) blocks.push(list);
+    } else if (tag === 'table') {
+      const table = tableToMarkdown(element);
+      if (table) blocks.push(table);
+    } else if (tag === 'pre') {
+      const code = (element.textContent || '').replace(/\n+$/, '');
+      const language = element.querySelector('code')?.className.match(/language-(\S+)/)?.[1] || '';
+      if (code.trim()) blocks.push(`\`\`\`${language}\n${code}\n\`\`\``);
+    } else if (tag === 'blockquote') {
+      const quote = blocksToMarkdown(element).join('\n\n');
+      if (quote) blocks.push(quote.split('\n').map(line => `> ${line}`.trimEnd()).join('\n'));
+    } else if (tag === 'hr') {
+      blocks.push('---');
+    } else {
+      blocks.push(...blocksToMarkdown(element));
+    }
+  }
+  
+  flushInline();
+  return blocks;
+}
+
+/**
+ * Convert an HTML string or element to markdown
+ */
+export function htmlToMarkdown(html: string | Element): string {
+  const root = typeof html === 'string'
+    ? new DOMParser().parseFromString(html, 'text/html').body
+    : html;
+  
+  return blocksToMarkdown(root).join('\n\n');
+}
+
+// A numbered heading in an extracted document, e.g. { number: '3.2', title: 'Results', level: 2 }
+export interface DocumentSection {
+  number: string;
+  title: string;
+  level: number;
+}
+
+/**
+ * Number the markdown headings of a document ("## Results" becomes "## 3.2 Results")
+ * so chunks and citations can refer to a section. Headings that already carry a number keep it.
+ */
+export function numberMarkdownSections(markdown: string): { text: string; sections: DocumentSection[] } {
+  const sections: DocumentSection[] = [];
+  const headingLevels = Array.from(markdown.matchAll(/^(#{1,6}) /gm)).map(match => match[1].length);
+  const topLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : 1;
+  const counters: number[] = [];
+  let inCodeBlock = false;
+  
+  const text = markdown.split('\n').map(line => {
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+    
+    const match = !inCodeBlock && line.match(/^(#{1,6}) (.+)$/);
+    if (!match) {
+      return line;
+    }
+    
+    const level = match[1].length - topLevel + 1;
+    const explicitNumber = match[2].match(/^(\d+(?:\.\d+)*)\.?\s+(.+)$/);
+    
+    if (explicitNumber) {
+      // Follow the document's own numbering so later headings continue from it
+      counters.length = 0;
+      counters.push(...explicitNumber[1].split('.').map(Number));
+    } else {
+      counters.length = Math.min(counters.length, level);
+      while (counters.length < level) {
+        counters.push(counters.length === level - 1 ? 0 : 1);
+      }
+      counters[level - 1]++;
+    }
+    
+    const number = explicitNumber ? explicitNumber[1] : counters.join('.');
+    const title = explicitNumber ? explicitNumber[2] : match[2];
+    sections.push({ number, title, level });
+    
+    return `${match[1]} ${number} ${title}`;
+  }).join('\n');
+  
+  return { text, sections };
+}
@@ -0,0 +1,325 @@
+import { supabase } from './supabase';
+import type { FileRecord } from './supabase';
+import { knowledgebaseService } from './knowledgebaseService';
+import { extractTextFromFile, extractTextFromYouTube } from './textExtraction';
+import type { YoutubeCollection, YoutubeCollectionVideo } from './youtubeService';
+
+// Attempts per file, counted across sessions
+export const MAX_INGESTION_ATTEMPTS = 3;
+
+// YouTube videos of a bulk import processed at the same time
+const YOUTUBE_IMPORT_CONCURRENCY = 2;
+
+// A job still marked as processing after this long was abandoned, e.g. by a closed tab
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+// How often a running job refreshes updated_at, so long transcriptions and OCR runs aren't taken as abandoned
+const HEARTBEAT_MS = 60 * 1000;
+
+type IngestionListener = (file: FileRecord) => void;
+
+const listeners = new Set<IngestionListener>();
+
+// Files being processed in this tab
+const activeJobs = new Set<string>();
+
+const notify = (file: FileRecord) => {
+  listeners.forEach(listener => listener(file));
+};
+
+const getErrorMessage = (error: unknown): string => {
+  const { response, message } = (error || {}) as { response?: { data?: { error?: { message?: string } } }; message?: string };
+  return response?.data?.error?.message || message || 'Unknown error';
+};
+
+// Update a file row and tell listeners about the new state
+async function updateFile(fileId: string, changes: Partial<FileRecord>): Promise<FileRecord> {
+  const { data, error } = await supabase
+    .from('files')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', fileId)
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error updating ingestion status:', error);
+    throw error;
+  }
+  
+  notify(data);
+  return data;
+}
+
+/**
+ * Background ingestion of uploaded files and imported YouTube videos. The original (or the video's
+ * URL) is stored first, so a job that is interrupted (closed tab, network loss) is picked up again
+ * the next time the app loads.
+ * Extraction, chunking and embedding are retried, and their status is written to the file row.
+ */
+export const ingestionService = {
+  /**
+   * Listen for status changes of files processed in this tab
+   */
+  subscribe(listener: IngestionListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+  
+  /**
+   * Store the original file, create a pending file record and start processing it
+   */
+  async enqueueFile(userId: string, knowledgebaseId: string, file: File): Promise<FileRecord> {
+    const path = await knowledgebaseService.uploadOriginalFile(userId, knowledgebaseId, file);
+    
+    const { data, error } = await supabase
+      .from('files')
+      .insert([
+        {
+          user_id: userId,
+          knowledgebase_id: knowledgebaseId,
+          name: file.name,
+          type: file.type,
+          size: file.size,
+          path,
+          content_text: '',
+          content_length: 0,
+          extraction_status: 'pending',
+          extraction_attempts: 0,
+          metadata: {}
+        }
+      ])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating file record:', error);
+      throw error;
+    }
+    
+    notify(data);
+    
+    // Don't keep the caller waiting on extraction
+    this.processFile(data).catch(processError => {
+      console.error(`Error processing file ${data.id}:`, processError);
+    });
+    
+    return data;
+  },
+  
+  /**
+   * Create pending file records for videos of a playlist or channel and process them in the background.
+   * finished resolves once every video has been processed or has failed.
+   */
+  async enqueueYoutubeVideos(
+    userId: string,
+    knowledgebaseId: string,
+    videos: YoutubeCollectionVideo[],
+    collection: Pick<YoutubeCollection, 'type' | 'id' | 'title'>
+  ): Promise<{ files: FileRecord[]; finished: Promise<void> }> {
+    const { data, error } = await supabase
+      .from('files')
+      .insert(videos.map(video => ({
+        user_id: userId,
+        knowledgebase_id: knowledgebaseId,
+        name: video.title,
+        type: 'youtube',
+        size: 0,
+        source_url: `https://www.youtube.com/watch?v=${video.videoId}`,
+        content_text: '',
+        content_length: 0,
+        extraction_status: 'pending',
+        extraction_attempts: 0,
+        metadata: {
+          source_type: 'youtube',
+          title: video.title,
+          video_id: video.videoId,
+          channel: video.channelName,
+          published_at: video.publishedAt,
+          thumbnail_url: video.thumbnailUrl,
+          playlist: { type: collection.type, id: collection.id, title: collection.title }
+        }
+      })))
+      .select();
+    
+    if (error) {
+      console.error('Error creating YouTube file records:', error);
+      throw error;
+    }
+    
+    const files: FileRecord[] = data || [];
+    files.forEach(notify);
+    
+    // A few videos at a time, each one is a transcript fetch and a round of embeddings
+    const queue = [...files];
+    const worker = async () => {
+      while (queue.length > 0) {
+        const file = queue.shift()!;
+        try {
+          await this.processFile(file);
+        } catch (processError) {
+          console.error(`Error processing file ${file.id}:`, processError);
+        }
+      }
+    };
+    const finished = Promise.all(Array.from({ length: YOUTUBE_IMPORT_CONCURRENCY }, worker)).then(() => undefined);
+    
+    return { files, finished };
+  },
+  
+  /**
+   * Claim a pending (or abandoned) file and extract, chunk and embed it, retrying on failure
+   */
+  async processFile(file: FileRecord): Promise<void> {
+    if (activeJobs.has(file.id) || (!file.path && !file.source_url)) return;
+    
+    // Only one tab may process a file: claim it by moving it to processing
+    const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+    let claim = supabase
+      .from('files')
+      .update({ extraction_status: 'processing', updated_at: new Date().toISOString() })
+      .eq('id', file.id);
+    claim = file.extraction_status === 'processing'
+      ? claim.eq('extraction_status', 'processing').lt('updated_at', staleBefore)
+      : claim.eq('extraction_status', 'pending');
+    
+    const { data: claimed, error: claimError } = await claim.select().maybeSingle();
+    if (claimError) throw claimError;
+    if (!claimed) return;
+    
+    activeJobs.add(file.id);
+    notify(claimed);
+    
+    // Keep the claim fresh while this tab works on the file
+    const heartbeat = setInterval(() => {
+      supabase
+        .from('files')
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', file.id)
+        .eq('extraction_status', 'processing')
+        .then(({ error }) => {
+          if (error) console.error('Error refreshing ingestion claim:', error);
+        });
+    }, HEARTBEAT_MS);
+    
+    try {
+      let attempts = claimed.extraction_attempts || 0;
+      
+      while (attempts < MAX_INGESTION_ATTEMPTS) {
+        attempts++;
+        
+        try {
+          await updateFile(file.id, { extraction_status: 'processing', extraction_attempts: attempts });
+          
+          const content = claimed.path
+            ? await extractTextFromFile(new File(
+                [await knowledgebaseService.downloadOriginalFile(claimed.path)],
+                claimed.name,
+                { type: claimed.type }
+              ))
+            : await extractTextFromYouTube(claimed.source_url!, claimed.name);
+          
+          if (!content.text.trim()) {
+            throw new Error('No text could be extracted from this file');
+          }
+          
+          const updated = await updateFile(file.id, {
+            content_text: content.text,
+            content_length: content.text.length,
+            metadata: { ...(claimed.metadata || {}), ...content.metadata },
+            // Imported videos can be re-synced from their URL like ones added one by one
+            ...(claimed.source_url ? {
+              size: content.text.length,
+              content_hash: await knowledgebaseService.hashContent(content.text),
+              last_synced_at: new Date().toISOString()
+            } : {})
+          });
+          
+          // Throws when chunks can't be embedded, so the attempt is retried rather than completed
+          await knowledgebaseService.indexFileChunks(updated);
+          
+          await updateFile(file.id, { extraction_status: 'completed', extraction_error: null });
+          console.log(`[Ingestion] Processed ${claimed.name} on attempt ${attempts}`);
+          return;
+        } catch (error) {
+          const message = getErrorMessage(error);
+          console.error(`[Ingestion] Attempt ${attempts} failed for ${claimed.name}:`, error);
+          
+          if (attempts >= MAX_INGESTION_ATTEMPTS) {
+            await updateFile(file.id, { extraction_status: 'failed', extraction_error: message });
+            return;
+          }
+          
+          await updateFile(file.id, { extraction_error: message });
+          // Back off before retrying: 2s, 4s...
+          await new Promise(resolve => setTimeout(resolve, 2000 * 2 ** (attempts - 1)));
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+      activeJobs.delete(file.id);
+    }
+  },
+  
+  /**
+   * Try a failed file again from the start
+   */
+  async retryFile(fileId: string): Promise<void> {
+    const file = await updateFile(fileId, {
+      extraction_status: 'pending',
+      extraction_attempts: 0,
+      extraction_error: null
+    });
+    
+    await this.processFile(file);
+  },
+  
+  /**
+   * Resume the user's unfinished jobs, e.g. ones interrupted by closing the tab
+   */
+  async resumePendingJobs(userId: string): Promise<void> {
+    // A job abandoned on its last attempt can't be resumed; fail it so it can be retried by hand
+    const { data: abandoned, error: abandonedError } = await supabase
+      .from('files')
+      .update({
+        extraction_status: 'failed',
+        extraction_error: 'Processing was interrupted on the last attempt',
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+      .eq('extraction_status', 'processing')
+      .gte('extraction_attempts', MAX_INGESTION_ATTEMPTS)
+      .lt('updated_at', new Date(Date.now() - STALE_JOB_MS).toISOString())
+      .select();
+    
+    if (abandonedError) {
+      console.error('Error failing abandoned ingestion jobs:', abandonedError);
+      throw abandonedError;
+    }
+    (abandoned || []).forEach(notify);
+    
+    const { data, error } = await supabase
+      .from('files')
+      .select('*')
+      .eq('user_id', userId)
+      .in('extraction_status', ['pending', 'processing'])
+      .or('path.not.is.null,source_url.not.is.null')
+      .lt('extraction_attempts', MAX_INGESTION_ATTEMPTS)
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching pending ingestion jobs:', error);
+      throw error;
+    }
+    
+    // One at a time, extraction is heavy on the browser
+    for (const file of data || []) {
+      try {
+        await this.processFile(file);
+      } catch (processError) {
+        console.error(`Error resuming file ${file.id}:`, processError);
+      }
+    }
+  }
+};
@@ -1,6 +1,39 @@
 import { supabase } from './supabase';
-import type { Knowledgebase, FileRecord } from './supabase';
-import axios from 'axios';
+import type { Knowledgebase, FileRecord, FileChunk, ChunkMetadata, SearchSettings } from './supabase';
+import { getChapterAt } from './youtubeService';
+import { llmProvider } from './llmProvider';
+
+// A chunk returned by searchChunks, with its location in the source file
+export interface ChunkSearchResult {
+  fileId: string;
+  file: FileRecord;
+  chunkIndex: number;
+  score: number; // Similarity, keyword score or fused rank score depending on the search
+  content: string;
+  startOffset: number | null;
+  endOffset: number | null;
+  pageStart?: number;
+  pageEnd?: number;
+  section?: string; // Heading number in structured documents, e.g. "3.2"
+  sectionTitle?: string;
+  startTime?: number;
+  endTime?: number;
+  metadata: ChunkMetadata;
+}
+
+export interface ChunkSearchOptions {
+  topK?: number; // Maximum number of chunks to return
+  maxChunksPerFile?: number; // Maximum number of chunks from any one file
+  minScore?: number; // Similarity threshold, ignored when no chunk reaches it
+  searchSettings?: Partial<SearchSettings>; // Overrides the knowledgebase's fusion weights
+}
+
+// Default weights for fusing vector and full-text search results
+export const DEFAULT_SEARCH_SETTINGS: SearchSettings = {
+  vector_weight: 1,
+  keyword_weight: 1,
+  rrf_k: 60
+};
 
 // Knowledgebase operations
 export const knowledgebaseService = {
@@ -66,12 +99,18 @@ export const knowledgebaseService = {
   /**
    * Update a knowledgebase
    */
-  async updateKnowledgebase(id: string, title: string, description: string): Promise<Knowledgebase> {
+  async updateKnowledgebase(
+    id: string,
+    title: string,
+    description: string,
+    searchSettings?: Partial<SearchSettings>
+  ): Promise<Knowledgebase> {
     const { data, error } = await supabase
       .from('knowledgebases')
       .update({
         title,
         description,
+        ...(searchSettings ? { search_settings: searchSettings } : {}),
         updated_at: new Date(),
       })
       .eq('id', id)
@@ -150,24 +189,73 @@ export const knowledgebaseService = {
     return data as FileRecord;
   },
   
+  /**
+   * Upload an original file to the files bucket and return its storage path
+   */
+  async uploadOriginalFile(userId: string, knowledgebaseId: string, file: Blob): Promise<string> {
+    const fileName = file instanceof File ? file.name : 'blob-file';
+    const filePath = `${userId}/${knowledgebaseId}/${Date.now()}_${fileName}`;
+    
+    const { error } = await supabase.storage
+      .from('files')
+      .upload(filePath, file, {
+        contentType: file.type || 'application/octet-stream'
+      });
+    
+    if (error) {
+      console.error('Error uploading file to storage:', error);
+      throw error;
+    }
+    
+    return filePath;
+  },
+  
+  /**
+   * Get a short-lived URL for a file in the files bucket
+   */
+  async getOriginalFileUrl(path: string, expiresIn: number = 3600): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from('files')
+      .createSignedUrl(path, expiresIn);
+    
+    if (error) {
+      console.error('Error creating file URL:', error);
+      throw error;
+    }
+    
+    return data.signedUrl;
+  },
+  
+  /**
+   * Download a file from the files bucket
+   */
+  async downloadOriginalFile(path: string): Promise<Blob> {
+    const { data, error } = await supabase.storage
+      .from('files')
+      .download(path);
+    
+    if (error) {
+      console.error('Error downloading file:', error);
+      throw error;
+    }
+    
+    return data;
+  },
+  
   /**
    * Upload a file to storage and create a file record
    */
   async uploadFileToStorage(userId: string, knowledgebaseId: string, file: Blob) {
     try {
-      // Generate a unique file path
       const fileName = file instanceof File ? file.name : 'blob-file';
       const fileType = file instanceof File ? file.type : 'application/octet-stream';
       const fileSize = file.size;
-      const filePath = `${userId}/${knowledgebaseId}/${Date.now()}_${fileName}`;
       
       // Upload file to Supabase Storage
-      const { data: storageData, error: storageError } = await supabase.storage
-        .from('files')
-        .upload(filePath, file);
-      
-      if (storageError) {
-        console.error('Error uploading file to storage:', storageError);
+      let filePath: string;
+      try {
+        filePath = await this.uploadOriginalFile(userId, knowledgebaseId, file);
+      } catch (storageError) {
         return { error: storageError };
       }
       
@@ -233,6 +321,14 @@ export const knowledgebaseService = {
           return { error: updateError };
         }
         
+        await this.tryIndexFileChunks({
+          id: fileId,
+          user_id: userId,
+          knowledgebase_id: knowledgebaseId,
+          content_text: contentText,
+          metadata
+        } as FileRecord);
+        
         return { success: true };
       } 
       // If no fileId, create a new file record (for URLs, YouTube videos, etc.)
@@ -259,6 +355,8 @@ export const knowledgebaseService = {
           return { error };
         }
         
+        await this.tryIndexFileChunks(data[0]);
+        
         return { data: data[0], success: true };
       }
     } catch (error) {
@@ -276,7 +374,8 @@ export const knowledgebaseService = {
     fileSize: number,
     sourceUrl: string | null,
     extractedText: string,
-    metadata: any = {}
+    metadata: any = {},
+    storagePath: string | null = null
   ): Promise<FileRecord> {
     console.log(`Adding content to knowledgebase ${knowledgebaseId}`);
     console.log(`Text content length: ${extractedText.length} characters`);
@@ -296,11 +395,17 @@ export const knowledgebaseService = {
           type: fileType,
           size: fileSize,
           source_url: sourceUrl,
+          path: storagePath,
           knowledgebase_id: knowledgebaseId,
           user_id: userId,
           content_text: extractedText,
           content_length: extractedText.length,
           extraction_status: 'completed',
+          // Content fetched from a URL can be synced with its source later
+          ...(sourceUrl ? {
+            content_hash: await this.hashContent(extractedText),
+            last_synced_at: new Date().toISOString()
+          } : {}),
           metadata: metadata
         }
       ])
@@ -313,6 +418,9 @@ export const knowledgebaseService = {
     }
     
     console.log('File record created successfully:', data.id);
+    
+    await this.tryIndexFileChunks(data);
+    
     return data;
   },
   
@@ -388,6 +496,13 @@ export const knowledgebaseService = {
   
   // Delete a file
   async deleteFile(id: string): Promise<void> {
+    // Look up the stored original, if any, before the record is gone
+    const { data: file } = await supabase
+      .from('files')
+      .select('path')
+      .eq('id', id)
+      .maybeSingle();
+    
     // Delete from database
     const { error } = await supabase
       .from('files')
@@ -398,6 +513,17 @@ export const knowledgebaseService = {
       console.error('Error deleting file record:', error);
       throw error;
     }
+    
+    if (file?.path) {
+      const { error: storageError } = await supabase.storage
+        .from('files')
+        .remove([file.path]);
+      
+      if (storageError) {
+        // The record is already gone, so only log the orphaned object
+        console.error('Error deleting file from storage:', storageError);
+      }
+    }
   },
   
   // Search within knowledge base content
@@ -526,162 +652,522 @@ export const knowledgebaseService = {
     return count || 0;
   },
   
-  // Cache for embeddings to avoid redundant API calls
-  embeddingCache: new Map<string, number[]>(),
+  // SHA-256 of a file's text, used to tell whether a re-fetched source changed
+  async hashContent(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  },
   
-  // Optimized semantic search with caching and better chunking
-  async semanticSearchContent(knowledgebaseId: string, query: string): Promise<FileRecord[]> {
+  // Parse a JSON transcript ([{text, start, duration}]) stored in content_text
+  parseTranscript(contentText: string): { text: string; start: number; duration: number }[] | null {
+    if (!contentText || !contentText.trim().startsWith('[')) {
+      return null;
+    }
+    
     try {
-      console.time('semanticSearch');
-      
-      // 1. Get embedding for the query
-      const queryKey = `query:${query}`;
-      let embedding = this.embeddingCache.get(queryKey);
-      
-      if (!embedding) {
-        embedding = await this.getEmbedding(query);
-        if (embedding) {
-          this.embeddingCache.set(queryKey, embedding);
-        }
+      const segments = JSON.parse(contentText);
+      if (Array.isArray(segments) && segments.length > 0 && segments[0].start !== undefined) {
+        return segments;
       }
+    } catch (e) {
+      // Not a transcript
+    }
+    
+    return null;
+  },
+  
+  // Split a file's content into the chunks that get stored in file_chunks
+  buildFileChunks(file: FileRecord, chunkSize: number = 1000, overlap: number = 200): Omit<FileChunk, 'id' | 'file_id' | 'knowledgebase_id' | 'user_id'>[] {
+    const contentText = file.content_text || '';
+    if (!contentText.trim()) {
+      return [];
+    }
+    
+    // Transcripts are grouped by segment so each chunk keeps its time range
+    const segments = this.parseTranscript(contentText);
+    if (segments) {
+      const chunks = [];
+      let current: typeof segments = [];
+      let currentLength = 0;
       
-      if (!embedding) {
-        console.timeEnd('semanticSearch');
-        // Fall back to regular search if embedding fails
-        return this.searchContent(knowledgebaseId, query);
-      }
+      // Topic sections written by the transcript chunker: a chunk stays within one section and carries its title
+      const sections: { title: string; start: number }[] = file.metadata?.transcript_sections || [];
+      const sectionIndexAt = (time: number) => {
+        let found = -1;
+        sections.forEach((section, index) => {
+          if (section.start <= time) found = index;
+        });
+        return sections.length > 0 ? Math.max(found, 0) : -1;
+      };
+      let currentSection = -1;
       
-      // 2. Get all files from the knowledge base
-      const { data: files, error } = await supabase
-        .from('files')
-        .select('*')
-        .eq('knowledgebase_id', knowledgebaseId);
+      const pushChunk = () => {
+        if (current.length === 0) return;
+        const last = current[current.length - 1];
+        const section = sections[currentSection];
+        const chapter = getChapterAt(file.metadata?.chapters || [], current[0].start);
+        const text = current.map(segment => segment.text).join(' ');
+        chunks.push({
+          chunk_index: chunks.length,
+          content: section ? `${section.title}\n${text}` : text,
+          start_offset: null,
+          end_offset: null,
+          metadata: {
+            start_time: current[0].start,
+            end_time: last.start + (last.duration || 0),
+            ...(section ? { section_title: section.title } : {}),
+            ...(chapter ? { chapter: chapter.title } : {})
+          }
+        });
+      };
       
-      if (error) throw error;
-      if (!files || files.length === 0) {
-        console.timeEnd('semanticSearch');
-        return [];
+      for (const segment of segments) {
+        const sectionIndex = sectionIndexAt(segment.start);
+        if (current.length > 0 && (currentLength + segment.text.length > chunkSize || sectionIndex !== currentSection)) {
+          pushChunk();
+          current = [];
+          currentLength = 0;
+        }
+        currentSection = sectionIndex;
+        current.push(segment);
+        currentLength += segment.text.length + 1;
       }
+      pushChunk();
       
-      // 3. Process files in parallel with a limit to avoid overwhelming the API
-      const batchSize = 3; // Process 3 files at a time
-      const scoredFiles = [];
-      
-      for (let i = 0; i < files.length; i += batchSize) {
-        const batch = files.slice(i, i + batchSize);
-        const batchResults = await Promise.all(
-          batch.map(file => this.processFileForSearch(file, embedding!))
-        );
-        scoredFiles.push(...batchResults);
+      return chunks;
+    }
+    
+    // Page and slide markers written by the PDF and PPTX extractors
+    const markers: { offset: number; type: 'page' | 'slide'; number: number }[] = [];
+    const markerRegex = /\[(Page|Slide) (\d+)\]/g;
+    let match;
+    while ((match = markerRegex.exec(contentText)) !== null) {
+      markers.push({
+        offset: match.index,
+        type: match[1].toLowerCase() as 'page' | 'slide',
+        number: parseInt(match[2], 10)
+      });
+    }
+    
+    const markerAt = (offset: number) => {
+      let found = null;
+      for (const marker of markers) {
+        if (marker.offset > offset) break;
+        found = marker;
+      }
+      return found;
+    };
+    
+    // Numbered section headings written by the DOCX and website extractors, e.g. "## 3.2 Results"
+    const sectionMarkers: { offset: number; number: string; title: string }[] = [];
+    if (file.metadata?.sections?.length) {
+      const headingRegex = /^#{1,6} (\d+(?:\.\d+)*) (.+)$/gm;
+      while ((match = headingRegex.exec(contentText)) !== null) {
+        sectionMarkers.push({ offset: match.index, number: match[1], title: match[2].trim() });
       }
-      
-      // 4. Sort by similarity score and return top results
-      const sortedFiles = scoredFiles.sort((a, b) => b.score - a.score);
-      
-      // Get the top 5 results regardless of score
-      const topResults = sortedFiles.slice(0, 5).map(item => item.file);
-      
-      // Filter by threshold only if we have enough results that meet the threshold
-      const thresholdResults = sortedFiles
-        .filter(item => item.score > 0.4) // Lower threshold to 0.4
-        .slice(0, 5)
-        .map(item => item.file);
-      
-      console.timeEnd('semanticSearch');
-      
-      // Return threshold results if we have any, otherwise return top results
-      return thresholdResults.length > 0 ? thresholdResults : topResults;
-    } catch (error) {
-      console.error('Error in semantic search:', error);
-      // Fall back to regular search if semantic search fails
-      return this.searchContent(knowledgebaseId, query);
     }
-  },
-  
-  // Process a single file for semantic search
-  async processFileForSearch(file: FileRecord, queryEmbedding: number[]): Promise<{file: FileRecord, score: number}> {
-    try {
-      // Skip files with no content
-      if (!file.content_text || file.content_text.length === 0) {
-        return { file, score: 0 };
+    
+    // Each section is split on its own, so a chunk never runs across a heading and cites one section
+    const sectionBounds = [0, ...sectionMarkers.map(marker => marker.offset).filter(offset => offset > 0), contentText.length];
+    const sectionTexts: string[] = [];
+    let pendingHeadings = '';
+    sectionBounds.slice(0, -1).forEach((start, index) => {
+      const sectionText = contentText.slice(start, sectionBounds[index + 1]);
+      // A heading directly followed by a subheading has no text of its own, keep it with the next section
+      if (index < sectionBounds.length - 2 && /^#{1,6} /.test(sectionText) && !sectionText.trim().includes('\n')) {
+        pendingHeadings += sectionText;
+        return;
       }
-      
-      // For small content, just compare directly
-      if (file.content_text.length < 1000) {
-        const fileKey = `file:${file.id}`;
-        let fileEmbedding = this.embeddingCache.get(fileKey);
+      sectionTexts.push((pendingHeadings + sectionText).trimEnd());
+      pendingHeadings = '';
+    });
+    
+    const textChunks = sectionTexts.flatMap(sectionText => this.recursiveCharacterTextSplitter(sectionText, chunkSize, overlap));
+    let searchFrom = 0;
+    
+    return textChunks
+      .filter(chunk => chunk && chunk.trim())
+      .map((chunk, index) => {
+        // Locate the chunk in the original text so citations can point back into it
+        let startOffset = contentText.indexOf(chunk, searchFrom);
+        if (startOffset === -1) {
+          startOffset = contentText.indexOf(chunk.substring(0, 50), searchFrom);
+        }
+        const endOffset = startOffset === -1 ? null : Math.min(startOffset + chunk.length, contentText.length);
+        if (startOffset !== -1) {
+          searchFrom = startOffset + 1;
+        }
         
-        if (!fileEmbedding) {
-          fileEmbedding = await this.getEmbedding(file.content_text);
-          if (fileEmbedding) {
-            this.embeddingCache.set(fileKey, fileEmbedding);
+        const metadata: ChunkMetadata = {};
+        if (startOffset !== -1 && markers.length > 0) {
+          const first = markerAt(startOffset);
+          const last = markerAt(endOffset - 1);
+          if (first || last) {
+            const start = (first || last).number;
+            const end = (last || first).number;
+            if ((first || last).type === 'slide') {
+              metadata.slide_start = start;
+              metadata.slide_end = end;
+            } else {
+              metadata.page_start = start;
+              metadata.page_end = end;
+            }
           }
         }
         
-        if (!fileEmbedding) return { file, score: 0 };
+        if (startOffset !== -1 && sectionMarkers.length > 0) {
+          // A chunk belongs to the last section heading at or before its text, past any headings it starts with
+          const leadingHeadings = chunk.match(/^(?:#{1,6} .*\n+)*/)[0].length;
+          const section = sectionMarkers.filter(marker => marker.offset <= startOffset + leadingHeadings).pop();
+          if (section) {
+            metadata.section = section.number;
+            metadata.section_title = section.title;
+          }
+        }
         
-        const similarity = this.cosineSimilarity(queryEmbedding, fileEmbedding);
-        return { file, score: similarity };
+        return {
+          chunk_index: index,
+          content: chunk,
+          start_offset: startOffset === -1 ? null : startOffset,
+          end_offset: endOffset,
+          metadata
+        };
+      });
+  },
+  
+  /**
+   * Chunk and embed a file, replacing any chunks it already has.
+   * Throws when any chunk can't be embedded, the file's existing chunks are kept then.
+   */
+  async indexFileChunks(file: FileRecord): Promise<number> {
+    const chunks = this.buildFileChunks(file);
+    
+    try {
+      // Embed before touching the stored chunks, so a failed call doesn't leave the file unsearchable
+      const embeddings = chunks.length > 0
+        ? await this.getEmbeddings(chunks.map(chunk => chunk.content), { throwOnError: true })
+        : [];
+      const missing = embeddings.filter(embedding => !embedding).length;
+      if (missing > 0) {
+        throw new Error(`Embeddings could not be created for ${missing} of ${chunks.length} chunks`);
       }
       
-      // For larger content, split into chunks and find the best match
-      const chunks = this.recursiveCharacterTextSplitter(file.content_text, 1000, 200);
-      let bestScore = 0;
-      let bestChunk = '';
-      let bestChunkIndex = 0;
+      const { error: deleteError } = await supabase
+        .from('file_chunks')
+        .delete()
+        .eq('file_id', file.id);
       
-      // Process chunks in batches to avoid rate limits
-      const batchSize = 3;
-      for (let i = 0; i < chunks.length; i += batchSize) {
-        const batch = chunks.slice(i, Math.min(i + batchSize, chunks.length));
-        const batchResults = await Promise.all(batch.map(async (chunk, idx) => {
-          const chunkKey = `file:${file.id}:chunk:${i + idx}`;
-          let chunkEmbedding = this.embeddingCache.get(chunkKey);
-          
-          if (!chunkEmbedding) {
-            chunkEmbedding = await this.getEmbedding(chunk);
-            if (chunkEmbedding) {
-              this.embeddingCache.set(chunkKey, chunkEmbedding);
-            }
-          }
-          
-          if (!chunkEmbedding) return { score: 0, chunk, index: i + idx };
-          
-          const similarity = this.cosineSimilarity(queryEmbedding, chunkEmbedding);
-          return { score: similarity, chunk, index: i + idx };
-        }));
-        
-        for (const result of batchResults) {
-          if (result.score > bestScore) {
-            bestScore = result.score;
-            bestChunk = result.chunk;
-            bestChunkIndex = result.index;
-          }
-        }
+      if (deleteError) {
+        console.error('Error deleting existing file chunks:', deleteError);
+        throw new Error(deleteError.message);
       }
       
-      // Create a modified file with the best chunk as content
-      // This helps the AI focus on the most relevant part of the document
-      const modifiedFile = { 
-        ...file,
-        content_text: bestChunk,
-        // Store the original content position for citation purposes
-        metadata: {
-          ...file.metadata,
-          chunk_position: bestChunkIndex,
-          chunk_start: file.content_text.indexOf(bestChunk),
-          original_length: file.content_text.length,
-          chunk_length: bestChunk.length
+      const rows = chunks.map((chunk, index) => ({
+        ...chunk,
+        file_id: file.id,
+        knowledgebase_id: file.knowledgebase_id,
+        user_id: file.user_id,
+        embedding: embeddings[index]
+      }));
+      
+      // Insert in batches to keep request sizes reasonable
+      const batchSize = 50;
+      for (let i = 0; i < rows.length; i += batchSize) {
+        const { error } = await supabase
+          .from('file_chunks')
+          .insert(rows.slice(i, i + batchSize));
+        
+        if (error) {
+          console.error('Error inserting file chunks:', error);
+          throw new Error(error.message);
         }
-      };
+      }
       
-      return { file: modifiedFile, score: bestScore };
+      await this.setIndexStatus(file.id, { index_status: 'indexed', index_error: null, indexed_at: new Date().toISOString() });
+      console.log(`Indexed ${rows.length} chunks for file ${file.id}`);
+      return rows.length;
     } catch (error) {
-      console.error('Error processing file for search:', error);
-      return { file, score: 0 };
+      await this.setIndexStatus(file.id, { index_status: 'failed', index_error: error.message }).catch(() => undefined);
+      throw error;
+    }
+  },
+  
+  // Record the outcome of indexing on the file row
+  async setIndexStatus(fileId: string, changes: Pick<FileRecord, 'index_status' | 'index_error'> & { indexed_at?: string }): Promise<void> {
+    const { error } = await supabase
+      .from('files')
+      .update(changes)
+      .eq('id', fileId);
+    
+    if (error) {
+      console.error('Error updating index status:', error);
+      throw error;
     }
   },
   
+  // Index a file without failing the caller if embedding or storage fails
+  async tryIndexFileChunks(file: FileRecord): Promise<void> {
+    try {
+      await this.indexFileChunks(file);
+    } catch (error) {
+      console.error(`Error indexing chunks for file ${file.id}:`, error);
+    }
+  },
+  
+  /**
+   * Index the user's files that have no usable chunks yet: files added before chunks were stored,
+   * and files whose embeddings failed. Runs in the background when the app loads.
+   */
+  async indexMissingFiles(userId: string): Promise<void> {
+    const { data: files, error } = await supabase
+      .from('files')
+      .select('id, user_id, knowledgebase_id, content_text, metadata')
+      .eq('user_id', userId)
+      .or('index_status.is.null,index_status.eq.failed')
+      // Files still in the ingestion queue are indexed by it
+      .or('extraction_status.is.null,extraction_status.eq.completed')
+      .gt('content_length', 0);
+    
+    if (error) throw error;
+    
+    // One at a time, each file is a round of embedding requests
+    for (const file of files || []) {
+      await this.tryIndexFileChunks(file as FileRecord);
+    }
+  },
+  
+  // Build a search result from a stored chunk and the file it belongs to
+  toChunkSearchResult(file: FileRecord, chunk: Partial<FileChunk>, score: number): ChunkSearchResult {
+    const metadata = chunk.metadata || {};
+    let content = chunk.content || '';
+    
+    // For transcripts, keep the JSON format limited to the chunk's time range
+    const segments = this.parseTranscript(file.content_text);
+    if (segments && metadata.start_time !== undefined) {
+      content = JSON.stringify(segments.filter(segment => 
+        segment.start >= metadata.start_time && segment.start < metadata.end_time
+      ));
+    }
+    
+    return {
+      fileId: file.id,
+      file,
+      chunkIndex: chunk.chunk_index ?? 0,
+      score,
+      content,
+      startOffset: chunk.start_offset ?? null,
+      endOffset: chunk.end_offset ?? null,
+      pageStart: metadata.page_start ?? metadata.slide_start,
+      pageEnd: metadata.page_end ?? metadata.slide_end,
+      section: metadata.section,
+      sectionTitle: metadata.section_title,
+      startTime: metadata.start_time,
+      endTime: metadata.end_time,
+      metadata
+    };
+  },
+  
+  // Full-text search over files_content_text_idx, matching any of the query terms
+  async fullTextSearchFiles(knowledgebaseId: string, query: string, limit: number = 20): Promise<FileRecord[]> {
+    const terms = query
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(term => term.length > 2);
+    
+    if (terms.length === 0) {
+      return [];
+    }
+    
+    const { data, error } = await supabase
+      .from('files')
+      .select('*')
+      .eq('knowledgebase_id', knowledgebaseId)
+      .textSearch('content_text', terms.join(' or '), {
+        type: 'websearch',
+        config: 'english'
+      })
+      .limit(limit);
+    
+    if (error) {
+      console.error('Error in full-text search:', error);
+      throw error;
+    }
+    
+    return data || [];
+  },
+  
+  // Keyword search ranked at chunk level: full-text search picks the files,
+  // then each file's chunks are ranked by how many query terms they contain
+  async keywordSearchChunks(knowledgebaseId: string, query: string, limit: number): Promise<ChunkSearchResult[]> {
+    const files = await this.fullTextSearchFiles(knowledgebaseId, query);
+    const terms = query.toLowerCase().split(/[^a-z0-9]+/).filter(term => term.length > 2);
+    const results: ChunkSearchResult[] = [];
+    
+    for (const file of files) {
+      for (const chunk of this.buildFileChunks(file)) {
+        const text = chunk.content.toLowerCase();
+        const hits = terms.filter(term => text.includes(term)).length;
+        if (hits > 0) {
+          results.push(this.toChunkSearchResult(file, chunk, hits / terms.length));
+        }
+      }
+    }
+    
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  },
+  
+  // Vector search over the stored chunk embeddings
+  async vectorSearchChunks(knowledgebaseId: string, query: string, limit: number, minScore: number): Promise<ChunkSearchResult[]> {
+    const embedding = await this.getEmbedding(query);
+    if (!embedding) {
+      return [];
+    }
+    
+    const { data: matches, error } = await supabase.rpc('match_file_chunks', {
+      query_embedding: embedding,
+      match_knowledgebase_id: knowledgebaseId,
+      match_count: limit
+    });
+    
+    if (error) throw error;
+    if (!matches || matches.length === 0) {
+      return [];
+    }
+    
+    // Filter by threshold only if we have results that meet it
+    const thresholdMatches = (matches as FileChunk[]).filter(match => match.similarity > minScore);
+    const selectedMatches = thresholdMatches.length > 0 ? thresholdMatches : (matches as FileChunk[]);
+    
+    const { data: files, error: filesError } = await supabase
+      .from('files')
+      .select('*')
+      .in('id', Array.from(new Set(selectedMatches.map(match => match.file_id))));
+    
+    if (filesError) throw filesError;
+    
+    const filesById = new Map((files || []).map(file => [file.id, file as FileRecord]));
+    
+    return selectedMatches
+      .filter(match => filesById.has(match.file_id))
+      .map(match => this.toChunkSearchResult(filesById.get(match.file_id), match, match.similarity));
+  },
+  
+  // Combine ranked result lists with weighted reciprocal rank fusion
+  reciprocalRankFusion(rankings: { results: ChunkSearchResult[]; weight: number }[], k: number): ChunkSearchResult[] {
+    const fused = new Map<string, ChunkSearchResult>();
+    
+    for (const { results, weight } of rankings) {
+      results.forEach((result, rank) => {
+        const key = `${result.fileId}:${result.chunkIndex}`;
+        const contribution = weight / (k + rank + 1);
+        const existing = fused.get(key);
+        
+        if (existing) {
+          existing.score += contribution;
+        } else {
+          fused.set(key, { ...result, score: contribution });
+        }
+      });
+    }
+    
+    return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+  },
+  
+  /**
+   * Get the hybrid search settings for a knowledgebase, filled in with defaults
+   */
+  async getSearchSettings(knowledgebaseId: string): Promise<SearchSettings> {
+    const { data, error } = await supabase
+      .from('knowledgebases')
+      .select('search_settings')
+      .eq('id', knowledgebaseId)
+      .single();
+    
+    if (error) {
+      // Older databases may not have the search_settings column yet
+      console.error('Error fetching search settings:', error);
+      return { ...DEFAULT_SEARCH_SETTINGS };
+    }
+    
+    return { ...DEFAULT_SEARCH_SETTINGS, ...(data?.search_settings || {}) };
+  },
+  
+  /**
+   * Search a knowledgebase for the chunks most relevant to a query.
+   * Full-text and vector search run in parallel and are fused with reciprocal rank fusion.
+   * Returns up to topK chunks overall and at most maxChunksPerFile from any one file.
+   */
+  async searchChunks(knowledgebaseId: string, query: string, options: ChunkSearchOptions = {}): Promise<ChunkSearchResult[]> {
+    const topK = options.topK ?? 8;
+    const maxChunksPerFile = options.maxChunksPerFile ?? 3;
+    const minScore = options.minScore ?? 0.4;
+    
+    console.time('semanticSearch');
+    
+    const settings = {
+      ...(await this.getSearchSettings(knowledgebaseId)),
+      ...options.searchSettings
+    };
+    
+    // Fetch extra candidates so the per-file cap still leaves topK results
+    const candidateCount = Math.max(topK * maxChunksPerFile, 20);
+    
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.vectorSearchChunks(knowledgebaseId, query, candidateCount, minScore).catch(error => {
+        console.error('Error in semantic search:', error);
+        return [] as ChunkSearchResult[];
+      }),
+      this.keywordSearchChunks(knowledgebaseId, query, candidateCount).catch(error => {
+        console.error('Error in keyword search:', error);
+        return [] as ChunkSearchResult[];
+      })
+    ]);
+    
+    console.log(`Hybrid search: ${vectorResults.length} vector results, ${keywordResults.length} keyword results`);
+    
+    const fused = this.reciprocalRankFusion([
+      { results: vectorResults, weight: settings.vector_weight },
+      { results: keywordResults, weight: settings.keyword_weight }
+    ], settings.rrf_k);
+    
+    // Apply the per-file cap
+    const perFileCount = new Map<string, number>();
+    const results = fused.filter(result => {
+      const count = perFileCount.get(result.fileId) || 0;
+      if (count >= maxChunksPerFile) return false;
+      perFileCount.set(result.fileId, count + 1);
+      return true;
+    }).slice(0, topK);
+    
+    console.timeEnd('semanticSearch');
+    
+    return results;
+  },
+  
+  // Semantic search returning the best matching chunk of each file
+  async semanticSearchContent(knowledgebaseId: string, query: string): Promise<FileRecord[]> {
+    const chunks = await this.searchChunks(knowledgebaseId, query, { topK: 5, maxChunksPerFile: 1 });
+    
+    // Create a modified file with the best chunk as content
+    // This helps the AI focus on the most relevant part of the document
+    return chunks.map(chunk => ({
+      ...chunk.file,
+      content_text: chunk.content,
+      // Store the original content position for citation purposes
+      metadata: {
+        ...chunk.file.metadata,
+        ...chunk.metadata,
+        chunk_position: chunk.chunkIndex,
+        chunk_start: chunk.startOffset,
+        original_length: chunk.file.content_text?.length || 0,
+        chunk_length: chunk.content.length,
+        search_score: chunk.score
+      }
+    }));
+  },
+  
   // Recursive character text splitter with overlap
   recursiveCharacterTextSplitter(text: string, chunkSize: number, overlap: number = 0): string[] {
     if (!text || text.length <= chunkSize) {
@@ -757,37 +1243,43 @@ export const knowledgebaseService = {
     return chunks;
   },
   
-  // Helper method to get embedding from OpenAI
+  // Helper method to get embedding from the embedding provider
   async getEmbedding(text: string): Promise<number[] | null> {
     try {
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      
-      if (!apiKey) {
-        console.error('OpenAI API key is not set');
-        return null;
-      }
-      
-      const response = await axios.post(
-        'https://api.openai.com/v1/embeddings',
-        {
-          model: 'text-embedding-3-small',
-          input: text.slice(0, 8000) // Limit to 8000 chars (API limit)
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+      const [embedding] = await llmProvider.createEmbeddings([
+        text.slice(0, 8000) // Limit to 8000 chars (API limit)
+      ]);
       
-      return response.data.data[0].embedding;
+      return embedding;
     } catch (error) {
       console.error('Error getting embedding:', error);
       return null;
     }
   },
   
+  // Helper method to get embeddings for several texts in as few requests as possible.
+  // Texts that couldn't be embedded get null, or the provider's error is thrown with throwOnError.
+  async getEmbeddings(texts: string[], { throwOnError = false } = {}): Promise<(number[] | null)[]> {
+    const embeddings: (number[] | null)[] = [];
+    const batchSize = 100;
+    
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize);
+      try {
+        const batchEmbeddings = await llmProvider.createEmbeddings(
+          batch.map(text => text.slice(0, 8000)) // Limit to 8000 chars (API limit)
+        );
+        embeddings.push(...batchEmbeddings);
+      } catch (error) {
+        if (throwOnError) throw error;
+        console.error('Error getting embeddings:', error);
+        embeddings.push(...batch.map(() => null));
+      }
+    }
+    
+    return embeddings;
+  },
+  
   // Helper method to calculate cosine similarity between two vectors
   cosineSimilarity(vecA: number[], vecB: number[]): number {
     let dotProduct = 0;
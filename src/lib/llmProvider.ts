@@ -0,0 +1,274 @@
+import axios from 'axios';
+import type { AxiosProgressEvent } from 'axios';
+import { BACKEND_API_URL, getBackendHeaders } from './backendApi';
+
+export type LLMCapability = 'chat' | 'embedding' | 'transcription' | 'speech';
+
+export interface LLMEndpointConfig {
+  baseUrl: string;
+  model: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  messages: ChatMessage[];
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+}
+
+export interface TranscriptionOptions {
+  fileName?: string;
+  language?: string;
+  responseFormat?: 'json' | 'text' | 'verbose_json';
+  timestampGranularities?: ('segment' | 'word')[];
+  onUploadProgress?: (progressEvent: AxiosProgressEvent) => void;
+}
+
+// Body of a transcription response. Servers without segment support may only return the text.
+export interface TranscriptionResponse {
+  text: string;
+  language?: string;
+  duration?: number; // Seconds
+  segments?: { start: number; end: number; text: string }[];
+  words?: { word: string; start: number; end: number }[];
+}
+
+// OpenAI-compatible proxy in /api that holds the provider keys server-side
+export const PROXY_BASE_URL = `${BACKEND_API_URL}/llm`;
+
+// Size of the vectors stored in file_chunks.embedding, which the embedding model has to return
+export const EMBEDDING_DIMENSIONS = Number(import.meta.env.VITE_LLM_EMBEDDING_DIMENSIONS) || 1536;
+
+const DEFAULT_MODELS: Record<LLMCapability, string> = {
+  chat: 'gpt-3.5-turbo',
+  embedding: 'text-embedding-3-small',
+  transcription: 'whisper-1',
+  speech: 'tts-1'
+};
+
+// Read a setting for one capability (e.g. VITE_LLM_CHAT_BASE_URL), falling back to the shared one (VITE_LLM_BASE_URL)
+const readEnv = (capability: LLMCapability, name: string): string | undefined => {
+  const env = import.meta.env;
+  return env[`VITE_LLM_${capability.toUpperCase()}_${name}`] || env[`VITE_LLM_${name}`];
+};
+
+const loadConfigFromEnv = (): Record<LLMCapability, LLMEndpointConfig> => {
+  const capabilities: LLMCapability[] = ['chat', 'embedding', 'transcription', 'speech'];
+  
+  return capabilities.reduce((config, capability) => {
+    config[capability] = {
+      baseUrl: (readEnv(capability, 'BASE_URL') || PROXY_BASE_URL).replace(/\/+$/, ''),
+      model: readEnv(capability, 'MODEL') || DEFAULT_MODELS[capability]
+    };
+    return config;
+  }, {} as Record<LLMCapability, LLMEndpointConfig>);
+};
+
+/**
+ * Provider layer for chat, embeddings, transcription and text-to-speech.
+ * Requests go through the backend proxy by default, which holds the provider keys. A keyless
+ * OpenAI-compatible server (e.g. a local Ollama, LM Studio or LocalAI instance) can be called directly instead.
+ */
+export const llmProvider = {
+  config: loadConfigFromEnv(),
+  
+  /**
+   * Override the endpoint or model used for a capability
+   */
+  configure(capability: LLMCapability, overrides: Partial<LLMEndpointConfig>) {
+    this.config[capability] = {
+      ...this.config[capability],
+      ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined && value !== ''))
+    };
+    this.config[capability].baseUrl = this.config[capability].baseUrl.replace(/\/+$/, '');
+  },
+  
+  /**
+   * Drop any overrides and go back to the environment configuration
+   */
+  reset() {
+    this.config = loadConfigFromEnv();
+  },
+  
+  getConfig(capability: LLMCapability): LLMEndpointConfig {
+    return this.config[capability];
+  },
+  
+  async getHeaders(capability: LLMCapability, contentType: string = 'application/json'): Promise<Record<string, string>> {
+    // The proxy authenticates the Supabase user and adds the provider key itself
+    if (this.config[capability].baseUrl === PROXY_BASE_URL) {
+      return getBackendHeaders(contentType);
+    }
+    
+    return { 'Content-Type': contentType };
+  },
+  
+  /**
+   * Create a chat completion and return the message text
+   */
+  async createChatCompletion(options: ChatCompletionOptions): Promise<string> {
+    const { baseUrl, model } = this.config.chat;
+    
+    const response = await axios.post(
+      `${baseUrl}/chat/completions`,
+      { model, ...options },
+      { headers: await this.getHeaders('chat') }
+    );
+    
+    return response.data.choices[0].message.content;
+  },
+  
+  /**
+   * Stream a chat completion, returning the full text once finished or aborted
+   */
+  async streamChatCompletion(
+    options: ChatCompletionOptions,
+    onToken: (token: string, text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const { baseUrl, model } = this.config.chat;
+    let text = '';
+    
+    try {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: await this.getHeaders('chat'),
+        body: JSON.stringify({ model, ...options, stream: true }),
+        signal
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw Object.assign(new Error(errorData?.error?.message || response.statusText), { status: response.status });
+      }
+      
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let done = false;
+      
+      while (!done) {
+        const chunk = await reader.read();
+        done = chunk.done;
+        
+        buffer += decoder.decode(chunk.value, { stream: !done });
+        
+        // Server-sent events are separated by newlines; keep any partial line for the next read,
+        // and handle whatever is left once the stream ends
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+        
+        for (const line of lines) {
+          // Only data lines carry completions: comments (": keep-alive") and event:/id: lines are skipped
+          if (!line.startsWith('data:')) continue;
+          
+          const data = line.slice('data:'.length).trim();
+          if (!data || data === '[DONE]') continue;
+          
+          const token = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (token) {
+            text += token;
+            onToken(token, text);
+          }
+        }
+      }
+      
+      return text;
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        console.log(`Response stopped by user after ${text.length} characters`);
+        return text;
+      }
+      throw error;
+    }
+  },
+  
+  /**
+   * Get embeddings for a list of texts, in input order.
+   * Throws when the model's vectors don't fit the file_chunks table.
+   */
+  async createEmbeddings(texts: string[]): Promise<number[][]> {
+    const { baseUrl, model } = this.config.embedding;
+    
+    const response = await axios.post(
+      `${baseUrl}/embeddings`,
+      { model, input: texts },
+      { headers: await this.getHeaders('embedding') }
+    );
+    
+    // Results come back with an index, keep them in input order
+    const embeddings: number[][] = [...response.data.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+    
+    const mismatch = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS);
+    if (mismatch) {
+      throw new Error(
+        `Embedding model ${model} returns ${mismatch.length}-dimensional vectors, but the file_chunks table stores ${EMBEDDING_DIMENSIONS}. ` +
+        `Use a ${EMBEDDING_DIMENSIONS}-dimensional model, or change the vector size in create_file_chunks_table.sql and set VITE_LLM_EMBEDDING_DIMENSIONS to match.`
+      );
+    }
+    
+    return embeddings;
+  },
+  
+  /**
+   * Transcribe an audio file. Segments, words, duration and language are only
+   * returned for the verbose_json format.
+   */
+  async transcribeAudio(file: Blob, options: TranscriptionOptions = {}): Promise<TranscriptionResponse> {
+    const { baseUrl, model } = this.config.transcription;
+    
+    const formData = new FormData();
+    if (options.fileName) {
+      formData.append('file', file, options.fileName);
+    } else {
+      formData.append('file', file);
+    }
+    formData.append('model', model);
+    formData.append('language', options.language || 'en');
+    if (options.responseFormat) {
+      formData.append('response_format', options.responseFormat);
+    }
+    for (const granularity of options.timestampGranularities || []) {
+      formData.append('timestamp_granularities[]', granularity);
+    }
+    
+    const response = await axios.post(
+      `${baseUrl}/audio/transcriptions`,
+      formData,
+      {
+        headers: await this.getHeaders('transcription', 'multipart/form-data'),
+        onUploadProgress: options.onUploadProgress
+      }
+    );
+    
+    // The text format is returned as a plain string
+    return typeof response.data === 'string' ? { text: response.data } : response.data;
+  },
+  
+  /**
+   * Convert text to speech, returning the audio as a blob
+   */
+  async synthesizeSpeech(text: string, voice: string): Promise<Blob> {
+    const { baseUrl, model } = this.config.speech;
+    
+    const response = await axios.post(
+      `${baseUrl}/audio/speech`,
+      { model, input: text, voice },
+      {
+        headers: await this.getHeaders('speech'),
+        responseType: 'arraybuffer'
+      }
+    );
+    
+    return new Blob([response.data], { type: 'audio/mpeg' });
+  }
+};
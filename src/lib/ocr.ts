@@ -0,0 +1,53 @@
+/**
+ * OCR utilities for Sattva AI
+ * Runs tesseract.js in a local web worker for scanned PDF pages and image uploads
+ */
+
+import { createWorker } from 'tesseract.js';
+import type { Worker, ImageLike } from 'tesseract.js';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100, as reported by Tesseract
+}
+
+// Pages with fewer extracted characters than this are treated as scanned and sent to OCR
+export const MIN_TEXT_CHARS_PER_PAGE = 50;
+
+// Share one worker, since loading the language data is the slow part
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    console.log('[OCR] Starting Tesseract worker');
+    workerPromise = createWorker('eng').catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+/**
+ * Recognize the text in an image, canvas or image file
+ */
+export async function recognizeText(image: ImageLike): Promise<OcrResult> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  
+  return {
+    text: data.text.trim(),
+    confidence: Math.round(data.confidence)
+  };
+}
+
+/**
+ * Stop the shared worker, freeing its memory until OCR is needed again
+ */
+export async function terminateOcrWorker(): Promise<void> {
+  if (!workerPromise) return;
+  
+  const worker = await workerPromise.catch(() => null);
+  workerPromise = null;
+  await worker?.terminate();
+}
@@ -0,0 +1,239 @@
+import { supabase } from './supabase';
+import type { FileRecord, FileSyncSummary } from './supabase';
+import { knowledgebaseService } from './knowledgebaseService';
+import { extractTextFromWebsite, extractTextFromYouTube, ExtractedContent } from './textExtraction';
+
+// File types whose content was fetched from source_url and can be fetched again
+const SYNCABLE_TYPES = ['website', 'youtube'];
+
+// How often the scheduler looks for files that are due
+const SCHEDULE_CHECK_MS = 60 * 60 * 1000;
+
+// Added and removed paragraphs shown in the diff summary
+const MAX_DIFF_SAMPLES = 3;
+const MAX_SAMPLE_LENGTH = 200;
+
+export const SYNC_INTERVALS: { label: string; hours: number | null }[] = [
+  { label: 'Manual only', hours: null },
+  { label: 'Daily', hours: 24 },
+  { label: 'Weekly', hours: 24 * 7 },
+  { label: 'Monthly', hours: 24 * 30 }
+];
+
+// Files being synced in this tab
+const activeSyncs = new Set<string>();
+
+async function updateFile(fileId: string, changes: Partial<FileRecord>): Promise<FileRecord> {
+  const { data, error } = await supabase
+    .from('files')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', fileId)
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error updating synced file:', error);
+    throw error;
+  }
+  
+  return data;
+}
+
+// The units a diff is counted in: transcript lines for videos, paragraphs for everything else
+const getDiffUnits = (contentText: string): string[] => {
+  const segments = knowledgebaseService.parseTranscript(contentText);
+  const units = segments
+    ? segments.map(segment => segment.text)
+    : contentText.split(/\n\s*\n/);
+  return units.map(unit => unit.replace(/\s+/g, ' ').trim()).filter(Boolean);
+};
+
+// Units of one list that aren't in the other, counting repeats
+const subtractUnits = (units: string[], other: string[]): string[] => {
+  const remaining = new Map<string, number>();
+  other.forEach(unit => remaining.set(unit, (remaining.get(unit) || 0) + 1));
+  
+  return units.filter(unit => {
+    const count = remaining.get(unit) || 0;
+    if (count === 0) return true;
+    remaining.set(unit, count - 1);
+    return false;
+  });
+};
+
+const toSample = (unit: string): string =>
+  unit.length > MAX_SAMPLE_LENGTH ? `${unit.substring(0, MAX_SAMPLE_LENGTH)}...` : unit;
+
+/**
+ * Re-fetching of website and YouTube files from their source URL, on demand or on a schedule.
+ * Content is compared by hash and only re-chunked and re-embedded when it changed.
+ */
+export const sourceSyncService = {
+  isSyncable(file: FileRecord): boolean {
+    return !!file.source_url && SYNCABLE_TYPES.includes(file.type);
+  },
+  
+  isSyncing(fileId: string): boolean {
+    return activeSyncs.has(fileId);
+  },
+  
+  async fetchContent(file: FileRecord): Promise<ExtractedContent> {
+    return file.type === 'youtube'
+      ? extractTextFromYouTube(file.source_url!, file.name)
+      : extractTextFromWebsite(file.source_url!, file.name);
+  },
+  
+  /**
+   * Count what was added and removed between two versions of a file's content
+   */
+  diffContent(previousText: string, nextText: string): Omit<FileSyncSummary, 'status' | 'checked_at'> {
+    const previousUnits = getDiffUnits(previousText);
+    const nextUnits = getDiffUnits(nextText);
+    const added = subtractUnits(nextUnits, previousUnits);
+    const removed = subtractUnits(previousUnits, nextUnits);
+    
+    return {
+      added: added.length,
+      removed: removed.length,
+      previous_length: previousText.length,
+      new_length: nextText.length,
+      added_samples: added.slice(0, MAX_DIFF_SAMPLES).map(toSample),
+      removed_samples: removed.slice(0, MAX_DIFF_SAMPLES).map(toSample)
+    };
+  },
+  
+  /**
+   * Fetch a file's source again and update its content and chunks if it changed
+   */
+  async syncFile(file: FileRecord): Promise<FileRecord> {
+    if (!this.isSyncable(file)) {
+      throw new Error('Only website and YouTube files can be synced');
+    }
+    if (activeSyncs.has(file.id)) {
+      throw new Error('This file is already being synced');
+    }
+    
+    activeSyncs.add(file.id);
+    const checkedAt = new Date().toISOString();
+    
+    try {
+      const content = await this.fetchContent(file);
+      if (!content.text.trim()) {
+        throw new Error('The source returned no content');
+      }
+      
+      const hash = await knowledgebaseService.hashContent(content.text);
+      // Files added before hashes were stored are hashed now
+      const previousHash = file.content_hash || await knowledgebaseService.hashContent(file.content_text || '');
+      
+      if (hash === previousHash) {
+        console.log(`[Source Sync] ${file.name} is unchanged`);
+        return await updateFile(file.id, {
+          content_hash: hash,
+          last_synced_at: checkedAt,
+          last_sync_summary: { status: 'unchanged', checked_at: checkedAt, added: 0, removed: 0 }
+        });
+      }
+      
+      const summary: FileSyncSummary = {
+        status: 'changed',
+        checked_at: checkedAt,
+        ...this.diffContent(file.content_text || '', content.text)
+      };
+      const changes = {
+        content_text: content.text,
+        content_length: content.text.length,
+        size: content.text.length,
+        metadata: { ...(file.metadata || {}), ...content.metadata }
+      };
+      
+      // Re-index before saving the new hash, so a failed embedding is retried on the next sync
+      await knowledgebaseService.indexFileChunks({ ...file, ...changes });
+      
+      console.log(`[Source Sync] ${file.name} changed: +${summary.added} -${summary.removed}`);
+      return await updateFile(file.id, {
+        ...changes,
+        content_hash: hash,
+        last_synced_at: checkedAt,
+        last_sync_summary: summary
+      });
+    } catch (error) {
+      console.error(`[Source Sync] Error syncing ${file.name}:`, error);
+      await updateFile(file.id, {
+        last_sync_summary: { status: 'failed', checked_at: checkedAt, error: error.message }
+      }).catch(() => undefined);
+      throw error;
+    } finally {
+      activeSyncs.delete(file.id);
+    }
+  },
+  
+  /**
+   * Sync a file on a schedule, or only on demand when hours is null
+   */
+  async setSyncInterval(fileId: string, hours: number | null): Promise<FileRecord> {
+    return updateFile(fileId, { sync_interval_hours: hours });
+  },
+  
+  /**
+   * Sync the user's scheduled files whose interval has passed since their last sync
+   */
+  async syncDueFiles(userId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('files')
+      .select('*')
+      .eq('user_id', userId)
+      .not('sync_interval_hours', 'is', null)
+      .not('source_url', 'is', null);
+    
+    if (error) {
+      console.error('Error fetching scheduled files:', error);
+      throw error;
+    }
+    
+    const now = Date.now();
+    const dueFiles = (data || []).filter(file => {
+      // Counted from the last attempt, so a source that keeps failing isn't fetched every hour
+      const lastAttempt = file.last_sync_summary?.checked_at || file.last_synced_at;
+      return this.isSyncable(file) &&
+        (!lastAttempt || new Date(lastAttempt).getTime() + file.sync_interval_hours * 60 * 60 * 1000 <= now);
+    });
+    
+    // One at a time, a sync can re-embed a whole page or transcript
+    let synced = 0;
+    for (const file of dueFiles) {
+      try {
+        await this.syncFile(file);
+        synced++;
+      } catch (syncError) {
+        // Recorded on the file, the others are still synced
+      }
+    }
+    
+    if (dueFiles.length > 0) {
+      console.log(`[Source Sync] Synced ${synced} of ${dueFiles.length} scheduled files`);
+    }
+    return synced;
+  },
+  
+  /**
+   * Run scheduled syncs now and then every hour while the app is open. Returns a function that stops it.
+   */
+  startScheduler(userId: string): () => void {
+    let running = false;
+    
+    const run = () => {
+      if (running) return;
+      running = true;
+      this.syncDueFiles(userId)
+        .catch(error => console.error('Error running scheduled syncs:', error))
+        .finally(() => {
+          running = false;
+        });
+    };
+    
+    run();
+    const interval = window.setInterval(run, SCHEDULE_CHECK_MS);
+    return () => window.clearInterval(interval);
+  }
+};
@@ -1,48 +1,111 @@
-import axios from 'axios';
-import { supabase } from '@/lib/supabase';
+import { knowledgebaseService } from '@/lib/knowledgebaseService';
+import { AudioRecorder } from '@/lib/audioRecorder';
+import type { TranscriptSegment } from '@/lib/youtubeService';
+import {
+  transcribeWithTimestamps,
+  transcriptToText,
+  encodeWav,
+  TimedTranscription,
+  TRANSCRIPTION_SAMPLE_RATE
+} from '@/lib/transcription';
 
-/**
- * Service for handling speech-to-text functionality using OpenAI's Whisper API
- */
-export class SpeechToTextService {
-  private apiKey: string;
-  private socket: WebSocket | null = null;
-  private isListening: boolean = false;
-
-  constructor() {
-    this.apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    if (!this.apiKey) {
-      console.error('OpenAI API key is not set in environment variables');
+// Live audio is sent in windows of about this length, cut at the quietest moment near the end
+const LIVE_WINDOW_SECONDS = 10;
+const LIVE_CUT_SEARCH_SECONDS = 2;
+const LIVE_FRAME_SECONDS = 0.1;
+const LIVE_MAX_ATTEMPTS = 2;
+
+// Windows quieter than this are skipped, Whisper tends to invent text for silence
+const SILENCE_RMS = 0.005;
+
+export interface LiveTranscriptUpdate {
+  segments: TranscriptSegment[];
+  text: string;
+  recordedSeconds: number;
+  pendingWindows: number;
+}
+
+export interface LiveTranscriptionResult extends TimedTranscription {
+  audioBlob: Blob;
+}
+
+interface LiveSession {
+  recorder: AudioRecorder;
+  buffer: Float32Array[];
+  bufferedSamples: number;
+  windowStart: number; // Seconds from the start of the recording
+  segments: TranscriptSegment[];
+  language?: string;
+  queue: Promise<void>;
+  pendingWindows: number;
+  onTranscript: (update: LiveTranscriptUpdate) => void;
+  onError: (error: Error) => void;
+}
+
+// Resample microphone audio (usually 44.1 or 48kHz) to the 16kHz used for transcription
+function resample(samples: Float32Array, sampleRate: number): Float32Array {
+  if (sampleRate === TRANSCRIPTION_SAMPLE_RATE) {
+    return samples;
+  }
+  
+  const ratio = sampleRate / TRANSCRIPTION_SAMPLE_RATE;
+  const resampled = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < resampled.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    resampled[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+  }
+  return resampled;
+}
+
+function rms(samples: Float32Array, from: number = 0, to: number = samples.length): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return to > from ? Math.sqrt(sum / (to - from)) : 0;
+}
+
+// Find the quietest frame near the end of the buffer, so windows don't cut words in half
+function findCutPoint(samples: Float32Array): number {
+  const frame = Math.floor(LIVE_FRAME_SECONDS * TRANSCRIPTION_SAMPLE_RATE);
+  const searchFrom = Math.max(0, samples.length - Math.floor(LIVE_CUT_SEARCH_SECONDS * TRANSCRIPTION_SAMPLE_RATE));
+  let cut = samples.length;
+  let quietest = Infinity;
+  
+  for (let from = searchFrom; from + frame <= samples.length; from += frame) {
+    const level = rms(samples, from, from + frame);
+    if (level < quietest) {
+      quietest = level;
+      cut = from + Math.floor(frame / 2);
     }
   }
+  return cut;
+}
+
+function concatSamples(chunks: Float32Array[], length: number): Float32Array {
+  const samples = new Float32Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+}
+
+export class SpeechToTextService {
+  private session: LiveSession | null = null;
 
   /**
    * Transcribe audio using OpenAI's Whisper API
    * @param audioBlob The audio blob to transcribe
-   * @returns The transcribed text
+   * @returns The transcribed text with its timestamped segments
    */
-  async transcribeAudio(audioBlob: Blob): Promise<string> {
+  async transcribeAudio(audioBlob: Blob): Promise<TimedTranscription> {
     try {
-      // Create a FormData object to send the audio file
-      const formData = new FormData();
-      formData.append('file', audioBlob, 'recording.webm');
-      formData.append('model', 'whisper-1');
-      formData.append('language', 'en'); // You can make this configurable
-
-      // Make the API request
-      const response = await axios.post(
-        'https://api.openai.com/v1/audio/transcriptions',
-        formData,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'multipart/form-data',
-          },
-        }
-      );
-
-      // Return the transcribed text
-      return response.data.text;
+      // Send the audio to the transcription provider, asking for segment timestamps
+      return await transcribeWithTimestamps(audioBlob, { fileName: 'recording.webm' });
     } catch (error) {
       console.error('Error transcribing audio:', error);
       throw new Error('Failed to transcribe audio');
@@ -50,62 +113,144 @@ export class SpeechToTextService {
   }
 
   /**
-   * Start real-time transcription
-   * @param onTranscript Callback function to receive real-time transcripts
-   * @param onError Callback function for errors
+   * Start real-time transcription of the microphone. Audio is sent in short windows as it is
+   * recorded, and each result is added to a rolling transcript with timestamps.
+   * @param onTranscript Callback function to receive the transcript so far
+   * @param onError Callback function for errors; a failed window is skipped and recording continues
    */
-  startRealtimeTranscription(
-    onTranscript: (text: string) => void,
+  async startRealtimeTranscription(
+    onTranscript: (update: LiveTranscriptUpdate) => void,
     onError: (error: Error) => void
-  ): void {
-    // This is a simulated implementation since OpenAI doesn't have a WebSocket API for Whisper
-    // In a real implementation, you would connect to a streaming speech-to-text service
-    
-    if (this.isListening) {
+  ): Promise<void> {
+    if (this.session) {
       return;
     }
 
-    this.isListening = true;
-    
-    // Simulate real-time transcription with periodic updates
-    // In a real implementation, this would be replaced with actual WebSocket connection
-    const words = [
-      "Hello", "I'm", "speaking", "to", "the", "microphone", 
-      "and", "this", "text", "is", "being", "transcribed", 
-      "in", "real", "time", "as", "I", "speak"
-    ];
-    
-    let transcript = "";
-    let wordIndex = 0;
-    
-    const intervalId = setInterval(() => {
-      if (!this.isListening) {
-        clearInterval(intervalId);
-        return;
-      }
-      
-      if (wordIndex < words.length) {
-        transcript += (transcript ? " " : "") + words[wordIndex];
-        onTranscript(transcript);
-        wordIndex++;
-      } else {
-        clearInterval(intervalId);
-      }
-    }, 300); // Add a new word every 300ms
-    
-    // Store the interval ID to clear it later
-    this.socket = { close: () => clearInterval(intervalId) } as unknown as WebSocket;
+    const session: LiveSession = {
+      recorder: new AudioRecorder(),
+      buffer: [],
+      bufferedSamples: 0,
+      windowStart: 0,
+      segments: [],
+      queue: Promise.resolve(),
+      pendingWindows: 0,
+      onTranscript,
+      onError
+    };
+    this.session = session;
+
+    try {
+      await session.recorder.startRecording(undefined, (samples, sampleRate) => {
+        const resampled = resample(samples, sampleRate);
+        session.buffer.push(resampled);
+        session.bufferedSamples += resampled.length;
+
+        if (session.bufferedSamples >= LIVE_WINDOW_SECONDS * TRANSCRIPTION_SAMPLE_RATE) {
+          this.flushWindow(session, false);
+        }
+      });
+    } catch (error) {
+      this.session = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Stop real-time transcription, wait for the last windows and return the full transcript
+   * together with the recording
+   */
+  async stopRealtimeTranscription(): Promise<LiveTranscriptionResult | null> {
+    const session = this.session;
+    if (!session) {
+      return null;
+    }
+    this.session = null;
+
+    const audioBlob = await session.recorder.stopRecording();
+    this.flushWindow(session, true);
+    await session.queue;
+
+    return {
+      text: transcriptToText(session.segments),
+      segments: session.segments,
+      duration: session.windowStart,
+      language: session.language,
+      audioBlob
+    };
   }
 
   /**
-   * Stop real-time transcription
+   * Whether a live transcription is running
    */
-  stopRealtimeTranscription(): void {
-    if (this.socket) {
-      this.socket.close();
-      this.socket = null;
+  isTranscribing(): boolean {
+    return this.session !== null;
+  }
+
+  // Cut the buffered audio into a window and queue it for transcription
+  private flushWindow(session: LiveSession, isFinal: boolean): void {
+    if (session.bufferedSamples === 0) {
+      return;
+    }
+
+    const samples = concatSamples(session.buffer, session.bufferedSamples);
+    const cut = isFinal ? samples.length : findCutPoint(samples);
+    const windowSamples = samples.slice(0, cut);
+    const remainder = samples.slice(cut);
+
+    const start = session.windowStart;
+    session.windowStart += windowSamples.length / TRANSCRIPTION_SAMPLE_RATE;
+    session.buffer = remainder.length ? [remainder] : [];
+    session.bufferedSamples = remainder.length;
+
+    if (rms(windowSamples) < SILENCE_RMS) {
+      this.emitUpdate(session);
+      return;
+    }
+
+    const wav = encodeWav(windowSamples, TRANSCRIPTION_SAMPLE_RATE);
+    session.pendingWindows++;
+    this.emitUpdate(session);
+
+    // Windows are transcribed one after another so the transcript stays in order
+    session.queue = session.queue.then(async () => {
+      try {
+        const result = await this.transcribeWindow(wav, session.language);
+        session.language = session.language || result.language;
+        session.segments = [
+          ...session.segments,
+          ...result.segments.map(segment => ({
+            ...segment,
+            start: Math.round((segment.start + start) * 100) / 100
+          }))
+        ];
+      } catch (error) {
+        console.error(`Error transcribing live audio at ${Math.round(start)}s:`, error);
+        session.onError(new Error(`Could not transcribe the audio at ${Math.round(start)}s`));
+      } finally {
+        session.pendingWindows--;
+        this.emitUpdate(session);
+      }
+    });
+  }
+
+  private async transcribeWindow(wav: Blob, language?: string): Promise<TimedTranscription> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await transcribeWithTimestamps(wav, { fileName: 'live.wav', language });
+      } catch (error) {
+        if (attempt >= LIVE_MAX_ATTEMPTS) throw error;
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
     }
-    this.isListening = false;
+  }
+
+  private emitUpdate(session: LiveSession): void {
+    session.onTranscript({
+      segments: session.segments,
+      text: transcriptToText(session.segments),
+      recordedSeconds: session.windowStart + session.bufferedSamples / TRANSCRIPTION_SAMPLE_RATE,
+      pendingWindows: session.pendingWindows
+    });
   }
 
   /**
@@ -114,7 +259,7 @@ export class SpeechToTextService {
    * @param knowledgebaseId Knowledgebase ID
    * @param audioBlob Audio blob to save
    * @param fileName File name
-   * @returns The URL of the saved audio file
+   * @returns The storage path of the saved audio file
    */
   async saveAudioFile(
     userId: string,
@@ -123,27 +268,9 @@ export class SpeechToTextService {
     fileName: string = `recording-${Date.now()}.webm`
   ): Promise<string> {
     try {
-      // Create a storage path
-      const filePath = `${userId}/${knowledgebaseId}/${fileName}`;
-      
-      // Upload the audio file to Supabase storage
-      const { data, error } = await supabase.storage
-        .from('audio_recordings')
-        .upload(filePath, audioBlob, {
-          contentType: 'audio/webm',
-          upsert: false
-        });
-      
-      if (error) {
-        throw error;
-      }
-      
-      // Get the public URL
-      const { data: urlData } = supabase.storage
-        .from('audio_recordings')
-        .getPublicUrl(filePath);
-      
-      return urlData.publicUrl;
+      // Kept with the other originals, so citations can play the recording back
+      const file = new File([audioBlob], fileName, { type: audioBlob.type || 'audio/webm' });
+      return await knowledgebaseService.uploadOriginalFile(userId, knowledgebaseId, file);
     } catch (error) {
       console.error('Error saving audio file:', error);
       throw new Error('Failed to save audio file');
@@ -16,11 +16,18 @@ export type User = {
   updated_at: string;
 };
 
+export type SearchSettings = {
+  vector_weight: number;
+  keyword_weight: number;
+  rrf_k: number;
+};
+
 export type Knowledgebase = {
   id: string;
   user_id: string;
   title: string;
   description: string;
+  search_settings?: Partial<SearchSettings>;
   created_at: string;
   updated_at: string;
 };
@@ -36,12 +43,89 @@ export type FileRecord = {
   source_url?: string;
   content_text?: string;
   content_length?: number;
-  extraction_status?: 'pending' | 'completed' | 'failed';
+  extraction_status?: 'pending' | 'processing' | 'completed' | 'failed';
+  extraction_error?: string | null;
+  extraction_attempts?: number;
+  index_status?: 'indexed' | 'failed' | null; // NULL until the file's chunks are embedded
+  index_error?: string | null;
+  indexed_at?: string | null;
+  website_source_id?: string | null;
+  content_hash?: string | null;
+  last_synced_at?: string | null;
+  sync_interval_hours?: number | null;
+  last_sync_summary?: FileSyncSummary | null;
   metadata?: any;
   created_at: string;
   updated_at: string;
 };
 
+// Outcome of re-fetching a website or YouTube file from its source
+export type FileSyncSummary = {
+  status: 'unchanged' | 'changed' | 'failed';
+  checked_at: string;
+  added?: number; // Paragraphs, or transcript lines for videos
+  removed?: number;
+  previous_length?: number;
+  new_length?: number;
+  added_samples?: string[];
+  removed_samples?: string[];
+  error?: string;
+};
+
+export type WebsiteSource = {
+  id: string;
+  user_id: string;
+  knowledgebase_id: string;
+  root_url: string;
+  title?: string | null;
+  max_depth: number;
+  max_pages: number;
+  use_sitemap: boolean;
+  page_count: number;
+  last_synced_at?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Where a chunk sits in its source file
+export interface ChunkMetadata {
+  page_start?: number; // PDF pages
+  page_end?: number;
+  slide_start?: number; // PPTX slides
+  slide_end?: number;
+  section?: string; // Heading number in structured documents, e.g. "3.2"
+  section_title?: string; // Also the topic section title of transcripts
+  start_time?: number; // Seconds into a transcript
+  end_time?: number;
+  chapter?: string; // YouTube chapter the chunk starts in
+}
+
+export type FileChunk = {
+  id: string;
+  file_id: string;
+  knowledgebase_id: string;
+  user_id: string;
+  chunk_index: number;
+  content: string;
+  start_offset?: number | null;
+  end_offset?: number | null;
+  metadata?: ChunkMetadata;
+  similarity?: number;
+  created_at?: string;
+};
+
+export type UserAISettings = {
+  user_id: string;
+  chat_model: string;
+  notes_model: string;
+  temperature: number;
+  max_tokens: number;
+  notes_max_tokens: number; // Study notes and podcast scripts are longer than chat answers
+  has_api_key?: boolean;
+  created_at?: string;
+  updated_at?: string;
+};
+
 export type Chat = {
   id: string;
   user_id: string;
@@ -61,6 +145,9 @@ export type Message = {
     fileId: string;
     text: string;
     position?: number;
+    location?: string;
+    page?: number;
+    docIndex?: number;
   }[];
   created_at: string;
 }; 
\ No newline at end of file
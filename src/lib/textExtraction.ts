@@ -7,7 +7,13 @@ import * as pdfjsLib from 'pdfjs-dist';
 import { TextItem } from 'pdfjs-dist/types/src/display/api';
 import mammoth from 'mammoth';
 import JSZip from 'jszip';
-import { scrapeWebsite } from './websiteScraper';
+import { scrapeWebsite, getWebsiteFileMetadata } from './websiteScraper';
+import { htmlToMarkdown, numberMarkdownSections } from './htmlToMarkdown';
+import { recognizeText, terminateOcrWorker, MIN_TEXT_CHARS_PER_PAGE } from './ocr';
+import { transcribeLongAudio, TimedTranscription } from './transcription';
+import { extractAudio } from './audioExtraction';
+import { fetchYoutubeMetadata, fetchYoutubeTranscript, YoutubeVideoMetadata } from './youtubeService';
+import { chunkTranscriptByTopic, toSectionBounds, TranscriptSectionBounds } from './transcriptChunker';
 
 // Set the worker source
 pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
@@ -24,6 +30,21 @@ export interface ExtractedContent {
   };
 }
 
+// Render a PDF page to a canvas at a resolution that OCR reads well
+async function renderPdfPageToCanvas(page: pdfjsLib.PDFPageProxy, scale: number = 2): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+  return canvas;
+}
+
+// Average OCR confidence over pages, rounded to a whole percentage
+const averageConfidence = (pages: { confidence: number }[]): number =>
+  Math.round(pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length);
+
 /**
  * Extract text from a PDF file using PDF.js
  * This is a client-side implementation that works in the browser
@@ -43,19 +64,42 @@ export async function extractTextFromPdf(file: File): Promise<ExtractedContent>
     console.log(`[PDF Extraction] PDF has ${totalPages} pages`);
     
     let fullText = '';
+    const ocrPages: { page: number; confidence: number }[] = [];
     
-    // Iterate through each page
-    for (let i = 1; i <= totalPages; i++) {
-      console.log(`[PDF Extraction] Processing page ${i}/${totalPages}`);
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      
-      // Extract text items and join them
-      const pageText = textContent.items
-        .map((item: TextItem) => item.str)
-        .join(' ');
+    try {
+      // Iterate through each page
+      for (let i = 1; i <= totalPages; i++) {
+        console.log(`[PDF Extraction] Processing page ${i}/${totalPages}`);
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        
+        // Extract text items and join them
+        let pageText = textContent.items
+          .map((item: TextItem) => item.str)
+          .join(' ');
+        
+        // Scanned pages have no text layer, so read them with OCR instead
+        if (pageText.replace(/\s/g, '').length < MIN_TEXT_CHARS_PER_PAGE) {
+          try {
+            console.log(`[PDF Extraction] Page ${i} has little text, running OCR`);
+            const ocr = await recognizeText(await renderPdfPageToCanvas(page));
+            
+            if (ocr.text.length > pageText.trim().length) {
+              pageText = ocr.text;
+              ocrPages.push({ page: i, confidence: ocr.confidence });
+              console.log(`[PDF Extraction] OCR read ${ocr.text.length} characters from page ${i} (confidence ${ocr.confidence}%)`);
+            }
+          } catch (ocrError) {
+            console.error(`[PDF Extraction] OCR failed for page ${i}:`, ocrError);
+          }
+        }
+        
+        fullText += `[Page ${i}]\n${pageText}\n\n`;
+      }
       
-      fullText += `[Page ${i}]\n${pageText}\n\n`;
+    } finally {
+      // The OCR worker is started by the first scanned page, stop it whatever happened since
+      await terminateOcrWorker();
     }
     
     console.log(`[PDF Extraction] Extracted ${fullText.length} characters of text`);
@@ -66,7 +110,11 @@ export async function extractTextFromPdf(file: File): Promise<ExtractedContent>
       metadata: {
         source_type: 'pdf',
         page_count: totalPages,
-        title: file.name
+        title: file.name,
+        ...(ocrPages.length > 0 ? {
+          ocr_pages: ocrPages,
+          ocr_confidence: averageConfidence(ocrPages)
+        } : {})
       }
     };
   } catch (error) {
@@ -76,31 +124,83 @@ export async function extractTextFromPdf(file: File): Promise<ExtractedContent>
 }
 
 /**
- * Extract text from a DOCX file
- * This would typically be handled server-side
+ * Extract text from a DOCX file using mammoth
+ * Headings, lists and tables are kept as markdown, and headings are numbered into sections
  */
 export async function extractTextFromDocx(file: File): Promise<ExtractedContent> {
-  // In a real implementation, you would use a library like mammoth.js
-  // For now, we'll return a placeholder
-  console.log(`[DOCX Extraction] Starting extraction for ${file.name} (${formatFileSize(file.size)})`);
-  
-  // Generate some placeholder text
-  const text = `This is simulated content extracted from the DOCX file: ${file.name}\n\n` +
-    `Document Title: ${file.name.replace('.docx', '')}\n` +
-    `Document Size: ${formatFileSize(file.size)}\n\n` +
-    `Lorem ipsum dolor sit amet, consectetur adipiscing elit. Sed do eiusmod tempor incididunt ut labore et dolore magna aliqua. Ut enim ad minim veniam, quis nostrud exercitation ullamco laboris nisi ut aliquip ex ea commodo consequat. Duis aute irure dolor in reprehenderit in voluptate velit esse cillum dolore eu fugiat nulla pariatur.\n\n` +
-    `Excepteur sint occaecat cupidatat non proident, sunt in culpa qui officia deserunt mollit anim id est laborum.`;
-  
-  console.log(`[DOCX Extraction] Extracted ${text.length} characters of text`);
-  console.log(`[DOCX Extraction] Text sample: ${text.substring(0, 100)}...`);
-  
-  return {
-    text,
-    metadata: {
-      source_type: 'docx',
-      title: file.name
+  try {
+    console.log(`[DOCX Extraction] Starting extraction for ${file.name} (${formatFileSize(file.size)})`);
+    
+    // Read the file as ArrayBuffer
+    const arrayBuffer = await file.arrayBuffer();
+    
+    // Convert to HTML first, which keeps the document structure that raw text loses
+    const result = await mammoth.convertToHtml({ arrayBuffer }, {
+      ignoreEmptyParagraphs: true,
+      // Images aren't searchable, so don't inline them as base64
+      convertImage: mammoth.images.imgElement(async () => ({ src: '' }))
+    });
+    
+    const { text, sections } = numberMarkdownSections(htmlToMarkdown(result.value));
+    
+    console.log(`[DOCX Extraction] Extracted ${text.length} characters of text with ${sections.length} sections`);
+    console.log(`[DOCX Extraction] Text sample: ${text.substring(0, 100)}...`);
+    
+    // Log any warnings
+    if (result.messages.length > 0) {
+      console.log(`[DOCX Extraction] Warnings:`, result.messages);
     }
-  };
+    
+    // Estimate page count based on text length (rough estimate)
+    const estimatedPageCount = Math.max(1, Math.ceil(text.length / 3000)); // ~3000 chars per page
+    
+    return {
+      text,
+      metadata: {
+        source_type: 'docx',
+        page_count: estimatedPageCount,
+        title: file.name,
+        format: 'markdown',
+        sections,
+        warnings: result.messages
+      }
+    };
+  } catch (error) {
+    console.error('[DOCX Extraction] Error extracting text from DOCX:', error);
+    throw new Error(`Failed to extract text from DOCX: ${error.message}`);
+  }
+}
+
+/**
+ * Extract text from a PNG or JPG image using OCR
+ */
+export async function extractTextFromImage(file: File): Promise<ExtractedContent> {
+  try {
+    console.log(`[Image Extraction] Starting OCR for ${file.name} (${formatFileSize(file.size)})`);
+    
+    const ocr = await recognizeText(file);
+    await terminateOcrWorker();
+    
+    if (!ocr.text) {
+      throw new Error('No text was found in the image');
+    }
+    
+    console.log(`[Image Extraction] OCR read ${ocr.text.length} characters (confidence ${ocr.confidence}%)`);
+    
+    return {
+      text: ocr.text,
+      metadata: {
+        source_type: 'image',
+        title: file.name,
+        extraction_method: 'ocr',
+        ocr_pages: [{ page: 1, confidence: ocr.confidence }],
+        ocr_confidence: ocr.confidence
+      }
+    };
+  } catch (error) {
+    console.error('[Image Extraction] Error extracting text from image:', error);
+    throw new Error(`Failed to extract text from image: ${error.message}`);
+  }
 }
 
 /**
@@ -154,95 +254,34 @@ export async function extractTextFromYouTube(
       throw new Error('Invalid YouTube URL');
     }
     
-    // First, try to get video metadata from YouTube's oEmbed API
-    let videoMetadata = null;
+    // Title, channel, publish date, description and chapters, through the backend
+    let videoMetadata: YoutubeVideoMetadata | null = null;
     try {
-      console.log(`[YouTube Extraction] Fetching video metadata from oEmbed API`);
-      const oEmbedResponse = await fetch(`https://www.youtube.com/oembed?url=${encodeURIComponent(videoUrl)}&format=json`);
-      
-      if (oEmbedResponse.ok) {
-        videoMetadata = await oEmbedResponse.json();
-        console.log(`[YouTube Extraction] Successfully fetched video metadata: "${videoMetadata.title}" by ${videoMetadata.author_name}`);
-        // Update the title with the actual video title
-        videoTitle = videoMetadata.title;
-      } else {
-        console.log(`[YouTube Extraction] Failed to fetch video metadata: ${oEmbedResponse.status}`);
-      }
+      console.log(`[YouTube Extraction] Fetching video metadata`);
+      videoMetadata = await fetchYoutubeMetadata(videoId);
+      console.log(`[YouTube Extraction] Fetched video metadata: "${videoMetadata.title}" by ${videoMetadata.channelName} (${videoMetadata.chapters.length} chapters)`);
+      videoTitle = videoMetadata.title || videoTitle;
     } catch (metadataError) {
+      // The transcript is still worth having without the details
       console.log(`[YouTube Extraction] Error fetching video metadata: ${metadataError.message}`);
     }
     
-    // Use SearchAPI.io's YouTube Transcripts API
-    console.log(`[YouTube Extraction] Fetching transcript using SearchAPI.io YouTube Transcripts API`);
-    
-    // Construct the API URL with proper parameters as per documentation
-    const apiUrl = new URL('https://www.searchapi.io/api/v1/search');
-    apiUrl.searchParams.append('engine', 'youtube_transcripts');
-    apiUrl.searchParams.append('video_id', videoId);
-    apiUrl.searchParams.append('api_key', import.meta.env.VITE_SEARCH_API_KEY);
+    // SearchAPI.io first, then YouTube's own captions, then Whisper on the video's audio
+    console.log(`[YouTube Extraction] Fetching transcript`);
+    const transcript = await fetchYoutubeTranscript(videoId);
+    const formattedTranscript = transcript.segments;
+    console.log(`[YouTube Extraction] Fetched ${formattedTranscript.length} segments with ${transcript.method}`);
     
-    console.log(`[YouTube Extraction] API URL: ${apiUrl.toString().replace(import.meta.env.VITE_SEARCH_API_KEY, '[REDACTED]')}`);
-    
-    const response = await fetch(apiUrl.toString());
-    
-    if (!response.ok) {
-      throw new Error(`SearchAPI.io returned status: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    // Log the response structure to debug
-    console.log(`[YouTube Extraction] API Response structure:`, Object.keys(data));
-    
-    // Detailed inspection of the response
-    if (data.search_metadata) {
-      console.log(`[YouTube Extraction] Search metadata status: ${data.search_metadata.status}`);
-    }
-    
-    if (data.search_parameters) {
-      console.log(`[YouTube Extraction] Search parameters:`, data.search_parameters);
-    }
-    
-    // Check for transcript data in different possible locations
-    let transcriptData = null;
-    
-    if (data.transcript && Array.isArray(data.transcript) && data.transcript.length > 0) {
-      transcriptData = data.transcript;
-      console.log(`[YouTube Extraction] Found transcript in 'transcript' field with ${transcriptData.length} segments`);
-    } else if (data.transcripts && Array.isArray(data.transcripts) && data.transcripts.length > 0) {
-      transcriptData = data.transcripts;
-      console.log(`[YouTube Extraction] Found transcript in 'transcripts' field with ${transcriptData.length} segments`);
-    } else if (data.captions && Array.isArray(data.captions) && data.captions.length > 0) {
-      transcriptData = data.captions;
-      console.log(`[YouTube Extraction] Found transcript in 'captions' field with ${transcriptData.length} segments`);
-    } else {
-      // Log the full response for debugging (limiting to 1000 chars to avoid huge logs)
-      const responseStr = JSON.stringify(data);
-      console.error(`[YouTube Extraction] Full API response (truncated):`, responseStr.substring(0, 1000));
-      
-      throw new Error(`No transcript found in the API response. Response structure: ${Object.keys(data).join(', ')}`);
+    // Titled topic sections, used both for retrieval chunks and the transcript panel
+    let transcriptSections: TranscriptSectionBounds[] = [];
+    try {
+      transcriptSections = toSectionBounds(await chunkTranscriptByTopic(formattedTranscript, videoMetadata?.chapters || []));
+      console.log(`[YouTube Extraction] Split transcript into ${transcriptSections.length} sections`);
+    } catch (sectionError) {
+      // The panel and retrieval fall back to pause-based sections
+      console.log(`[YouTube Extraction] Error splitting transcript into sections: ${sectionError.message}`);
     }
     
-    // Ensure the transcript segments have the required format
-    const formattedTranscript = transcriptData.map((segment: any, index: number) => {
-      // Log a sample of segments to understand their structure
-      if (index < 3) {
-        console.log(`[YouTube Extraction] Sample segment ${index}:`, segment);
-      }
-      
-      return {
-        text: segment.text || segment.content || '',
-        start: typeof segment.start === 'number' 
-          ? segment.start 
-          : typeof segment.offset === 'number'
-            ? segment.offset / 1000 // Convert ms to seconds if using offset
-            : parseFloat(segment.start || segment.offset || '0'),
-        duration: typeof segment.duration === 'number' 
-          ? segment.duration 
-          : parseFloat(segment.duration || '0')
-      };
-    });
-    
     // Convert the transcript to JSON string to store in the database
     const transcriptJson = JSON.stringify(formattedTranscript);
     
@@ -260,11 +299,20 @@ export async function extractTextFromYouTube(
         title: videoTitle,
         video_id: videoId,
         video_url: videoUrl,
-        duration: totalDuration,
+        duration: videoMetadata?.duration || totalDuration,
         segment_count: formattedTranscript.length,
-        author: videoMetadata?.author_name || null,
-        thumbnail_url: videoMetadata?.thumbnail_url || null,
-        extraction_method: 'searchapi_youtube_transcripts'
+        author: videoMetadata?.channelName || null,
+        channel: videoMetadata?.channelName || null,
+        channel_id: videoMetadata?.channelId || null,
+        published_at: videoMetadata?.publishedAt || null,
+        description: videoMetadata?.description || null,
+        chapters: videoMetadata?.chapters || [],
+        transcript_sections: transcriptSections,
+        thumbnail_url: videoMetadata?.thumbnailUrl || null,
+        metadata_source: videoMetadata?.source || null,
+        extraction_method: transcript.method,
+        transcript_language: transcript.language,
+        transcript_translated_from: transcript.translatedFrom
       }
     };
   } catch (error) {
@@ -409,51 +457,50 @@ export async function extractTextFromDoc(file: File): Promise<ExtractedContent>
 }
 
 /**
- * Extract text from an audio file using OpenAI's Whisper API
+ * Transcribe an audio or video file with Whisper. The text is stored as timestamped
+ * segments ([{text, start, duration}]), the same shape as YouTube transcripts.
+ * Recordings over the upload limit are transcribed in overlapping segments.
  */
-export async function extractTextFromAudio(file: File): Promise<ExtractedContent> {
+export async function extractTextFromAudio(file: File, sourceType: 'audio' | 'video' = 'audio'): Promise<ExtractedContent> {
   try {
     console.log(`[Audio Extraction] Starting extraction for ${file.name} (${formatFileSize(file.size)})`);
     
-    // Create a FormData object to send the audio file
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('model', 'whisper-1');
-    formData.append('language', 'en'); // You can make this configurable
-    
-    console.log(`[Audio Extraction] Sending request to OpenAI Whisper API`);
-    
-    // Make the API request
-    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`
-      },
-      body: formData
-    });
+    console.log(`[Audio Extraction] Sending request to the transcription provider`);
+    
+    // Send only the audio track of videos, as compact mono audio
+    let audio: Blob = file;
+    if (sourceType === 'video') {
+      console.log(`[Audio Extraction] Extracting the audio track with ffmpeg`);
+      audio = await extractAudio(file);
+      console.log(`[Audio Extraction] Extracted ${formatFileSize(audio.size)} of audio`);
+    }
     
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
+    let transcription: TimedTranscription;
+    try {
+      transcription = await transcribeLongAudio(audio, { fileName: sourceType === 'video' ? 'audio.mp3' : file.name });
+    } catch (error) {
+      const errorData = error.response?.data || {};
       console.error(`[Audio Extraction] API Error:`, errorData);
-      throw new Error(`Whisper API returned status: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
+      throw new Error(`Transcription API returned status: ${error.response?.status} - ${errorData.error?.message || error.message || 'Unknown error'}`);
     }
     
-    const data = await response.json();
-    const text = data.text;
+    if (transcription.segments.length === 0) {
+      throw new Error('No speech found in the recording');
+    }
     
-    console.log(`[Audio Extraction] Successfully transcribed audio with ${text.length} characters`);
-    console.log(`[Audio Extraction] Text sample: ${text.substring(0, 100)}...`);
+    const text = JSON.stringify(transcription.segments);
     
-    // Estimate duration based on file size (very rough estimate)
-    // A more accurate approach would be to use the Web Audio API to get the actual duration
-    const estimatedDuration = Math.floor(file.size / 16000); // Assuming 16kbps audio
+    console.log(`[Audio Extraction] Successfully transcribed ${transcription.segments.length} segments (${transcription.text.length} characters)`);
+    console.log(`[Audio Extraction] Text sample: ${transcription.text.substring(0, 100)}...`);
     
     return {
       text,
       metadata: {
-        source_type: 'audio',
+        source_type: sourceType,
         title: file.name,
-        duration: estimatedDuration,
+        duration: Math.round(transcription.duration),
+        language: transcription.language,
+        segment_count: transcription.segments.length,
         extraction_method: 'openai_whisper',
         file_type: file.type,
         file_size: file.size
@@ -489,12 +536,9 @@ export async function extractTextFromWebsite(
     return {
       text: scrapedData.text,
       metadata: {
-        source_type: 'website',
+        ...getWebsiteFileMetadata(scrapedData),
         title: scrapedData.title || websiteTitle,
-        url: websiteUrl,
-        wordCount: scrapedData.metadata.wordCount,
-        paragraphCount: scrapedData.metadata.paragraphCount,
-        headings: scrapedData.metadata.headings
+        url: websiteUrl
       }
     };
   } catch (error) {
@@ -516,7 +560,7 @@ export async function extractTextFromFile(file: File): Promise<ExtractedContent>
       return extractTextFromPdf(file);
     } else if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
       console.log('[Text Extraction] Detected DOCX file, using DOCX extractor');
-      return extractTextFromDoc(file);
+      return extractTextFromDocx(file);
     } else if (file.type === 'application/msword') {
       console.log('[Text Extraction] Detected DOC file, using DOC extractor');
       return extractTextFromDoc(file);
@@ -542,29 +586,15 @@ export async function extractTextFromFile(file: File): Promise<ExtractedContent>
     } else if (file.type === 'text/plain') {
       console.log('[Text Extraction] Detected TXT file, using TXT extractor');
       return extractTextFromTxt(file);
+    } else if (file.type === 'image/png' || file.type === 'image/jpeg') {
+      console.log('[Text Extraction] Detected image file, using OCR');
+      return extractTextFromImage(file);
     } else if (file.type.includes('audio')) {
       console.log('[Text Extraction] Detected audio file, using Whisper API for transcription');
       return extractTextFromAudio(file);
     } else if (file.type.includes('video')) {
-      // For video files, you would use a speech-to-text service
-      console.log(`[Text Extraction] Detected video file, using placeholder transcription`);
-      
-      const text = `[Transcription] This is a placeholder for transcription from ${file.name}\n\n` +
-        `File: ${file.name}\n` +
-        `Type: ${file.type}\n` +
-        `Size: ${formatFileSize(file.size)}\n\n` +
-        `This is simulated transcription content. In a real implementation, you would use a speech-to-text service to transcribe the video content.`;
-      
-      console.log(`[Text Extraction] Generated ${text.length} characters of transcription`);
-      
-      return {
-        text,
-        metadata: {
-          source_type: 'video',
-          title: file.name,
-          duration: Math.floor(file.size / 10000) // Rough estimate of duration in seconds
-        }
-      };
+      console.log('[Text Extraction] Detected video file, extracting audio for Whisper API transcription');
+      return extractTextFromAudio(file, 'video');
     } else {
       // Default fallback for unsupported file types
       console.log(`[Text Extraction] Unsupported file type: ${file.type}, using generic extractor`);
@@ -573,7 +603,7 @@ export async function extractTextFromFile(file: File): Promise<ExtractedContent>
         `File: ${file.name}\n` +
         `Type: ${file.type}\n` +
         `Size: ${formatFileSize(file.size)}\n\n` +
-        `This file type is not directly supported for text extraction. Please convert to a supported format (PDF, DOCX, PPTX, TXT) for better results.`;
+        `This file type is not directly supported for text extraction. Please convert to a supported format (PDF, DOCX, PPTX, TXT, PNG, JPG) for better results.`;
       
       console.log(`[Text Extraction] Generated ${text.length} characters of generic text`);
       
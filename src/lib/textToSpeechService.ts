@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { llmProvider } from './llmProvider';
+import { userSettingsService } from './userSettingsService';
 
 /**
  * Service for text-to-speech conversion
@@ -12,32 +14,9 @@ export const textToSpeechService = {
    */
   async convertTextToSpeech(text: string, voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer' = 'nova'): Promise<Blob> {
     try {
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      
-      if (!apiKey) {
-        throw new Error('OpenAI API key is not set in environment variables');
-      }
-      
       console.log(`Converting text to speech using ${voice} voice...`);
       
-      const response = await axios.post(
-        'https://api.openai.com/v1/audio/speech',
-        {
-          model: 'tts-1',
-          input: text,
-          voice: voice,
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          },
-          responseType: 'arraybuffer'
-        }
-      );
-      
-      // Convert the response to a Blob
-      const audioBlob = new Blob([response.data], { type: 'audio/mpeg' });
+      const audioBlob = await llmProvider.synthesizeSpeech(text, voice);
       return audioBlob;
     } catch (error) {
       console.error('Error converting text to speech:', error);
@@ -90,56 +69,41 @@ export const textToSpeechService = {
    */
   async generatePodcastScript(files: { id: string; name: string; content: string }[], title: string): Promise<string> {
     try {
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      
-      if (!apiKey) {
-        throw new Error('OpenAI API key is not set in environment variables');
-      }
-      
       // Prepare the content from files
       const fileContents = files.map(file => {
         return `File: ${file.name}\n\n${file.content.substring(0, 1000)}${file.content.length > 1000 ? '...' : ''}`;
       }).join('\n\n---\n\n');
       
-      // Generate podcast script using OpenAI
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-3.5-turbo',
-          messages: [
-            { 
-              role: 'system', 
-              content: `You are a professional podcast host and educator. Your task is to create a podcast script based on the provided content.
-              The podcast should be engaging, informative, and flow naturally as if it's being spoken.
-              
-              PODCAST FORMAT:
-              1. Start with a brief introduction to the topic
-              2. Present the key points from the content in a conversational style
-              3. Explain complex concepts in simple terms
-              4. Include transitions between different sections
-              5. End with a summary and conclusion
-              
-              Keep the script concise and focused, suitable for a 5-10 minute podcast.
-              Do not include any timestamps, sound effects, or speaker names.
-              Write in a natural, conversational tone that sounds good when read aloud.`
-            },
-            { 
-              role: 'user', 
-              content: `Please create a podcast script for a podcast titled "${title}" based on the following content:\n\n${fileContents}`
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 2000
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
+      // Generate podcast script using the chat provider
+      const script = await llmProvider.createChatCompletion({
+        messages: [
+          { 
+            role: 'system', 
+            content: `You are a professional podcast host and educator. Your task is to create a podcast script based on the provided content.
+            The podcast should be engaging, informative, and flow naturally as if it's being spoken.
+            
+            PODCAST FORMAT:
+            1. Start with a brief introduction to the topic
+            2. Present the key points from the content in a conversational style
+            3. Explain complex concepts in simple terms
+            4. Include transitions between different sections
+            5. End with a summary and conclusion
+            
+            Keep the script concise and focused, suitable for a 5-10 minute podcast.
+            Do not include any timestamps, sound effects, or speaker names.
+            Write in a natural, conversational tone that sounds good when read aloud.`
+          },
+          { 
+            role: 'user', 
+            content: `Please create a podcast script for a podcast titled "${title}" based on the following content:\n\n${fileContents}`
           }
-        }
-      );
+        ],
+        model: userSettingsService.getActiveAISettings().notes_model,
+        temperature: userSettingsService.getActiveAISettings().temperature,
+        max_tokens: userSettingsService.getActiveAISettings().notes_max_tokens
+      });
       
-      return response.data.choices[0].message.content;
+      return script;
     } catch (error) {
       console.error('Error generating podcast script:', error);
       
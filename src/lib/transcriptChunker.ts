@@ -0,0 +1,443 @@
+/**
+ * Topic-aware chunking of timed transcripts for Sattva AI
+ * Caption fragments are merged into sentences, punctuation is restored where the captions have none,
+ * and the transcript is split where neighbouring passages stop being about the same thing
+ */
+
+import { knowledgebaseService } from './knowledgebaseService';
+import { llmProvider } from './llmProvider';
+import { getChapterAt, type ChunkedTranscript, type TranscriptSegment, type YoutubeChapter } from './youtubeService';
+
+export interface TranscriptSentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A section as stored in a file's metadata.transcript_sections
+export interface TranscriptSectionBounds {
+  title: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSection extends ChunkedTranscript {
+  title: string;
+}
+
+// Sentences are grouped into blocks of about this length, the units that are compared for topic shifts
+const BLOCK_SECONDS = 20;
+// Blocks averaged on each side of a possible boundary, so one off-topic remark doesn't split a section
+const SIMILARITY_WINDOW = 3;
+
+const MIN_SECTION_SECONDS = 60;
+const MAX_SECTION_SECONDS = 5 * 60;
+// Without embeddings there's no topic signal, so sections are kept short enough to skim
+const MAX_UNTOPICAL_SECTION_SECONDS = 2 * 60;
+
+// Captions without punctuation are broken into sentences at pauses and at segment ends past this length
+const PAUSE_SECONDS = 1;
+const MAX_SENTENCE_WORDS = 25;
+const MAX_PUNCTUATED_SENTENCE_WORDS = 80;
+
+const TITLE_BATCH_SIZE = 20;
+const TITLE_EXCERPT_LENGTH = 500;
+const FALLBACK_TITLE_WORDS = 8;
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+// Abbreviations whose full stop doesn't end a sentence
+const ABBREVIATION = /^(mr|mrs|ms|dr|prof|st|vs|etc|e\.g|i\.e|approx|fig|no)\.$/i;
+// Sound descriptions like [Music] or (applause) aren't speech
+const SOUND_CUE = /\[[^\]]*\]|\((?:music|applause|laughter|laughs|inaudible)\)/gi;
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  pauseBefore: number;
+  startsSegment: boolean;
+  speakerChange: boolean; // Captions mark a new speaker with >>
+}
+
+interface SentenceBlock {
+  sentences: TranscriptSentence[];
+  text: string;
+  start: number;
+  end: number;
+  pauseBefore: number;
+}
+
+const round = (seconds: number): number => Math.round(seconds * 100) / 100;
+
+// Split segments into words, timing each word by its position in the segment
+const toTimedWords = (segments: TranscriptSegment[]): TimedWord[] => {
+  const words: TimedWord[] = [];
+  let previousEnd: number | null = null;
+  let speakerChange = false;
+  
+  for (const segment of segments) {
+    const text = (segment.text || '').replace(SOUND_CUE, ' ').replace(/\s+/g, ' ').trim();
+    const duration = segment.duration || 0;
+    const pause = previousEnd === null ? 0 : Math.max(0, segment.start - previousEnd);
+    previousEnd = segment.start + duration;
+    if (!text) continue;
+    
+    let offset = 0;
+    let startsSegment = true;
+    for (const part of text.split(' ')) {
+      if (part === '>>') {
+        speakerChange = true;
+      } else {
+        words.push({
+          text: part,
+          start: segment.start + duration * offset / text.length,
+          end: segment.start + duration * (offset + part.length) / text.length,
+          pauseBefore: startsSegment ? pause : 0,
+          startsSegment,
+          speakerChange
+        });
+        startsSegment = false;
+        speakerChange = false;
+      }
+      offset += part.length + 1;
+    }
+  }
+  
+  return words;
+};
+
+/**
+ * Capitalise a sentence from unpunctuated captions and end it with a full stop
+ */
+export function restorePunctuation(sentence: string): string {
+  const text = sentence
+    .trim()
+    .replace(/\bi\b/g, 'I')
+    .replace(/[,;:\s]+$/, '');
+  if (!text) return text;
+  
+  const capitalised = text.charAt(0).toUpperCase() + text.slice(1);
+  return /[.!?…]["'”’)\]]*$/.test(capitalised) ? capitalised : `${capitalised}.`;
+}
+
+/**
+ * Merge caption fragments into timed sentences. Punctuated captions are split at sentence ends;
+ * auto-generated captions without punctuation are split at pauses and get their punctuation restored.
+ */
+export function mergeIntoSentences(segments: TranscriptSegment[]): TranscriptSentence[] {
+  const words = toTimedWords(segments);
+  if (words.length === 0) return [];
+  
+  // Auto-generated captions rarely have any sentence ends at all
+  const sentenceEnds = words.filter(word => SENTENCE_END.test(word.text)).length;
+  const isPunctuated = sentenceEnds >= words.length / 50;
+  
+  const sentences: TranscriptSentence[] = [];
+  let current: TimedWord[] = [];
+  
+  const flush = () => {
+    if (current.length === 0) return;
+    const text = current.map(word => word.text).join(' ');
+    sentences.push({
+      text: isPunctuated ? text.charAt(0).toUpperCase() + text.slice(1) : restorePunctuation(text),
+      start: round(current[0].start),
+      end: round(current[current.length - 1].end)
+    });
+    current = [];
+  };
+  
+  for (const word of words) {
+    const isBreak = word.speakerChange || (isPunctuated
+      ? current.length >= MAX_PUNCTUATED_SENTENCE_WORDS
+      : word.pauseBefore >= PAUSE_SECONDS ||
+        (word.startsSegment && current.length >= MAX_SENTENCE_WORDS) ||
+        current.length >= MAX_SENTENCE_WORDS * 2);
+    if (isBreak) flush();
+    
+    current.push(word);
+    if (isPunctuated && SENTENCE_END.test(word.text) && !ABBREVIATION.test(word.text)) {
+      flush();
+    }
+  }
+  flush();
+  
+  return sentences;
+}
+
+// Sentences of each chapter, grouped into blocks. Chapters always start a new section.
+const toBlockGroups = (sentences: TranscriptSentence[], chapters: YoutubeChapter[]): SentenceBlock[][] => {
+  const groups: SentenceBlock[][] = [];
+  let group: SentenceBlock[] = [];
+  let block: TranscriptSentence[] = [];
+  let chapter: string | undefined;
+  let previousEnd = 0;
+  
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    group.push({
+      sentences: block,
+      text: block.map(sentence => sentence.text).join(' '),
+      start: block[0].start,
+      end: block[block.length - 1].end,
+      pauseBefore: Math.max(0, block[0].start - previousEnd)
+    });
+    previousEnd = block[block.length - 1].end;
+    block = [];
+  };
+  
+  sentences.forEach((sentence, index) => {
+    const sentenceChapter = getChapterAt(chapters, sentence.start)?.title;
+    if (index > 0 && sentenceChapter !== chapter) {
+      flushBlock();
+      groups.push(group);
+      group = [];
+    }
+    chapter = sentenceChapter;
+    
+    block.push(sentence);
+    if (sentence.end - block[0].start >= BLOCK_SECONDS) {
+      flushBlock();
+    }
+  });
+  flushBlock();
+  groups.push(group);
+  
+  return groups.filter(blocks => blocks.length > 0);
+};
+
+const averageVectors = (vectors: number[][]): number[] | null => {
+  if (vectors.length === 0) return null;
+  return vectors[0].map((_, dimension) =>
+    vectors.reduce((sum, vector) => sum + vector[dimension], 0) / vectors.length
+  );
+};
+
+/**
+ * How strongly the topic shifts before each block: the dip in similarity between the blocks
+ * before and after it, measured against the nearest peaks on either side (TextTiling's depth score)
+ */
+const getDepthScores = (embeddings: (number[] | null)[]): number[] => {
+  const similarities = embeddings.map((_, index) => {
+    if (index === 0) return null;
+    const before = averageVectors(embeddings.slice(Math.max(0, index - SIMILARITY_WINDOW), index).filter(Boolean));
+    const after = averageVectors(embeddings.slice(index, index + SIMILARITY_WINDOW).filter(Boolean));
+    return before && after ? knowledgebaseService.cosineSimilarity(before, after) : null;
+  });
+  
+  return similarities.map((similarity, index) => {
+    if (similarity === null) return 0;
+    
+    let leftPeak = similarity;
+    for (let i = index - 1; i > 0 && similarities[i] !== null && similarities[i]! >= leftPeak; i--) {
+      leftPeak = similarities[i]!;
+    }
+    let rightPeak = similarity;
+    for (let i = index + 1; i < similarities.length && similarities[i] !== null && similarities[i]! >= rightPeak; i++) {
+      rightPeak = similarities[i]!;
+    }
+    
+    return (leftPeak - similarity) + (rightPeak - similarity);
+  });
+};
+
+/**
+ * The blocks that start a new section: the clearest topic shifts first, then splits of sections that
+ * are still too long at their best boundary. No section is made shorter than MIN_SECTION_SECONDS.
+ */
+const chooseBoundaries = (blocks: SentenceBlock[], scores: number[], threshold: number, maxSeconds: number): number[] => {
+  const boundaries: number[] = [];
+  
+  const fits = (index: number) => {
+    const sorted = [0, ...boundaries, blocks.length].sort((a, b) => a - b);
+    const next = sorted.find(boundary => boundary >= index)!;
+    const previous = sorted.filter(boundary => boundary < index).pop()!;
+    return next !== index &&
+      blocks[index - 1].end - blocks[previous].start >= MIN_SECTION_SECONDS &&
+      blocks[next - 1].end - blocks[index].start >= MIN_SECTION_SECONDS;
+  };
+  
+  blocks
+    .map((_, index) => index)
+    .filter(index => index > 0 && scores[index] > threshold)
+    .sort((a, b) => scores[b] - scores[a])
+    .forEach(index => {
+      if (fits(index)) boundaries.push(index);
+    });
+  
+  let split = true;
+  while (split) {
+    split = false;
+    const sorted = [0, ...boundaries, blocks.length].sort((a, b) => a - b);
+    
+    for (let i = 0; i < sorted.length - 1 && !split; i++) {
+      const [from, to] = [sorted[i], sorted[i + 1]];
+      if (blocks[to - 1].end - blocks[from].start <= maxSeconds) continue;
+      
+      let best = -1;
+      for (let index = from + 1; index < to; index++) {
+        if (fits(index) && (best === -1 || scores[index] > scores[best])) best = index;
+      }
+      if (best !== -1) {
+        boundaries.push(best);
+        split = true;
+      }
+    }
+  }
+  
+  return boundaries.sort((a, b) => a - b);
+};
+
+// Split each chapter's blocks into sections, by topic when there are embeddings and by pauses otherwise
+const toSectionSentences = (groups: SentenceBlock[][], embeddings: (number[] | null)[] | null): TranscriptSentence[][] => {
+  const sections: TranscriptSentence[][] = [];
+  let offset = 0;
+  
+  for (const blocks of groups) {
+    const blockEmbeddings = embeddings ? embeddings.slice(offset, offset + blocks.length) : [];
+    offset += blocks.length;
+    
+    const hasEmbeddings = blockEmbeddings.filter(Boolean).length >= 2;
+    let boundaries: number[];
+    if (hasEmbeddings) {
+      const scores = getDepthScores(blockEmbeddings);
+      const candidates = scores.slice(1);
+      const mean = candidates.reduce((sum, score) => sum + score, 0) / Math.max(candidates.length, 1);
+      const deviation = Math.sqrt(candidates.reduce((sum, score) => sum + (score - mean) ** 2, 0) / Math.max(candidates.length, 1));
+      boundaries = chooseBoundaries(blocks, scores, mean + deviation / 2, MAX_SECTION_SECONDS);
+    } else {
+      boundaries = chooseBoundaries(blocks, blocks.map(block => block.pauseBefore), Infinity, MAX_UNTOPICAL_SECTION_SECONDS);
+    }
+    
+    [0, ...boundaries].forEach((start, index) => {
+      const end = index < boundaries.length ? boundaries[index] : blocks.length;
+      sections.push(blocks.slice(start, end).flatMap(block => block.sentences));
+    });
+  }
+  
+  return sections;
+};
+
+// The opening words of a section, when no title could be generated
+const getFallbackTitle = (text: string): string => {
+  const words = text.replace(/[.!?…]+$/, '').split(/\s+/);
+  const title = words.slice(0, FALLBACK_TITLE_WORDS).join(' ').replace(/[,;:.!?…]+$/, '');
+  return words.length > FALLBACK_TITLE_WORDS ? `${title}…` : title;
+};
+
+const toSection = (
+  sentences: TranscriptSentence[],
+  segments: TranscriptSegment[],
+  chapters: YoutubeChapter[],
+  title?: string
+): TranscriptSection => {
+  const startTime = sentences[0].start;
+  const endTime = sentences[sentences.length - 1].end;
+  const text = sentences.map(sentence => sentence.text).join(' ');
+  
+  return {
+    title: title || getFallbackTitle(text),
+    text,
+    startTime,
+    endTime,
+    segments: segments.filter(segment => segment.start < endTime && segment.start + (segment.duration || 0) > startTime),
+    chapter: getChapterAt(chapters, startTime)?.title
+  };
+};
+
+/**
+ * Short titles for sections, generated in batches. Null where no title could be generated.
+ */
+async function generateSectionTitles(texts: string[]): Promise<(string | null)[]> {
+  const titles: (string | null)[] = [];
+  
+  for (let i = 0; i < texts.length; i += TITLE_BATCH_SIZE) {
+    const batch = texts.slice(i, i + TITLE_BATCH_SIZE);
+    try {
+      const responseText = await llmProvider.createChatCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: 'You write short titles for consecutive sections of a video transcript. Reply with a JSON array of strings only: one title of at most 8 words per section, in order, in the language of the transcript.'
+          },
+          {
+            role: 'user',
+            content: batch.map((text, index) => `Section ${index + 1}:\n${text.substring(0, TITLE_EXCERPT_LENGTH)}`).join('\n\n')
+          }
+        ],
+        temperature: 0,
+        max_tokens: 30 * batch.length
+      });
+      
+      const parsed = JSON.parse(responseText.match(/\[[\s\S]*\]/)?.[0] || '[]');
+      titles.push(...batch.map((_, index) =>
+        typeof parsed[index] === 'string' && parsed[index].trim() ? parsed[index].trim().replace(/^["']|["']$/g, '') : null
+      ));
+    } catch (error) {
+      console.error('Error generating transcript section titles:', error);
+      titles.push(...batch.map(() => null));
+    }
+  }
+  
+  return titles;
+}
+
+/**
+ * Split a transcript into titled sections at topic shifts, using embedding similarity between
+ * neighbouring passages and an LLM for the titles. Sections never cross a chapter boundary.
+ * Falls back to pause-based sections with their opening words as titles when the AI provider fails.
+ */
+export async function chunkTranscriptByTopic(
+  segments: TranscriptSegment[],
+  chapters: YoutubeChapter[] = []
+): Promise<TranscriptSection[]> {
+  const groups = toBlockGroups(mergeIntoSentences(segments), chapters);
+  const embeddings = await knowledgebaseService.getEmbeddings(groups.flat().map(block => block.text));
+  const sections = toSectionSentences(groups, embeddings);
+  
+  const titles = await generateSectionTitles(sections.map(sentences => sentences.map(sentence => sentence.text).join(' ')));
+  return sections.map((sentences, index) => toSection(sentences, segments, chapters, titles[index] || undefined));
+}
+
+/**
+ * Split a transcript into sections at pauses, without calling the AI provider. Used for
+ * transcripts that were stored before topic sections were.
+ */
+export function chunkTranscriptByPauses(
+  segments: TranscriptSegment[],
+  chapters: YoutubeChapter[] = []
+): TranscriptSection[] {
+  const groups = toBlockGroups(mergeIntoSentences(segments), chapters);
+  return toSectionSentences(groups, null).map(sentences => toSection(sentences, segments, chapters));
+}
+
+/**
+ * Rebuild sections from the bounds stored in a file's metadata
+ */
+export function sectionsFromBounds(
+  segments: TranscriptSegment[],
+  bounds: TranscriptSectionBounds[],
+  chapters: YoutubeChapter[] = []
+): TranscriptSection[] {
+  const sentences = mergeIntoSentences(segments);
+  
+  return bounds
+    .map((bound, index) => {
+      const next = bounds[index + 1];
+      const sectionSentences = sentences.filter(sentence =>
+        sentence.start >= (index === 0 ? -Infinity : bound.start) && (!next || sentence.start < next.start)
+      );
+      return sectionSentences.length > 0 ? toSection(sectionSentences, segments, chapters, bound.title) : null;
+    })
+    .filter((section): section is TranscriptSection => !!section);
+}
+
+/**
+ * The part of sections worth storing: titles and times
+ */
+export function toSectionBounds(sections: TranscriptSection[]): TranscriptSectionBounds[] {
+  return sections.map(section => ({
+    title: section.title,
+    start: round(section.startTime),
+    end: round(section.endTime)
+  }));
+}
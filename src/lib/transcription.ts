@@ -0,0 +1,293 @@
+import { llmProvider, TranscriptionOptions } from './llmProvider';
+import type { TranscriptSegment } from './youtubeService';
+import { extractAudioSegment, getMediaDuration } from './audioExtraction';
+
+export interface TimedTranscription {
+  text: string;
+  segments: TranscriptSegment[];
+  duration: number;
+  language?: string;
+}
+
+export type SegmentStatus = 'pending' | 'transcribing' | 'retrying' | 'completed' | 'failed';
+
+export interface SegmentProgress {
+  index: number;
+  start: number;
+  end: number;
+  status: SegmentStatus;
+  attempt: number;
+  progress: number; // Upload progress of the current attempt, 0-100
+  error?: string;
+}
+
+export interface LongTranscriptionOptions {
+  fileName?: string;
+  language?: string;
+  segmentSeconds?: number;
+  overlapSeconds?: number;
+  concurrency?: number;
+  maxAttempts?: number;
+  onProgress?: (segments: SegmentProgress[]) => void;
+}
+
+interface AudioSegment {
+  start: number;
+  end: number;
+  load: () => Promise<Blob>; // Audio is only decoded when the segment is transcribed
+}
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Convert Whisper's verbose_json segments to the {text, start, duration} shape used for YouTube transcripts
+ */
+export function toTranscriptSegments(segments: WhisperSegment[]): TranscriptSegment[] {
+  return (segments || [])
+    .map(segment => ({
+      text: segment.text.trim(),
+      start: Math.round(segment.start * 100) / 100,
+      duration: Math.round((segment.end - segment.start) * 100) / 100
+    }))
+    .filter(segment => segment.text);
+}
+
+/**
+ * Join transcript segments back into plain text
+ */
+export function transcriptToText(segments: TranscriptSegment[]): string {
+  return segments.map(segment => segment.text).join(' ');
+}
+
+/**
+ * Transcribe audio with segment timestamps
+ */
+export async function transcribeWithTimestamps(
+  audio: Blob,
+  options: Omit<TranscriptionOptions, 'responseFormat' | 'timestampGranularities'> = {}
+): Promise<TimedTranscription> {
+  const data = await llmProvider.transcribeAudio(audio, {
+    ...options,
+    responseFormat: 'verbose_json',
+    timestampGranularities: ['segment']
+  });
+  
+  let segments = toTranscriptSegments(data.segments);
+  
+  // Servers without segment support still return the text, keep it as a single segment
+  if (segments.length === 0 && data.text?.trim()) {
+    segments = [{ text: data.text.trim(), start: 0, duration: data.duration || 0 }];
+  }
+  
+  const last = segments[segments.length - 1];
+  
+  return {
+    text: data.text || transcriptToText(segments),
+    segments,
+    duration: data.duration || (last ? last.start + last.duration : 0),
+    language: data.language
+  };
+}
+
+// Whisper rejects uploads over 25MB, stay a little below it
+export const MAX_TRANSCRIPTION_BYTES = 24 * 1024 * 1024;
+
+// 16kHz mono is all speech recognition needs; ten minutes of it as 16-bit WAV is about 19MB
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+const DEFAULT_SEGMENT_SECONDS = 600;
+const DEFAULT_OVERLAP_SECONDS = 5;
+
+/**
+ * Encode mono samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+  
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Format chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Split an audio (or video) file into overlapping WAV segments. Each segment is decoded by
+ * ffmpeg on its own when loaded, so the whole recording is never held in memory at once.
+ */
+export async function splitAudio(
+  audio: Blob,
+  segmentSeconds: number = DEFAULT_SEGMENT_SECONDS,
+  overlapSeconds: number = DEFAULT_OVERLAP_SECONDS
+): Promise<AudioSegment[]> {
+  const duration = await getMediaDuration(audio);
+  
+  const segments: AudioSegment[] = [];
+  const step = segmentSeconds - overlapSeconds;
+  
+  for (let start = 0; start < duration; start += step) {
+    const end = Math.min(start + segmentSeconds, duration);
+    segments.push({ start, end, load: () => extractAudioSegment(audio, start, end - start) });
+    
+    if (end >= duration) break;
+  }
+  
+  return segments;
+}
+
+/**
+ * Put per-segment transcripts back on one timeline. Segment timestamps are shifted by
+ * the segment's offset, and each overlap is cut in the middle so no speech is repeated.
+ */
+export function stitchTranscripts(
+  parts: { start: number; end: number; segments: TranscriptSegment[] }[]
+): TranscriptSegment[] {
+  const stitched: TranscriptSegment[] = [];
+  
+  parts.forEach((part, index) => {
+    const previous = parts[index - 1];
+    const next = parts[index + 1];
+    const from = previous ? part.start + (previous.end - part.start) / 2 : 0;
+    const to = next ? next.start + (part.end - next.start) / 2 : Infinity;
+    
+    for (const segment of part.segments) {
+      const start = Math.round((segment.start + part.start) * 100) / 100;
+      if (start >= from && start < to) {
+        stitched.push({ ...segment, start });
+      }
+    }
+  });
+  
+  return stitched;
+}
+
+/**
+ * Transcribe a recording of any length. Files over the upload limit are split into
+ * overlapping segments that are transcribed in parallel, retried on failure and stitched together.
+ */
+export async function transcribeLongAudio(
+  audio: Blob,
+  options: LongTranscriptionOptions = {}
+): Promise<TimedTranscription> {
+  const {
+    fileName,
+    language,
+    segmentSeconds = DEFAULT_SEGMENT_SECONDS,
+    overlapSeconds = DEFAULT_OVERLAP_SECONDS,
+    concurrency = 3,
+    maxAttempts = 3,
+    onProgress
+  } = options;
+  
+  const isSplit = audio.size > MAX_TRANSCRIPTION_BYTES;
+  const audioSegments: AudioSegment[] = isSplit
+    ? await splitAudio(audio, segmentSeconds, overlapSeconds)
+    : [{ start: 0, end: 0, load: () => Promise.resolve(audio) }];
+  
+  const progress: SegmentProgress[] = audioSegments.map((segment, index) => ({
+    index,
+    start: segment.start,
+    end: segment.end,
+    status: 'pending',
+    attempt: 0,
+    progress: 0
+  }));
+  
+  const updateProgress = (index: number, update: Partial<SegmentProgress>) => {
+    progress[index] = { ...progress[index], ...update };
+    onProgress?.([...progress]);
+  };
+  
+  onProgress?.([...progress]);
+  
+  const results: (TimedTranscription | null)[] = new Array(audioSegments.length).fill(null);
+  
+  const transcribeSegment = async (index: number) => {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      updateProgress(index, { status: attempt === 1 ? 'transcribing' : 'retrying', attempt, progress: 0 });
+      
+      try {
+        const blob = await audioSegments[index].load();
+        results[index] = await transcribeWithTimestamps(blob, {
+          fileName: isSplit ? `segment-${index + 1}.wav` : fileName,
+          language,
+          onUploadProgress: (event) => {
+            const total = event.total || blob.size;
+            updateProgress(index, { progress: Math.round((event.loaded * 100) / total) });
+          }
+        });
+        updateProgress(index, { status: 'completed', progress: 100, error: undefined });
+        return;
+      } catch (error) {
+        const message = error.response?.data?.error?.message || error.message || 'Unknown error';
+        console.error(`Error transcribing segment ${index + 1} (attempt ${attempt}):`, error);
+        
+        if (attempt === maxAttempts) {
+          updateProgress(index, { status: 'failed', error: message });
+          return;
+        }
+        
+        updateProgress(index, { error: message });
+        // Back off before retrying: 1s, 2s, 4s...
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+      }
+    }
+  };
+  
+  // Work through the segments with a fixed number of requests in flight
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < audioSegments.length) {
+      await transcribeSegment(nextIndex++);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, audioSegments.length) }, worker));
+  
+  const failed = progress.filter(segment => segment.status === 'failed');
+  if (failed.length > 0) {
+    throw new Error(
+      `Failed to transcribe ${failed.length} of ${progress.length} segments: ${failed[0].error}`
+    );
+  }
+  
+  if (!isSplit) {
+    return results[0]!;
+  }
+  
+  const segments = stitchTranscripts(audioSegments.map((segment, index) => ({
+    start: segment.start,
+    end: segment.end,
+    segments: results[index]!.segments
+  })));
+  
+  return {
+    text: transcriptToText(segments),
+    segments,
+    duration: audioSegments[audioSegments.length - 1].end,
+    language: results[0]?.language
+  };
+}
@@ -0,0 +1,104 @@
+import { supabase } from './supabase';
+import { UserAISettings } from './supabase';
+import { llmProvider } from './llmProvider';
+
+export type AISettings = Pick<UserAISettings, 'chat_model' | 'notes_model' | 'temperature' | 'max_tokens' | 'notes_max_tokens'>;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  chat_model: llmProvider.getConfig('chat').model,
+  notes_model: llmProvider.getConfig('chat').model,
+  temperature: 0.5,
+  max_tokens: 800,
+  notes_max_tokens: 2000
+};
+
+// Models offered in the API Settings tab
+export const AVAILABLE_CHAT_MODELS = [
+  { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo' },
+  { value: 'gpt-4o-mini', label: 'GPT-4o mini' },
+  { value: 'gpt-4o', label: 'GPT-4o' },
+  { value: 'gpt-4', label: 'GPT-4' }
+];
+
+// Settings of the signed-in user, used by aiService and textToSpeechService
+let activeSettings: AISettings = { ...DEFAULT_AI_SETTINGS };
+
+// User AI settings operations
+export const userSettingsService = {
+  // Get the AI settings for a user, falling back to the defaults if none are saved
+  async getAISettings(userId: string): Promise<AISettings & { has_api_key: boolean }> {
+    const { data, error } = await supabase
+      .from('user_ai_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+    
+    if (error) {
+      console.error('Error fetching AI settings:', error);
+      throw error;
+    }
+    
+    return {
+      chat_model: data?.chat_model || DEFAULT_AI_SETTINGS.chat_model,
+      notes_model: data?.notes_model || DEFAULT_AI_SETTINGS.notes_model,
+      temperature: data?.temperature ?? DEFAULT_AI_SETTINGS.temperature,
+      max_tokens: data?.max_tokens ?? DEFAULT_AI_SETTINGS.max_tokens,
+      notes_max_tokens: data?.notes_max_tokens ?? DEFAULT_AI_SETTINGS.notes_max_tokens,
+      has_api_key: !!data?.has_api_key
+    };
+  },
+  
+  // Save the AI settings for a user
+  async saveAISettings(userId: string, settings: AISettings): Promise<void> {
+    const { error } = await supabase
+      .from('user_ai_settings')
+      .upsert({
+        user_id: userId,
+        ...settings,
+        updated_at: new Date().toISOString()
+      });
+    
+    if (error) {
+      console.error('Error saving AI settings:', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Save the user's own API key. The key is encrypted in Supabase Vault and
+   * only read back by the backend proxy; an empty key removes it.
+   */
+  async setApiKey(apiKey: string | null): Promise<void> {
+    const { error } = await supabase.rpc('set_user_api_key', { new_key: apiKey || null });
+    
+    if (error) {
+      console.error('Error saving API key:', error);
+      throw error;
+    }
+  },
+  
+  getActiveAISettings(): AISettings {
+    return activeSettings;
+  },
+  
+  /**
+   * Load a user's settings and apply them to the AI provider.
+   * Pass null on sign out to go back to the environment configuration.
+   */
+  async applyAISettings(userId: string | null): Promise<void> {
+    llmProvider.reset();
+    activeSettings = { ...DEFAULT_AI_SETTINGS };
+    
+    if (!userId) return;
+    
+    try {
+      // The user's own API key stays on the server; the backend proxy applies it
+      const { has_api_key, ...settings } = await this.getAISettings(userId);
+      activeSettings = settings;
+      llmProvider.configure('chat', { model: settings.chat_model });
+    } catch (error) {
+      // Keep the environment configuration if the settings can't be loaded
+      console.error('Error applying AI settings:', error);
+    }
+  }
+};
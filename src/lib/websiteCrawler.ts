@@ -0,0 +1,308 @@
+/**
+ * Website crawling utilities for Sattva AI
+ * Follows same-origin links from a start page (optionally seeded from the sitemap) so a whole
+ * documentation section or course site can be added at once
+ */
+
+import { fetchWebsiteHtml, fetchWebsitePage, extractWebsiteContent, ScrapedWebsite, WebsiteFetchError } from './websiteScraper';
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  useSitemap?: boolean;
+  respectRobots?: boolean;
+  onProgress?: (progress: CrawlProgress) => void;
+}
+
+export interface CrawlProgress {
+  crawled: number;
+  queued: number;
+  currentUrl?: string;
+}
+
+export interface CrawledPage extends ScrapedWebsite {
+  url: string;
+  depth: number;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  failed: { url: string; error: string; status?: number }[];
+  skipped: number; // Pages disallowed by robots.txt
+  complete: boolean; // The start page was fetched and every page in scope was visited before reaching maxPages
+}
+
+export const DEFAULT_CRAWL_DEPTH = 2;
+export const DEFAULT_CRAWL_PAGES = 25;
+export const MAX_CRAWL_PAGES = 200;
+
+const CRAWL_CONCURRENCY = 3;
+const MAX_SITEMAPS = 5;
+
+// Links to these are downloads or media, not pages
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|png|jpe?g|gif|svg|webp|ico|mp3|mp4|webm|mov|avi|css|js|json|xml|rss|atom|woff2?|ttf|eot|exe|dmg|apk)$/i;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+interface RobotsRules {
+  rules: RobotsRule[];
+  sitemaps: string[];
+}
+
+/**
+ * Normalise a URL so the same page is only fetched once: no fragment, no default port,
+ * sorted query parameters and no trailing slash except for the root
+ */
+export function normalizeUrl(url: string, base?: string): string | null {
+  try {
+    const parsed = new URL(url, base);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+    
+    parsed.hash = '';
+    parsed.searchParams.sort();
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Only pages below the start page's directory are crawled, e.g. /docs/guide/intro -> /docs/guide/
+const getScopePath = (startUrl: URL): string => {
+  const path = startUrl.pathname;
+  return path.endsWith('/') ? path : path.slice(0, path.lastIndexOf('/') + 1);
+};
+
+const isInScope = (url: string, origin: string, scopePath: string): boolean => {
+  const parsed = new URL(url);
+  return parsed.origin === origin &&
+    (parsed.pathname + '/').startsWith(scopePath) &&
+    !NON_PAGE_EXTENSIONS.test(parsed.pathname);
+};
+
+// Turn a robots.txt path pattern (with * and $) into a regular expression
+const robotsPatternToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern
+    .replace(/[.+?^{}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp('^' + (escaped.endsWith('$') ? escaped : escaped + '.*'));
+};
+
+/**
+ * Parse the rules of robots.txt that apply to all crawlers (User-agent: *)
+ */
+export function parseRobotsTxt(content: string): RobotsRules {
+  const rules: RobotsRule[] = [];
+  const sitemaps: string[] = [];
+  let groupAgents: string[] = [];
+  let inRules = false;
+  
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    
+    if (field === 'sitemap') {
+      sitemaps.push(value);
+    } else if (field === 'user-agent') {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        groupAgents = [];
+        inRules = false;
+      }
+      groupAgents.push(value.toLowerCase());
+    } else if (field === 'allow' || field === 'disallow') {
+      inRules = true;
+      if (groupAgents.includes('*') && value) {
+        rules.push({ allow: field === 'allow', pattern: robotsPatternToRegExp(value), length: value.length });
+      }
+    }
+  }
+  
+  return { rules, sitemaps };
+}
+
+/**
+ * Whether robots.txt allows a path. The longest matching rule wins, and Allow wins a tie.
+ */
+export function isAllowedByRobots(robots: RobotsRules, path: string): boolean {
+  let match: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (rule.pattern.test(path) && (!match || rule.length > match.length || (rule.length === match.length && rule.allow))) {
+      match = rule;
+    }
+  }
+  return !match || match.allow;
+}
+
+async function fetchRobots(origin: string): Promise<RobotsRules> {
+  try {
+    return parseRobotsTxt(await fetchWebsiteHtml(`${origin}/robots.txt`));
+  } catch (error) {
+    // No robots.txt means everything is allowed
+    console.log(`[Website Crawler] No robots.txt for ${origin}`);
+    return { rules: [], sitemaps: [] };
+  }
+}
+
+/**
+ * Collect page URLs from a sitemap, following sitemap indexes
+ */
+async function fetchSitemapUrls(sitemapUrls: string[], limit: number): Promise<string[]> {
+  const pages: string[] = [];
+  const pending = [...sitemapUrls];
+  const seen = new Set<string>();
+  
+  while (pending.length > 0 && seen.size < MAX_SITEMAPS && pages.length < limit) {
+    const sitemapUrl = pending.shift()!;
+    if (seen.has(sitemapUrl)) continue;
+    seen.add(sitemapUrl);
+    
+    try {
+      const xml = new DOMParser().parseFromString(await fetchWebsiteHtml(sitemapUrl), 'application/xml');
+      const isIndex = xml.getElementsByTagName('sitemapindex').length > 0;
+      
+      Array.from(xml.getElementsByTagName('loc')).forEach(loc => {
+        const url = loc.textContent?.trim();
+        if (!url) return;
+        if (isIndex) {
+          pending.push(url);
+        } else {
+          pages.push(url);
+        }
+      });
+    } catch (error) {
+      console.log(`[Website Crawler] Could not read sitemap ${sitemapUrl}:`, error.message);
+    }
+  }
+  
+  return pages.slice(0, limit);
+}
+
+const getCanonicalUrl = (doc: Document, url: string): string | null => {
+  const href = doc.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  return href ? normalizeUrl(href, url) : null;
+};
+
+const getLinks = (doc: Document, url: string): string[] => {
+  return Array.from(doc.querySelectorAll('a[href]'))
+    .filter(link => !/\bnofollow\b/i.test(link.getAttribute('rel') || ''))
+    .map(link => normalizeUrl(link.getAttribute('href') || '', url))
+    .filter((link): link is string => !!link);
+};
+
+/**
+ * Crawl same-origin pages below the start URL, breadth first, up to a link depth and page count
+ */
+export async function crawlWebsite(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const {
+    maxDepth = DEFAULT_CRAWL_DEPTH,
+    useSitemap = true,
+    respectRobots = true,
+    onProgress
+  } = options;
+  const maxPages = Math.min(options.maxPages || DEFAULT_CRAWL_PAGES, MAX_CRAWL_PAGES);
+  
+  const start = normalizeUrl(startUrl);
+  if (!start) {
+    throw new Error('Invalid URL. Please include http:// or https://');
+  }
+  
+  let { origin } = new URL(start);
+  // Scoped by the URL as entered, since normalising drops the trailing slash of /docs/
+  let scopePath = getScopePath(new URL(startUrl));
+  const robots = respectRobots || useSitemap ? await fetchRobots(origin) : { rules: [], sitemaps: [] };
+  
+  const isAllowed = (url: string) => !respectRobots || isAllowedByRobots(robots, new URL(url).pathname + new URL(url).search);
+  
+  const queue: { url: string; depth: number }[] = [{ url: start, depth: 0 }];
+  const seen = new Set<string>([start]);
+  const canonicals = new Set<string>();
+  const result: CrawlResult = { pages: [], failed: [], skipped: 0, complete: false };
+  
+  const enqueue = (url: string, depth: number) => {
+    if (seen.has(url) || !isInScope(url, origin, scopePath)) return;
+    seen.add(url);
+    
+    if (!isAllowed(url)) {
+      result.skipped++;
+      return;
+    }
+    queue.push({ url, depth });
+  };
+  
+  if (!isAllowed(start)) {
+    throw new Error('This page is disallowed by the site\'s robots.txt');
+  }
+  
+  // Sitemap pages are treated as direct links from the start page
+  if (useSitemap) {
+    const sitemaps = robots.sitemaps.length > 0 ? robots.sitemaps : [`${origin}/sitemap.xml`];
+    const sitemapPages = await fetchSitemapUrls(sitemaps, MAX_CRAWL_PAGES);
+    sitemapPages.forEach(url => {
+      const normalized = normalizeUrl(url);
+      if (normalized) enqueue(normalized, 1);
+    });
+    console.log(`[Website Crawler] Found ${sitemapPages.length} pages in the sitemap`);
+  }
+  
+  const crawlPage = async ({ url, depth }: { url: string; depth: number }) => {
+    onProgress?.({ crawled: result.pages.length, queued: queue.length, currentUrl: url });
+    
+    try {
+      const page = await fetchWebsitePage(url);
+      const doc = new DOMParser().parseFromString(page.html, 'text/html');
+      
+      // Redirects can leave the crawl scope, and links are relative to where we ended up
+      const finalUrl = normalizeUrl(page.url) || url;
+      if (depth === 0 && finalUrl !== url) {
+        // e.g. http -> https or a moved section: crawl around where the start page really is
+        origin = new URL(finalUrl).origin;
+        scopePath = getScopePath(new URL(page.url));
+        seen.add(finalUrl);
+      } else if (finalUrl !== url && !isInScope(finalUrl, origin, scopePath)) {
+        return;
+      }
+      
+      // The same page is often reachable under several URLs
+      const canonical = getCanonicalUrl(doc, finalUrl) || finalUrl;
+      if (canonicals.has(canonical) || result.pages.length >= maxPages) return;
+      canonicals.add(canonical);
+      
+      const content = extractWebsiteContent(doc, canonical);
+      result.pages.push({ ...content, url: canonical, depth });
+      
+      if (depth < maxDepth) {
+        getLinks(doc, finalUrl).forEach(link => enqueue(link, depth + 1));
+      }
+    } catch (error) {
+      console.error(`[Website Crawler] Error crawling ${url}:`, error);
+      result.failed.push({ url, error: error.message, status: error instanceof WebsiteFetchError ? error.status : undefined });
+    }
+  };
+  
+  // Crawl a few pages at a time, one depth level after another
+  while (queue.length > 0 && result.pages.length < maxPages) {
+    queue.sort((a, b) => a.depth - b.depth);
+    const batch = queue.splice(0, Math.min(CRAWL_CONCURRENCY, maxPages - result.pages.length));
+    await Promise.all(batch.map(crawlPage));
+  }
+  
+  result.complete = queue.length === 0 && result.pages.length < maxPages && result.pages.some(page => page.depth === 0);
+  
+  onProgress?.({ crawled: result.pages.length, queued: 0 });
+  console.log(`[Website Crawler] Crawled ${result.pages.length} pages from ${start} (${result.failed.length} failed, ${result.skipped} disallowed)`);
+  
+  return result;
+}
@@ -0,0 +1,287 @@
+import { supabase } from './supabase';
+import type { FileRecord, WebsiteSource } from './supabase';
+import { knowledgebaseService } from './knowledgebaseService';
+import { crawlWebsite, CrawledPage, CrawlProgress } from './websiteCrawler';
+import { extractWebsiteContent, fetchWebsitePage, getWebsiteFileMetadata, WebsiteFetchError } from './websiteScraper';
+
+export interface WebsiteCrawlSettings {
+  maxDepth: number;
+  maxPages: number;
+  useSitemap: boolean;
+}
+
+export interface WebsiteSyncSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  failed: { url: string; error: string }[];
+}
+
+const getPageName = (page: CrawledPage): string => {
+  const title = page.title && page.title !== 'Untitled Website' ? page.title : new URL(page.url).pathname;
+  return title.substring(0, 120);
+};
+
+// Statuses that mean a page was taken down, rather than being unreachable for now
+const isGonePage = (status?: number): boolean => status === 404 || status === 410;
+
+const getPageMetadata = (page: CrawledPage, source: WebsiteSource) => ({
+  ...getWebsiteFileMetadata(page),
+  url: page.url,
+  crawl_depth: page.depth,
+  website_root_url: source.root_url
+});
+
+/**
+ * Websites crawled into a knowledgebase. Each page is stored as its own file, linked to a
+ * website source so the whole site can be re-synced or removed at once.
+ */
+export const websiteSourceService = {
+  async getWebsiteSources(knowledgebaseId: string): Promise<WebsiteSource[]> {
+    const { data, error } = await supabase
+      .from('website_sources')
+      .select('*')
+      .eq('knowledgebase_id', knowledgebaseId)
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching website sources:', error);
+      throw error;
+    }
+    
+    return data || [];
+  },
+  
+  /**
+   * Crawl a website and add each page to the knowledgebase
+   */
+  async importWebsite(
+    userId: string,
+    knowledgebaseId: string,
+    url: string,
+    settings: WebsiteCrawlSettings,
+    onProgress?: (progress: CrawlProgress) => void
+  ): Promise<{ source: WebsiteSource; summary: WebsiteSyncSummary }> {
+    const { data: source, error } = await supabase
+      .from('website_sources')
+      .insert([
+        {
+          user_id: userId,
+          knowledgebase_id: knowledgebaseId,
+          root_url: url,
+          title: new URL(url).hostname,
+          max_depth: settings.maxDepth,
+          max_pages: settings.maxPages,
+          use_sitemap: settings.useSitemap
+        }
+      ])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating website source:', error);
+      throw error;
+    }
+    
+    try {
+      const summary = await this.syncWebsiteSource(source, onProgress);
+      
+      if (summary.added === 0) {
+        throw new Error(summary.failed[0]?.error || 'No pages with text content were found');
+      }
+      
+      return { source: { ...source, page_count: summary.added }, summary };
+    } catch (syncError) {
+      // Don't leave an empty source behind
+      await this.deleteWebsiteSource(source.id).catch(() => undefined);
+      throw syncError;
+    }
+  },
+  
+  /**
+   * Crawl a website source again: new pages are added, changed pages re-indexed
+   * and pages that no longer exist removed
+   */
+  async syncWebsiteSource(
+    source: WebsiteSource,
+    onProgress?: (progress: CrawlProgress) => void
+  ): Promise<WebsiteSyncSummary> {
+    const { pages, failed, complete } = await crawlWebsite(source.root_url, {
+      maxDepth: source.max_depth,
+      maxPages: source.max_pages,
+      useSitemap: source.use_sitemap,
+      onProgress
+    });
+    
+    const { data: existingFiles, error } = await supabase
+      .from('files')
+      .select('*')
+      .eq('website_source_id', source.id);
+    
+    if (error) {
+      console.error('Error fetching website pages:', error);
+      throw error;
+    }
+    
+    const filesByUrl = new Map<string, FileRecord>((existingFiles || []).map(file => [file.source_url, file]));
+    const summary: WebsiteSyncSummary = { added: 0, updated: 0, removed: 0, unchanged: 0, failed: [] };
+    
+    const removePage = async (file: FileRecord) => {
+      await knowledgebaseService.deleteFile(file.id);
+      summary.removed++;
+    };
+    
+    const savePage = async (page: CrawledPage, existing?: FileRecord) => {
+      try {
+        if (!existing) {
+          await this.addPage(source, page);
+          summary.added++;
+        } else if (existing.content_text !== page.text) {
+          await this.updatePage(existing, page, source);
+          summary.updated++;
+        } else {
+          summary.unchanged++;
+        }
+      } catch (pageError) {
+        console.error(`Error saving website page ${page.url}:`, pageError);
+        summary.failed.push({ url: page.url, error: pageError.message });
+      }
+    };
+    
+    for (const page of pages) {
+      const existing = filesByUrl.get(page.url);
+      filesByUrl.delete(page.url);
+      
+      if (!page.text.trim()) continue;
+      await savePage(page, existing);
+    }
+    
+    // A stored page the crawl found gone is removed; other crawl failures leave it in place
+    for (const failure of failed) {
+      const existing = filesByUrl.get(failure.url);
+      filesByUrl.delete(failure.url);
+      
+      if (existing && isGonePage(failure.status)) {
+        await removePage(existing);
+      } else {
+        summary.failed.push(failure);
+      }
+    }
+    
+    // A stored page the crawl didn't reach may just be past the page limit or behind a failed link,
+    // so it's only removed when fetching it directly says it's gone. After a partial crawl
+    // (start page down, page limit reached) these pages are all kept.
+    if (complete) {
+      for (const [url, file] of filesByUrl) {
+        try {
+          const fetched = await fetchWebsitePage(url);
+          const doc = new DOMParser().parseFromString(fetched.html, 'text/html');
+          const page = { ...extractWebsiteContent(doc, url), url, depth: file.metadata?.crawl_depth ?? 1 };
+          if (page.text.trim()) {
+            await savePage(page, file);
+          }
+        } catch (fetchError) {
+          if (fetchError instanceof WebsiteFetchError && isGonePage(fetchError.status)) {
+            await removePage(file);
+          } else {
+            summary.failed.push({ url, error: fetchError.message });
+          }
+        }
+      }
+    }
+    
+    const pageCount = (existingFiles?.length || 0) + summary.added - summary.removed;
+    const { error: updateError } = await supabase
+      .from('website_sources')
+      .update({
+        page_count: pageCount,
+        title: pages[0]?.title || source.title,
+        last_synced_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', source.id);
+    
+    if (updateError) {
+      console.error('Error updating website source:', updateError);
+      throw updateError;
+    }
+    
+    console.log(`[Website Source] Synced ${source.root_url}:`, summary);
+    return summary;
+  },
+  
+  /**
+   * Remove a website source with all of its pages
+   */
+  async deleteWebsiteSource(id: string): Promise<void> {
+    // Pages and their chunks are deleted by the foreign key cascade
+    const { error } = await supabase
+      .from('website_sources')
+      .delete()
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error deleting website source:', error);
+      throw error;
+    }
+  },
+  
+  async addPage(source: WebsiteSource, page: CrawledPage): Promise<FileRecord> {
+    const { data, error } = await supabase
+      .from('files')
+      .insert([
+        {
+          user_id: source.user_id,
+          knowledgebase_id: source.knowledgebase_id,
+          website_source_id: source.id,
+          name: getPageName(page),
+          type: 'website',
+          size: page.text.length,
+          source_url: page.url,
+          content_text: page.text,
+          content_length: page.text.length,
+          content_hash: await knowledgebaseService.hashContent(page.text),
+          last_synced_at: new Date().toISOString(),
+          extraction_status: 'completed',
+          metadata: getPageMetadata(page, source)
+        }
+      ])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating website page:', error);
+      throw error;
+    }
+    
+    await knowledgebaseService.tryIndexFileChunks(data);
+    return data;
+  },
+  
+  async updatePage(file: FileRecord, page: CrawledPage, source: WebsiteSource): Promise<FileRecord> {
+    const { data, error } = await supabase
+      .from('files')
+      .update({
+        name: getPageName(page),
+        size: page.text.length,
+        content_text: page.text,
+        content_length: page.text.length,
+        content_hash: await knowledgebaseService.hashContent(page.text),
+        last_synced_at: new Date().toISOString(),
+        metadata: { ...(file.metadata || {}), ...getPageMetadata(page, source) },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', file.id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating website page:', error);
+      throw error;
+    }
+    
+    await knowledgebaseService.tryIndexFileChunks(data);
+    return data;
+  }
+};
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { BACKEND_API_URL, getBackendHeaders } from './backendApi';
+import { transcribeLongAudio } from './transcription';
 
 export interface TranscriptSegment {
   text: string;
@@ -11,15 +13,73 @@ export interface ChunkedTranscript {
   startTime: number;
   endTime: number;
   segments: TranscriptSegment[];
+  chapter?: string;
+}
+
+// How a transcript was produced, stored as the file's extraction_method
+export type TranscriptMethod =
+  | 'searchapi_youtube_transcripts'
+  | 'youtube_captions'
+  | 'youtube_auto_captions'
+  | 'openai_whisper';
+
+export interface YoutubeTranscript {
+  segments: TranscriptSegment[];
+  method: TranscriptMethod;
+  language: string | null;
+  translatedFrom: string | null; // Language of the captions YouTube translated, if it did
+}
+
+// A chapter marker from a video description, e.g. "12:30 Results"
+export interface YoutubeChapter {
+  title: string;
+  start: number;
+  end: number | null; // Null for the last chapter when the video duration isn't known
+}
+
+export interface YoutubeVideoMetadata {
+  videoId: string;
+  title: string;
+  channelName: string;
+  channelId: string | null;
+  publishedAt: string | null;
+  duration: number | null;
+  description: string;
+  thumbnailUrl: string | null;
+  chapters: YoutubeChapter[];
+  source: 'youtube_data_api' | 'oembed';
 }
 
 export interface YoutubeVideoDetails {
   videoId: string;
   title: string;
   channelName: string;
+  metadata: YoutubeVideoMetadata;
   transcript: TranscriptSegment[];
 }
 
+// A playlist or channel URL, as the backend looks it up
+export type YoutubeCollectionRef =
+  | { type: 'playlist'; playlistId: string }
+  | { type: 'channel'; channelId?: string; handle?: string; username?: string };
+
+export interface YoutubeCollectionVideo {
+  videoId: string;
+  title: string;
+  channelName: string | null;
+  publishedAt: string | null;
+  thumbnailUrl: string | null;
+}
+
+export interface YoutubeCollection {
+  type: 'playlist' | 'channel';
+  id: string;
+  title: string;
+  videos: YoutubeCollectionVideo[];
+  total: number | null;
+  truncated: boolean; // More videos exist than were listed
+}
+
 /**
  * Extract YouTube video ID from a URL
  */
@@ -29,31 +89,211 @@ export function extractYoutubeVideoId(url: string): string | null {
   return (match && match[7].length === 11) ? match[7] : null;
 }
 
+// A SearchAPI transcript item. Field names and types have varied, so values are checked before use.
+interface SearchApiTranscriptItem {
+  text?: unknown;
+  content?: unknown;
+  start?: unknown;
+  offset?: unknown; // Milliseconds
+  duration?: unknown;
+}
+
+// Seconds given as a number or a numeric string
+const toSeconds = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const seconds = typeof value === 'string' ? parseFloat(value) : NaN;
+  return Number.isNaN(seconds) ? 0 : seconds;
+};
+
+// SearchAPI responses have had the segments under transcripts, transcript or captions
+const toTranscriptSegments = (items: SearchApiTranscriptItem[]): TranscriptSegment[] =>
+  items
+    .map(item => {
+      const text = typeof item.text === 'string' ? item.text : typeof item.content === 'string' ? item.content : '';
+      return {
+        text: text.trim(),
+        start: item.start !== undefined
+          ? toSeconds(item.start)
+          : typeof item.offset === 'number'
+            ? item.offset / 1000 // Offsets are in milliseconds
+            : toSeconds(item.offset),
+        duration: toSeconds(item.duration)
+      };
+    })
+    .filter(segment => segment.text);
+
+async function fetchSearchApiTranscript(videoId: string, language: string): Promise<YoutubeTranscript> {
+  const response = await axios.get(`${BACKEND_API_URL}/youtube/transcript`, {
+    params: { video_id: videoId, lang: language },
+    headers: await getBackendHeaders()
+  });
+  
+  const data = response.data;
+  const items = [data.transcripts, data.transcript, data.captions].find(list => Array.isArray(list) && list.length > 0);
+  if (!items) {
+    throw new Error(data.error || 'No transcript in the response');
+  }
+  
+  return {
+    segments: toTranscriptSegments(items),
+    method: 'searchapi_youtube_transcripts',
+    language: data.search_parameters?.lang || language,
+    translatedFrom: null
+  };
+}
+
+async function fetchCaptionTranscript(videoId: string, language: string): Promise<YoutubeTranscript> {
+  const response = await axios.get(`${BACKEND_API_URL}/youtube/captions`, {
+    params: { video_id: videoId, lang: language },
+    headers: await getBackendHeaders()
+  });
+  
+  const data = response.data;
+  return {
+    segments: data.segments,
+    method: data.kind === 'asr' ? 'youtube_auto_captions' : 'youtube_captions',
+    language: data.language,
+    translatedFrom: data.translated ? data.original_language : null
+  };
+}
+
+// The backend downloads the audio, since stream URLs only work from the address that requested them
+async function fetchWhisperTranscript(videoId: string, language: string): Promise<YoutubeTranscript> {
+  const response = await axios.get(`${BACKEND_API_URL}/youtube/audio`, {
+    params: { video_id: videoId },
+    headers: await getBackendHeaders(),
+    responseType: 'blob'
+  });
+  
+  const audio: Blob = response.data;
+  const transcription = await transcribeLongAudio(audio, {
+    fileName: `${videoId}.${audio.type === 'audio/webm' ? 'webm' : 'm4a'}`,
+    language
+  });
+  
+  return {
+    segments: transcription.segments,
+    method: 'openai_whisper',
+    language: transcription.language || language,
+    translatedFrom: null
+  };
+}
+
 /**
- * Fetch YouTube transcript using SearchAPI.io
+ * Fetch a video's transcript, trying each source in turn: SearchAPI.io, then YouTube's own
+ * captions (auto-generated or translated from another language), then Whisper on the audio
  */
-export async function fetchYoutubeTranscript(videoId: string): Promise<TranscriptSegment[]> {
-  try {
-    const response = await axios.get('https://www.searchapi.io/api/v1/search', {
-      params: {
-        engine: 'youtube_transcripts',
-        video_id: videoId,
-        api_key: import.meta.env.VITE_SEARCH_API_KEY
+export async function fetchYoutubeTranscript(videoId: string, language: string = 'en'): Promise<YoutubeTranscript> {
+  const providers: [string, () => Promise<YoutubeTranscript>][] = [
+    ['SearchAPI', () => fetchSearchApiTranscript(videoId, language)],
+    ['YouTube captions', () => fetchCaptionTranscript(videoId, language)],
+    ['Whisper', () => fetchWhisperTranscript(videoId, language)]
+  ];
+  const errors: string[] = [];
+  
+  for (const [name, fetchTranscript] of providers) {
+    try {
+      const transcript = await fetchTranscript();
+      if (transcript.segments.length > 0) {
+        console.log(`[YouTube Transcript] Got ${transcript.segments.length} segments from ${name} (${transcript.language || 'unknown language'})`);
+        return transcript;
       }
-    });
+      errors.push(`${name}: empty transcript`);
+    } catch (error) {
+      const message = error.response?.data?.error?.message || error.message;
+      console.log(`[YouTube Transcript] ${name} failed, trying the next source: ${message}`);
+      errors.push(`${name}: ${message}`);
+    }
+  }
+  
+  throw new Error(`No transcript could be fetched for this video (${errors.join('; ')})`);
+}
 
-    if (response.data && response.data.transcript) {
-      return response.data.transcript.map((segment: any) => ({
-        text: segment.text,
-        start: segment.start,
-        duration: segment.duration
-      }));
+// "1:02:03" or "12:30" to seconds
+const parseTimestamp = (value: string): number =>
+  value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+
+// "0:00 Intro", "(0:00) - Intro" or "Intro - 0:00"
+const TIMESTAMP = '(?:\\d{1,2}:)?\\d{1,2}:\\d{2}';
+const LEADING_TIMESTAMP = new RegExp(`^\\s*[([]?(${TIMESTAMP})[)\\]]?\\s*[-–—:|]?\\s*(.+)$`);
+const TRAILING_TIMESTAMP = new RegExp(`^(.+?)\\s*[-–—:|]?\\s*[([]?(${TIMESTAMP})[)\\]]?\\s*$`);
+
+/**
+ * Read the chapter markers from a video description. Like YouTube, this needs at least three
+ * timestamps in ascending order starting at 0:00, otherwise the description has no chapters.
+ */
+export function parseYoutubeChapters(description: string, duration: number | null = null): YoutubeChapter[] {
+  const markers: { title: string; start: number }[] = [];
+  
+  for (const line of (description || '').split('\n')) {
+    let timestamp: string;
+    let title: string;
+    
+    const leading = line.match(LEADING_TIMESTAMP);
+    const trailing = !leading && line.match(TRAILING_TIMESTAMP);
+    if (leading) {
+      [, timestamp, title] = leading;
+    } else if (trailing) {
+      [, title, timestamp] = trailing;
+    } else {
+      continue;
     }
     
-    throw new Error('No transcript found in the response');
+    const start = parseTimestamp(timestamp);
+    // Timestamps that go backwards are references in the text, not a new chapter
+    if (!title.trim() || (markers.length > 0 && start <= markers[markers.length - 1].start)) continue;
+    markers.push({ title: title.trim(), start });
+  }
+  
+  if (markers.length < 3 || markers[0].start !== 0) {
+    return [];
+  }
+  
+  return markers.map((marker, index) => ({
+    title: marker.title,
+    start: marker.start,
+    end: index < markers.length - 1 ? markers[index + 1].start : duration
+  }));
+}
+
+/**
+ * The chapter playing at a point in the video
+ */
+export function getChapterAt(chapters: YoutubeChapter[], time: number): YoutubeChapter | null {
+  let found: YoutubeChapter | null = null;
+  for (const chapter of chapters || []) {
+    if (chapter.start > time) break;
+    found = chapter;
+  }
+  return found;
+}
+
+/**
+ * Fetch a video's title, channel, publish date, duration, description and chapters (through the backend)
+ */
+export async function fetchYoutubeMetadata(videoId: string): Promise<YoutubeVideoMetadata> {
+  try {
+    const response = await axios.get(`${BACKEND_API_URL}/youtube/metadata`, {
+      params: { video_id: videoId },
+      headers: await getBackendHeaders()
+    });
+    
+    const data = response.data;
+    return {
+      videoId,
+      title: data.title,
+      channelName: data.channel_title,
+      channelId: data.channel_id,
+      publishedAt: data.published_at,
+      duration: data.duration,
+      description: data.description || '',
+      thumbnailUrl: data.thumbnail_url,
+      chapters: parseYoutubeChapters(data.description, data.duration),
+      source: data.source
+    };
   } catch (error) {
-    console.error('Error fetching YouTube transcript:', error);
-    throw new Error('Failed to fetch YouTube transcript');
+    console.error('Error fetching YouTube metadata:', error);
+    throw new Error(error.response?.data?.error?.message || 'Failed to fetch YouTube video details');
   }
 }
 
@@ -68,16 +308,17 @@ export async function fetchYoutubeVideoDetails(videoUrl: string): Promise<Youtub
   }
   
   try {
-    // Fetch transcript
-    const transcript = await fetchYoutubeTranscript(videoId);
+    const [metadata, transcript] = await Promise.all([
+      fetchYoutubeMetadata(videoId),
+      fetchYoutubeTranscript(videoId)
+    ]);
     
-    // For now, we'll use a placeholder for title and channel
-    // In a real implementation, you might want to fetch these from the YouTube Data API
     return {
       videoId,
-      title: 'YouTube Video',
-      channelName: 'YouTube Channel',
-      transcript
+      title: metadata.title,
+      channelName: metadata.channelName,
+      metadata,
+      transcript: transcript.segments
     };
   } catch (error) {
     console.error('Error fetching YouTube video details:', error);
@@ -86,61 +327,67 @@ export async function fetchYoutubeVideoDetails(videoUrl: string): Promise<Youtub
 }
 
 /**
- * Chunk transcript segments into larger chunks based on time intervals
+ * Recognise a playlist or channel URL: ?list=, /channel/UC..., /@handle, /c/name or /user/name.
+ * A watch URL with a list= parameter is a video in a playlist, and only counts when includeWatchUrls is set.
  */
-export function chunkTranscript(
-  transcript: TranscriptSegment[], 
-  chunkSize: number = 30 // Default chunk size is 30 seconds
-): ChunkedTranscript[] {
-  // Special case: if chunkSize is 0, return each segment as its own chunk (no grouping)
-  if (chunkSize === 0) {
-    return transcript.map(segment => ({
-      text: segment.text,
-      startTime: segment.start,
-      endTime: segment.start + segment.duration,
-      segments: [segment]
-    }));
-  }
-  
-  if (!transcript || transcript.length === 0) {
-    return [];
+export function parseYoutubeCollectionUrl(url: string, includeWatchUrls = false): YoutubeCollectionRef | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
   }
   
-  const chunks: ChunkedTranscript[] = [];
-  let currentChunk: ChunkedTranscript = {
-    text: '',
-    startTime: transcript[0].start,
-    endTime: transcript[0].start + transcript[0].duration,
-    segments: []
-  };
+  if (!/(^|\.)youtube\.com$/.test(parsed.hostname)) return null;
   
-  for (const segment of transcript) {
-    // If this segment would exceed the chunk size, start a new chunk
-    if (segment.start >= currentChunk.startTime + chunkSize) {
-      // Finalize the current chunk
-      chunks.push(currentChunk);
-      
-      // Start a new chunk
-      currentChunk = {
-        text: segment.text,
-        startTime: segment.start,
-        endTime: segment.start + segment.duration,
-        segments: [segment]
-      };
-    } else {
-      // Add to the current chunk
-      currentChunk.text += ' ' + segment.text;
-      currentChunk.endTime = segment.start + segment.duration;
-      currentChunk.segments.push(segment);
-    }
+  const playlistId = parsed.searchParams.get('list');
+  if (playlistId && (includeWatchUrls || !parsed.searchParams.get('v'))) {
+    return { type: 'playlist', playlistId };
   }
   
-  // Add the last chunk if it's not empty
-  if (currentChunk.segments.length > 0) {
-    chunks.push(currentChunk);
-  }
+  const [first, second] = parsed.pathname.split('/').filter(Boolean);
+  if (first === 'channel' && second) return { type: 'channel', channelId: second };
+  if (first?.startsWith('@')) return { type: 'channel', handle: decodeURIComponent(first) };
+  if (first === 'user' && second) return { type: 'channel', username: second };
+  // Legacy /c/ custom URLs usually match the channel's handle
+  if (first === 'c' && second) return { type: 'channel', handle: `@${second}` };
   
-  return chunks;
+  return null;
+}
+
+/**
+ * List the videos of a playlist or channel (through the backend)
+ */
+export async function fetchYoutubeCollection(ref: YoutubeCollectionRef): Promise<YoutubeCollection> {
+  try {
+    const params = ref.type === 'playlist'
+      ? { playlist_id: ref.playlistId }
+      : { channel_id: ref.channelId, handle: ref.handle, username: ref.username };
+    
+    const response = await axios.get(`${BACKEND_API_URL}/youtube/playlist`, {
+      params,
+      headers: await getBackendHeaders()
+    });
+    
+    const data = response.data;
+    return {
+      type: data.type,
+      id: data.id,
+      title: data.title || (data.type === 'playlist' ? 'YouTube playlist' : 'YouTube channel'),
+      videos: data.videos.map(video => ({
+        videoId: video.video_id,
+        title: video.title,
+        channelName: video.channel_title,
+        publishedAt: video.published_at,
+        thumbnailUrl: video.thumbnail_url
+      })),
+      total: data.total,
+      truncated: data.truncated
+    };
+  } catch (error) {
+    console.error('Error fetching YouTube playlist:', error);
+    throw new Error(error.response?.data?.error?.message || 'Failed to fetch the playlist\'s videos');
+  }
 }
 
 /**
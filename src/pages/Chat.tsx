@@ -1,9 +1,9 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, Fragment } from 'react';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { Header } from '@/components/layout/Header';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { SendHorizonal, Plus, Bot, Upload, Clock, FileText, ExternalLink, Youtube, Play, Trash2, BookOpen, Globe } from 'lucide-react';
+import { SendHorizonal, Plus, Bot, Upload, Clock, FileText, ExternalLink, Youtube, Play, Trash2, BookOpen, Globe, Square } from 'lucide-react';
 import { KnowledgeBaseSelector } from '@/components/chat/KnowledgeBaseSelector';
 import { UserAvatar } from '@/components/ui/UserAvatar';
 import { useSearchParams, useNavigate } from 'react-router-dom';
@@ -13,22 +13,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { knowledgebaseService } from '@/lib/knowledgebaseService';
 import type { FileRecord, Knowledgebase } from '@/lib/supabase';
 import { YoutubePlayer } from '@/components/ui/YoutubePlayer';
+import { PdfViewer } from '@/components/ui/PdfViewer';
+import { MediaPlayer, type MediaPlayerHandle } from '@/components/ui/MediaPlayer';
 import ReactMarkdown from 'react-markdown';
 import type { Components } from 'react-markdown';
 import { 
-  chunkTranscript, 
   extractYoutubeVideoId, 
   formatTime, 
-  type ChunkedTranscript, 
-  type TranscriptSegment 
+  type TranscriptSegment, 
+  type YoutubeChapter 
 } from '@/lib/youtubeService';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import { chunkTranscriptByPauses, sectionsFromBounds, type TranscriptSection } from '@/lib/transcriptChunker';
 import { aiService } from '@/lib/aiService';
 import { useAuth } from '@/lib/AuthContext';
 import { chatService } from '@/lib/chatService';
@@ -51,10 +46,23 @@ type Message = {
     fileId: string;
     text: string;
     position?: number;
+    location?: string;
+    page?: number;
+    docIndex?: number;
   }[];
   isGenericResponse?: boolean;
+  isStreaming?: boolean;
 };
 
+// Chapters stored with a YouTube video, used to split and label its transcript
+const getFileChapters = (file: FileRecord | null): YoutubeChapter[] => file?.metadata?.chapters || [];
+
+// Topic sections stored when the transcript was added, or pause-based ones for older transcripts
+const getTranscriptSections = (file: FileRecord | null, segments: TranscriptSegment[]): TranscriptSection[] =>
+  file?.metadata?.transcript_sections?.length
+    ? sectionsFromBounds(segments, file.metadata.transcript_sections, getFileChapters(file))
+    : chunkTranscriptByPauses(segments, getFileChapters(file));
+
 // Custom component for rendering inline references
 type ReferenceButtonProps = {
   reference: {
@@ -86,7 +94,7 @@ const ReferenceButton = ({ reference, knowledgebaseFiles, onReferenceClick, getF
     label = 'PDF';
   } else if (fileType === 'audio') {
     icon = <Play className="h-3 w-3 mr-1" />;
-    label = 'Audio';
+    label = reference.position ? formatTime(reference.position) : 'Audio';
   } else if (fileType === 'video') {
     icon = <Play className="h-3 w-3 mr-1" />;
     label = reference.position ? formatTime(reference.position) : 'Video';
@@ -123,16 +131,24 @@ const Chat = () => {
   
   // YouTube specific state
   const [currentTime, setCurrentTime] = useState(0);
-  const [chunkedTranscript, setChunkedTranscript] = useState<ChunkedTranscript[]>([]);
-  const [chunkSize, setChunkSize] = useState<number>(30); // Default 30 seconds
+  const [chunkedTranscript, setChunkedTranscript] = useState<TranscriptSection[]>([]);
   const [isYoutubeVideo, setIsYoutubeVideo] = useState(false);
   const [videoId, setVideoId] = useState<string | null>(null);
   const [currentChat, setCurrentChat] = useState<string | null>(null);
+  
+  // PDF viewer state: signed URL of the original file and the cited passage
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [pdfTarget, setPdfTarget] = useState<{ page: number; text?: string } | null>(null);
+  
+  // Media player state: signed URL of a stored audio/video original
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [isGeneratingNotes, setIsGeneratingNotes] = useState(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const youtubePlayerRef = useRef<{ playFromTime: (time: number) => void; getPlayer: () => any } | null>(null);
+  const mediaPlayerRef = useRef<MediaPlayerHandle | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Function to parse content and replace reference markers with buttons
   const parseContentWithReferences = (text: string, refs?: { fileId: string; text: string; position?: number; }[]): string => {
@@ -264,28 +280,59 @@ const Chat = () => {
     setInputMessage('');
     setIsProcessing(true);
     
+    // Placeholder for the streamed AI answer
+    const aiMessageId = `ai-${Date.now()}`;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
+    const updateAiMessage = (update: Partial<Message>) => {
+      setMessages(prevMessages => prevMessages.map(msg => 
+        msg.id === aiMessageId ? { ...msg, ...update } : msg
+      ));
+    };
+    
     try {
+      // Load the earlier conversation before saving the new question
+      const previousMessages = await chatService.getChatMessages(currentChat);
+      const history = previousMessages.map(msg => ({
+        content: msg.content,
+        isUser: msg.is_user
+      }));
+      
       // Save user message to database
       await chatService.addMessage(currentChat, inputMessage, true);
       
-      // Query the AI with the user's message
-      const aiResponse = await aiService.queryKnowledgebase(selectedKnowledgeBase.id, inputMessage);
-      
-      // Create AI message
-      const aiMessageId = `ai-${Date.now()}`;
-      const aiMessage: Message = {
+      setMessages(prevMessages => [...prevMessages, {
         id: aiMessageId,
-        content: aiResponse.text,
+        content: '',
         role: 'assistant' as const,
         timestamp: new Date(),
-        references: aiResponse.references,
-        isGenericResponse: aiResponse.isGenericResponse
-      };
+        isStreaming: true
+      }]);
       
-      // Add AI message to state
-      setMessages(prevMessages => [...prevMessages, aiMessage]);
+      // Query the AI with the user's message, rendering the answer as it streams in
+      const aiResponse = await aiService.queryKnowledgebase(selectedKnowledgeBase.id, inputMessage, history, {}, {
+        onSources: (sources) => updateAiMessage({ references: sources }),
+        onToken: (token, text) => updateAiMessage({ content: text }),
+        signal: abortController.signal
+      });
       
-      // Save AI message to database
+      // Stopped before any text arrived, so there is nothing to keep
+      if (!aiResponse.text) {
+        setMessages(prevMessages => prevMessages.filter(msg => msg.id !== aiMessageId));
+        return;
+      }
+      
+      // Replace the streamed message with the final text and parsed references.
+      // Both lists are keyed by document number, so citations keep pointing at the same source.
+      updateAiMessage({
+        content: aiResponse.text,
+        references: aiResponse.references,
+        isGenericResponse: aiResponse.isGenericResponse,
+        isStreaming: false
+      });
+      
+      // Save the final AI message to database
       await chatService.addMessage(
         currentChat, 
         aiResponse.text, 
@@ -307,7 +354,8 @@ const Chat = () => {
       console.error('Error getting AI response:', error);
       toast.error('Failed to get AI response');
       
-      // Add error message
+      // Replace the streamed message with an error message
+      setMessages(prevMessages => prevMessages.filter(msg => msg.id !== aiMessageId));
       const errorMessage: Message = {
         id: `error-${Date.now()}`,
         content: `I'm sorry, I encountered an error while processing your request. Please try again later.`,
@@ -325,10 +373,16 @@ const Chat = () => {
         false
       );
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  // Stop the answer that is currently streaming; the text received so far is kept
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -389,6 +443,7 @@ const Chat = () => {
   const handleFileSelect = (file: FileRecord) => {
     setSelectedFile(file);
     setActiveTab('transcripts');
+    setPdfTarget(null);
     
     // Reset YouTube-specific state
     setIsYoutubeVideo(false);
@@ -412,7 +467,7 @@ const Chat = () => {
           // Parse the content text to get transcript segments
           const segments = JSON.parse(file.content_text);
           // Create chunks from the segments
-          const chunks = chunkTranscript(segments, chunkSize);
+          const chunks = getTranscriptSections(file, segments);
           setChunkedTranscript(chunks);
         } catch (error) {
           console.error('Error parsing transcript:', error);
@@ -425,7 +480,7 @@ const Chat = () => {
         // Parse the content text to get transcript segments
         const segments = JSON.parse(file.content_text);
         // Create chunks from the segments
-        const chunks = chunkTranscript(segments, chunkSize);
+        const chunks = getTranscriptSections(file, segments);
         setChunkedTranscript(chunks);
       } catch (error) {
         console.error('Error parsing transcript:', error);
@@ -466,6 +521,50 @@ const Chat = () => {
     }
   };
 
+  // Load the original PDF, if it was stored, when a PDF is selected
+  useEffect(() => {
+    setPdfUrl(null);
+    
+    if (!selectedFile?.path || selectedFile.type !== 'application/pdf') {
+      return;
+    }
+    
+    let cancelled = false;
+    knowledgebaseService.getOriginalFileUrl(selectedFile.path)
+      .then(url => {
+        if (!cancelled) setPdfUrl(url);
+      })
+      .catch(error => {
+        console.error('Error loading original PDF:', error);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile?.id, selectedFile?.path, selectedFile?.type]);
+  
+  // Load the original audio/video, if it was stored, when a media file is selected
+  useEffect(() => {
+    setMediaUrl(null);
+    
+    if (!selectedFile?.path || !['audio', 'video'].includes(selectedFile.type)) {
+      return;
+    }
+    
+    let cancelled = false;
+    knowledgebaseService.getOriginalFileUrl(selectedFile.path)
+      .then(url => {
+        if (!cancelled) setMediaUrl(url);
+      })
+      .catch(error => {
+        console.error('Error loading original media:', error);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile?.id, selectedFile?.path, selectedFile?.type]);
+  
   // Update when a file is selected
   useEffect(() => {
     if (selectedFile) {
@@ -552,12 +651,13 @@ const Chat = () => {
               }
             }
             
-            const chunks = chunkTranscript(transcript, chunkSize);
+            const chunks = getTranscriptSections(selectedFile, transcript);
             setChunkedTranscript(chunks);
           } catch (error) {
             console.error('Error parsing transcript:', error);
             // If all parsing fails, treat content_text as plain text
             setChunkedTranscript([{
+              title: selectedFile.name,
               text: selectedFile.content_text,
               startTime: 0,
               endTime: 0,
@@ -569,6 +669,16 @@ const Chat = () => {
             }]);
           }
         }
+      } else if (['audio', 'video'].includes(selectedFile.type.toLowerCase()) && selectedFile.content_text) {
+        setVideoId(null);
+        
+        // Transcribed media is stored as timestamped segments, older transcriptions as plain text
+        try {
+          const segments: TranscriptSegment[] = JSON.parse(selectedFile.content_text);
+          setChunkedTranscript(Array.isArray(segments) ? getTranscriptSections(selectedFile, segments) : []);
+        } catch (error) {
+          setChunkedTranscript([]);
+        }
       } else {
         setVideoId(null);
         setChunkedTranscript([]);
@@ -578,98 +688,32 @@ const Chat = () => {
       setVideoId(null);
       setChunkedTranscript([]);
     }
-  }, [selectedFile, chunkSize]);
-
-  // Handle chunk size change
-  const handleChunkSizeChange = (value: string) => {
-    const newSize = parseInt(value);
-    setChunkSize(newSize);
-    
-    // Rechunk the transcript if we have one
-    if (selectedFile?.content_text) {
-      try {
-        // Try to parse as JSON first
-        let transcript: TranscriptSegment[] = [];
-        
-        try {
-          transcript = JSON.parse(selectedFile.content_text);
-        } catch (jsonError) {
-          // If JSON parsing fails, use the same text parsing logic as above
-          const lines = selectedFile.content_text.split('\n');
-          let currentSegment: TranscriptSegment | null = null;
-          
-          for (const line of lines) {
-            const timestampMatch = line.match(/\[(\d{2}):(\d{2}):(\d{2})\]|\[(\d{2}):(\d{2})\]/);
-            
-            if (timestampMatch) {
-              let startTime = 0;
-              
-              if (timestampMatch[1] !== undefined) {
-                const hours = parseInt(timestampMatch[1]);
-                const minutes = parseInt(timestampMatch[2]);
-                const seconds = parseInt(timestampMatch[3]);
-                startTime = hours * 3600 + minutes * 60 + seconds;
-              } else {
-                const minutes = parseInt(timestampMatch[4]);
-                const seconds = parseInt(timestampMatch[5]);
-                startTime = minutes * 60 + seconds;
-              }
-              
-              const text = line.substring(timestampMatch[0].length).trim();
-              
-              if (currentSegment) {
-                transcript.push(currentSegment);
-              }
-              
-              currentSegment = {
-                text: text,
-                start: startTime,
-                duration: 15
-              };
-            } else if (currentSegment && line.trim() !== '') {
-              currentSegment.text += ' ' + line.trim();
-            }
-          }
-          
-          if (currentSegment) {
-            transcript.push(currentSegment);
-          }
-          
-          for (let i = 0; i < transcript.length - 1; i++) {
-            transcript[i].duration = transcript[i + 1].start - transcript[i].start;
-          }
-          
-          if (transcript.length === 0) {
-            transcript = [{
-              text: selectedFile.content_text,
-              start: 0,
-              duration: 60
-            }];
-          }
-        }
-        
-        const chunks = chunkTranscript(transcript, newSize);
-        setChunkedTranscript(chunks);
-      } catch (error) {
-        console.error('Error parsing transcript:', error);
-      }
-    }
-  };
+  }, [selectedFile]);
 
   // Handle clicking on a transcript chunk
   const handleTranscriptChunkClick = (startTime: number) => {
     setCurrentTime(startTime);
     
-    // Set the flag to indicate that the user explicitly requested playback
-    window.EXPLICIT_PLAY_REQUESTED = true;
-    
     // Play the video from this timestamp when the user clicks on a transcript chunk
     if (youtubePlayerRef.current) {
+      // Set the flag to indicate that the user explicitly requested playback
+      window.EXPLICIT_PLAY_REQUESTED = true;
       youtubePlayerRef.current.playFromTime(startTime);
       console.log('Playing video from timestamp:', startTime);
+    } else if (mediaPlayerRef.current) {
+      mediaPlayerRef.current.playFromTime(startTime);
     }
   };
 
+  // Keep the section being played in view as the media plays or is seeked to a citation
+  const activeChunk = chunkedTranscript.find(chunk => currentTime >= chunk.startTime && currentTime <= chunk.endTime);
+  useEffect(() => {
+    if (!activeChunk) return;
+    
+    const chunkId = `chunk-${activeChunk.startTime.toString().replace('.', '-')}`;
+    document.getElementById(chunkId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeChunk]);
+
   // Scroll to bottom of messages
   useEffect(() => {
     // Use a small timeout to ensure the DOM has updated before scrolling
@@ -685,7 +729,15 @@ const Chat = () => {
     return () => clearTimeout(scrollTimeout);
   }, [messages]);
 
-  const handleReferenceClick = async (reference: { fileId: string; text: string; position?: number; }) => {
+  // Seek the audio/video player to a cited second, playing it if the file is already open
+  const seekMediaPlayer = (file: FileRecord, position: number) => {
+    if (selectedFile?.id === file.id && mediaPlayerRef.current) {
+      mediaPlayerRef.current.playFromTime(position);
+    }
+    setCurrentTime(position);
+  };
+
+  const handleReferenceClick = async (reference: { fileId: string; text: string; position?: number; page?: number; }) => {
     console.log('Reference clicked:', reference);
     
     // Find the file in the knowledgebase files
@@ -728,7 +780,7 @@ const Chat = () => {
           const transcript = data.transcript;
           
           // Parse the transcript into chunks
-          const parsed = chunkTranscript(transcript);
+          const parsed = getTranscriptSections(file, transcript);
           setChunkedTranscript(parsed);
           
           // Find the chunk that contains this timestamp after setting the chunked transcript
@@ -769,9 +821,9 @@ const Chat = () => {
       console.log('Handling audio file reference:', file.name, file.type);
       setIsYoutubeVideo(false);
       
-      // Set current time if position is provided
+      // Set current time if position is provided, the media player seeks to it
       if (reference.position !== undefined) {
-        setCurrentTime(reference.position);
+        seekMediaPlayer(file, reference.position);
       }
       
       // Highlight the text if available
@@ -819,7 +871,7 @@ const Chat = () => {
       // Handle video files with timestamps
       console.log('Handling video file reference:', file.name, file.type);
       setIsYoutubeVideo(false);
-      setCurrentTime(reference.position);
+      seekMediaPlayer(file, reference.position);
       
       // Highlight the text if available
       if (reference.text) {
@@ -906,6 +958,10 @@ const Chat = () => {
           }, 300);
         }, 500);
       }
+    } else if (file.type === 'application/pdf' && file.path) {
+      // Open the original PDF at the cited page with the passage highlighted
+      setIsYoutubeVideo(false);
+      setPdfTarget({ page: reference.page ?? 1, text: reference.text });
     } else {
       // For other file types (PDF, text, etc.), highlight the referenced text
       setIsYoutubeVideo(false);
@@ -1305,7 +1361,7 @@ const Chat = () => {
   };
 
   // Function to parse and render content with inline references
-  const renderContentWithReferences = (content: string, references?: { fileId: string; text: string; position?: number; }[], isGenericResponse?: boolean) => {
+  const renderContentWithReferences = (content: string, references?: { fileId: string; text: string; position?: number; docIndex?: number; }[], isGenericResponse?: boolean) => {
     // Check if there are any references
     if (!references || references.length === 0) {
     return (
@@ -1395,8 +1451,13 @@ const Chat = () => {
   const renderMessage = (message: Message) => {
     const isUser = message.role === 'user';
     
+    // The typing indicator is shown until the first streamed tokens arrive
+    if (message.isStreaming && !message.content) {
+      return null;
+    }
+    
     // Check if there are any references
-    if (!message.references || message.references.length === 0) {
+    if ((!message.references || message.references.length === 0) && !message.isStreaming) {
     return (
       <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}>
         <div className={`flex ${isUser ? 'flex-row-reverse' : 'flex-row'} max-w-[80%]`}>
@@ -1437,29 +1498,34 @@ const Chat = () => {
       );
     }
     
+    const references = message.references || [];
+    
     // Check if there are any YouTube references
-    const hasYoutubeReferences = message.references.some(ref => {
+    const hasYoutubeReferences = references.some(ref => {
       const file = knowledgebaseFiles?.find(f => f.id === ref.fileId);
       return file?.type.toLowerCase() === 'youtube';
     });
     
     // Check if there are any non-YouTube references
-    const hasOtherReferences = message.references.some(ref => {
+    const hasOtherReferences = references.some(ref => {
       const file = knowledgebaseFiles?.find(f => f.id === ref.fileId);
       return file?.type.toLowerCase() !== 'youtube';
     });
     
     // Separate YouTube references from other references
-    const youtubeReferences = message.references.filter(ref => {
+    const youtubeReferences = references.filter(ref => {
       const file = knowledgebaseFiles?.find(f => f.id === ref.fileId);
       return file?.type.toLowerCase() === 'youtube';
     });
     
-    const otherReferences = message.references.filter(ref => {
+    const otherReferences = references.filter(ref => {
       const file = knowledgebaseFiles?.find(f => f.id === ref.fileId);
       return file?.type.toLowerCase() !== 'youtube';
     });
     
+    // Streaming answers always use MixedCitationParser, which tolerates half-written citations
+    const useMixedParser = message.isStreaming || (hasYoutubeReferences && hasOtherReferences);
+    
     return (
       <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}>
         <div className={`flex ${isUser ? 'flex-row-reverse' : 'flex-row'} max-w-[80%]`}>
@@ -1483,7 +1549,7 @@ const Chat = () => {
                 <div className="whitespace-pre-wrap">{message.content}</div>
               ) : (
                 <div className="prose prose-sm max-w-none">
-                  {hasYoutubeReferences && !hasOtherReferences && (
+                  {!useMixedParser && hasYoutubeReferences && !hasOtherReferences && (
                     /* Only YouTube references - use YoutubeCitationParser */
                     <YoutubeCitationParser
                       content={message.content || ''}
@@ -1493,7 +1559,7 @@ const Chat = () => {
                     />
                   )}
                   
-                  {!hasYoutubeReferences && hasOtherReferences && (
+                  {!useMixedParser && !hasYoutubeReferences && hasOtherReferences && (
                     /* Only non-YouTube references - use TextCitationParser */
                     <TextCitationParser
                       content={message.content || ''}
@@ -1503,18 +1569,19 @@ const Chat = () => {
                     />
                   )}
                   
-                  {hasYoutubeReferences && hasOtherReferences && (
+                  {useMixedParser && (
                     /* Both types of references - use MixedCitationParser */
                     <MixedCitationParser
                       content={message.content || ''}
-                      references={message.references}
+                      references={references}
                       knowledgebaseFiles={knowledgebaseFiles || []}
                       onReferenceClick={handleReferenceClick}
+                      isStreaming={message.isStreaming}
                     />
                   )}
                   
                   {/* Always show the CitationsList component for sources at the bottom if there are references */}
-                  {message.references && message.references.length > 0 && (
+                  {!message.isStreaming && message.references && message.references.length > 0 && (
                     <div className="mt-4">
                     <CitationsList 
                       references={message.references}
@@ -1560,6 +1627,7 @@ const Chat = () => {
     // Set the selected file and active tab
     setSelectedFile(file);
     setActiveTab('transcripts');
+    setPdfTarget(null);
     
     // If it's a YouTube video, set up the player but don't set a timestamp
     if (file.type.toLowerCase() === 'youtube') {
@@ -1580,7 +1648,7 @@ const Chat = () => {
           // Parse the content text to get transcript segments
           const segments = JSON.parse(file.content_text);
           // Create chunks from the segments
-          const chunks = chunkTranscript(segments, chunkSize);
+          const chunks = getTranscriptSections(file, segments);
           setChunkedTranscript(chunks);
           console.log('Created chunked transcript:', chunks.length, 'chunks');
         } catch (error) {
@@ -1671,7 +1739,7 @@ const Chat = () => {
                     )}
                     <div ref={messagesEndRef} className="h-0 w-full" />
                     
-                    {isProcessing && (
+                    {isProcessing && !messages.some(msg => msg.isStreaming && msg.content) && (
                       <div className="flex justify-start">
                         <div className="flex max-w-[80%] flex-row">
                           <div className="flex-shrink-0 mr-3">
@@ -1713,13 +1781,24 @@ const Chat = () => {
                         disabled={!selectedKnowledgeBase}
                       />
                     </div>
-                    <Button 
-                      onClick={handleSendMessage} 
-                      disabled={!inputMessage.trim() || !selectedKnowledgeBase}
-                      className="bg-sattva-600 hover:bg-sattva-700 h-[56px] px-6"
-                    >
-                      <SendHorizonal className="h-5 w-5" />
-                    </Button>
+                    {isProcessing ? (
+                      <Button 
+                        onClick={handleStopGenerating} 
+                        variant="outline"
+                        className="border-sattva-300 text-sattva-700 h-[56px] px-6"
+                        title="Stop generating"
+                      >
+                        <Square className="h-5 w-5" />
+                      </Button>
+                    ) : (
+                      <Button 
+                        onClick={handleSendMessage} 
+                        disabled={!inputMessage.trim() || !selectedKnowledgeBase}
+                        className="bg-sattva-600 hover:bg-sattva-700 h-[56px] px-6"
+                      >
+                        <SendHorizonal className="h-5 w-5" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1805,6 +1884,12 @@ const Chat = () => {
                                 </span>
                               )}
                             </div>
+                            {selectedFile.metadata?.channel && (
+                              <p className="text-xs text-gray-500 mt-1 truncate">
+                                {selectedFile.metadata.channel}
+                                {selectedFile.metadata.published_at && ` · ${new Date(selectedFile.metadata.published_at).toLocaleDateString()}`}
+                              </p>
+                            )}
                           </div>
                           {selectedFile.source_url && (
                             <Button variant="ghost" size="icon" asChild className="h-8 w-8">
@@ -1814,29 +1899,6 @@ const Chat = () => {
                             </Button>
                           )}
                         </div>
-                        
-                        {/* YouTube specific controls */}
-                        {isYoutubeVideo && (
-                          <div className="mt-2">
-                            <div className="flex items-center justify-between">
-                              <span className="text-xs text-gray-500">Chunk Size:</span>
-                              <Select 
-                                value={chunkSize.toString()} 
-                                onValueChange={handleChunkSizeChange}
-                              >
-                                <SelectTrigger className="w-[120px] h-8 text-xs">
-                                  <SelectValue placeholder="Chunk Size" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="0">No grouping</SelectItem>
-                                  <SelectItem value="15">15 seconds</SelectItem>
-                                  <SelectItem value="30">30 seconds</SelectItem>
-                                  <SelectItem value="60">1 minute</SelectItem>
-                                </SelectContent>
-                              </Select>
-                            </div>
-                          </div>
-                        )}
                       </div>
                       
                       {/* YouTube Player */}
@@ -1852,24 +1914,47 @@ const Chat = () => {
                         </div>
                       )}
                       
+                      {/* Audio/video player for stored originals */}
+                      {!isYoutubeVideo && mediaUrl && selectedFile && (
+                        <div className="p-4 border-b">
+                          <MediaPlayer 
+                            ref={mediaPlayerRef}
+                            url={mediaUrl} 
+                            kind={selectedFile.type === 'video' ? 'video' : 'audio'}
+                            currentTime={currentTime}
+                            onTimeUpdate={setCurrentTime}
+                            height={240}
+                          />
+                        </div>
+                      )}
+                      
                       {/* Content Area */}
                       <div 
                         className="overflow-y-auto flex-grow pb-24" 
                         style={{ 
-                          maxHeight: isYoutubeVideo 
+                          maxHeight: isYoutubeVideo || (mediaUrl && selectedFile?.type === 'video')
                             ? 'calc(100vh - 450px)' 
                             : 'calc(100vh - 250px)',
                           minHeight: '300px'
                         }}
                       >
-                        {isYoutubeVideo && chunkedTranscript.length > 0 ? (
+                        {chunkedTranscript.length > 0 ? (
                           <div className="p-4 space-y-2 pb-12">
                             {chunkedTranscript.map((chunk, index) => {
                               const isCurrentChunk = currentTime >= chunk.startTime && currentTime <= chunk.endTime;
                               const chunkId = `chunk-${chunk.startTime.toString().replace('.', '-')}`;
+                              // Chunks are split at chapters, so a new chapter always starts a chunk
+                              const startsChapter = chunk.chapter && chunk.chapter !== chunkedTranscript[index - 1]?.chapter;
                               return (
+                              <Fragment key={`chunk-${index}`}>
+                              {startsChapter && (
+                                <div className="flex items-center gap-2 pt-2 text-xs font-medium text-sattva-700">
+                                  <BookOpen className="h-3 w-3" />
+                                  <span className="truncate">{chunk.chapter}</span>
+                                  <span className="text-gray-400">{formatTime(chunk.startTime)}</span>
+                                </div>
+                              )}
                               <div 
-                                key={`chunk-${index}`}
                                 id={chunkId}
                                 data-start-time={chunk.startTime}
                                 data-end-time={chunk.endTime}
@@ -1885,8 +1970,9 @@ const Chat = () => {
                                       <Play className={`h-3 w-3 ${isCurrentChunk ? 'text-sattva-600' : 'text-gray-500'}`} />
                                   </div>
                                   <div className="flex-1">
-                                    <div className="flex items-center justify-between mb-1">
-                                        <span className={`text-xs font-medium ${isCurrentChunk ? 'text-sattva-600' : 'text-gray-500'}`}>
+                                    <div className="flex items-center justify-between gap-2 mb-1">
+                                      <span className="text-sm font-medium truncate">{chunk.title}</span>
+                                        <span className={`text-xs font-medium flex-shrink-0 ${isCurrentChunk ? 'text-sattva-600' : 'text-gray-500'}`}>
                                         {formatTime(chunk.startTime)} - {formatTime(chunk.endTime)}
                                       </span>
                                     </div>
@@ -1894,12 +1980,19 @@ const Chat = () => {
                                   </div>
                                 </div>
                               </div>
+                              </Fragment>
                               );
                             })}
                           </div>
                         ) : (
                           <div className="p-4 pb-16">
-                            {selectedFile?.content_text ? (
+                            {pdfUrl ? (
+                              <PdfViewer 
+                                url={pdfUrl} 
+                                page={pdfTarget?.page ?? 1} 
+                                highlightText={pdfTarget?.text} 
+                              />
+                            ) : selectedFile?.content_text ? (
                               <pre className="whitespace-pre-wrap font-sans text-sm min-h-[200px]">
                                 {selectedFile.content_text}
                               </pre>
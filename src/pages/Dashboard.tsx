@@ -28,7 +28,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/AuthContext';
 import { knowledgebaseService } from '@/lib/knowledgebaseService';
 import { chatService } from '@/lib/chatService';
-import { Knowledgebase } from '@/lib/supabase';
+import { Knowledgebase, SearchSettings } from '@/lib/supabase';
 import { EditKnowledgeBaseModal } from '@/components/dashboard/EditKnowledgeBaseModal';
 import {
   AlertDialog,
@@ -168,9 +168,9 @@ const Dashboard = () => {
     }
   };
 
-  const handleUpdateKnowledgeBase = async (id: string, title: string, description: string) => {
+  const handleUpdateKnowledgeBase = async (id: string, title: string, description: string, searchSettings: SearchSettings) => {
     try {
-      const updatedKb = await knowledgebaseService.updateKnowledgebase(id, title, description);
+      const updatedKb = await knowledgebaseService.updateKnowledgebase(id, title, description, searchSettings);
       
       // Update the knowledge base in the state
       setKnowledgeBases(prevKbs => 
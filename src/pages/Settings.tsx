@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { Header } from '@/components/layout/Header';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,6 +9,7 @@ import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/lib/AuthContext';
 import { toast } from 'sonner';
+import { userSettingsService, DEFAULT_AI_SETTINGS, AVAILABLE_CHAT_MODELS } from '@/lib/userSettingsService';
 
 const Settings = () => {
   const { user } = useAuth();
@@ -24,7 +25,34 @@ const Settings = () => {
   
   // API settings
   const [openAiKey, setOpenAiKey] = useState('');
-  const [modelVersion, setModelVersion] = useState('gpt-3.5-turbo');
+  const [hasApiKey, setHasApiKey] = useState(false);
+  const [modelVersion, setModelVersion] = useState(DEFAULT_AI_SETTINGS.chat_model);
+  const [notesModel, setNotesModel] = useState(DEFAULT_AI_SETTINGS.notes_model);
+  const [temperature, setTemperature] = useState(DEFAULT_AI_SETTINGS.temperature);
+  const [maxTokens, setMaxTokens] = useState(DEFAULT_AI_SETTINGS.max_tokens);
+  const [notesMaxTokens, setNotesMaxTokens] = useState(DEFAULT_AI_SETTINGS.notes_max_tokens);
+  const [isSavingApi, setIsSavingApi] = useState(false);
+  
+  useEffect(() => {
+    if (!user) return;
+    
+    const loadApiSettings = async () => {
+      try {
+        const settings = await userSettingsService.getAISettings(user.id);
+        setModelVersion(settings.chat_model);
+        setNotesModel(settings.notes_model);
+        setTemperature(settings.temperature);
+        setMaxTokens(settings.max_tokens);
+        setNotesMaxTokens(settings.notes_max_tokens);
+        setHasApiKey(settings.has_api_key);
+      } catch (error) {
+        console.error('Error loading API settings:', error);
+        toast.error('Failed to load API settings');
+      }
+    };
+    
+    loadApiSettings();
+  }, [user]);
   
   const handleUpdateProfile = async () => {
     setIsUpdating(true);
@@ -47,10 +75,51 @@ const Settings = () => {
     toast.success('Notification preferences saved');
   };
   
-  const handleSaveApiSettings = () => {
-    toast.success('API settings saved');
+  const handleSaveApiSettings = async () => {
+    if (!user) return;
+    
+    setIsSavingApi(true);
+    
+    try {
+      await userSettingsService.saveAISettings(user.id, {
+        chat_model: modelVersion,
+        notes_model: notesModel,
+        temperature: Math.min(Math.max(temperature, 0), 2),
+        max_tokens: Math.max(Math.round(maxTokens), 1),
+        notes_max_tokens: Math.max(Math.round(notesMaxTokens), 1)
+      });
+      
+      // Only replace the saved key when a new one was entered
+      if (openAiKey.trim()) {
+        await userSettingsService.setApiKey(openAiKey.trim());
+        setOpenAiKey('');
+        setHasApiKey(true);
+      }
+      
+      await userSettingsService.applyAISettings(user.id);
+      toast.success('API settings saved');
+    } catch (error) {
+      console.error('Error saving API settings:', error);
+      toast.error('Failed to save API settings');
+    } finally {
+      setIsSavingApi(false);
+    }
   };
-
+  
+  const handleRemoveApiKey = async () => {
+    if (!user) return;
+    
+    try {
+      await userSettingsService.setApiKey(null);
+      setHasApiKey(false);
+      await userSettingsService.applyAISettings(user.id);
+      toast.success('API key removed');
+    } catch (error) {
+      console.error('Error removing API key:', error);
+      toast.error('Failed to remove API key');
+    }
+  };
+  
   return (
     <div className="flex h-screen bg-gray-50">
       <Sidebar />
@@ -184,40 +253,124 @@ const Settings = () => {
                 <CardContent className="space-y-4">
                   <div className="space-y-2">
                     <Label htmlFor="openai-key">OpenAI API Key (Optional)</Label>
-                    <Input 
-                      id="openai-key" 
-                      type="password" 
-                      value={openAiKey} 
-                      onChange={(e) => setOpenAiKey(e.target.value)} 
-                      placeholder="sk-..." 
-                    />
+                    <div className="flex gap-2">
+                      <Input 
+                        id="openai-key" 
+                        type="password" 
+                        value={openAiKey} 
+                        onChange={(e) => setOpenAiKey(e.target.value)} 
+                        placeholder={hasApiKey ? 'Key saved - enter a new key to replace it' : 'sk-...'} 
+                        autoComplete="off"
+                      />
+                      {hasApiKey && (
+                        <Button variant="outline" onClick={handleRemoveApiKey}>
+                          Remove Key
+                        </Button>
+                      )}
+                    </div>
                     <p className="text-xs text-muted-foreground">
                       Provide your own OpenAI API key to use your own quota. Leave blank to use our shared quota.
+                      Your key is stored encrypted and is never shown again after saving.
                     </p>
                   </div>
                   
                   <div className="space-y-2">
-                    <Label htmlFor="model-version">AI Model Version</Label>
+                    <Label htmlFor="model-version">Chat Model</Label>
                     <select 
                       id="model-version"
                       className="w-full rounded-md border border-input bg-background px-3 py-2"
                       value={modelVersion}
                       onChange={(e) => setModelVersion(e.target.value)}
                     >
-                      <option value="gpt-3.5-turbo">GPT-3.5 Turbo (Default)</option>
-                      <option value="gpt-4">GPT-4 (Premium)</option>
+                      {AVAILABLE_CHAT_MODELS.map(model => (
+                        <option key={model.value} value={model.value}>{model.label}</option>
+                      ))}
+                      {!AVAILABLE_CHAT_MODELS.some(model => model.value === modelVersion) && (
+                        <option value={modelVersion}>{modelVersion}</option>
+                      )}
                     </select>
                     <p className="text-xs text-muted-foreground">
                       Select the AI model to use for your knowledge base queries.
                     </p>
                   </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="notes-model">Notes Model</Label>
+                    <select 
+                      id="notes-model"
+                      className="w-full rounded-md border border-input bg-background px-3 py-2"
+                      value={notesModel}
+                      onChange={(e) => setNotesModel(e.target.value)}
+                    >
+                      {AVAILABLE_CHAT_MODELS.map(model => (
+                        <option key={model.value} value={model.value}>{model.label}</option>
+                      ))}
+                      {!AVAILABLE_CHAT_MODELS.some(model => model.value === notesModel) && (
+                        <option value={notesModel}>{notesModel}</option>
+                      )}
+                    </select>
+                    <p className="text-xs text-muted-foreground">
+                      Used for study notes and podcast scripts.
+                    </p>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="notes-max-tokens">Notes Max Tokens</Label>
+                    <Input 
+                      id="notes-max-tokens" 
+                      type="number" 
+                      min={100} 
+                      max={4000} 
+                      step={100} 
+                      value={notesMaxTokens} 
+                      onChange={(e) => setNotesMaxTokens(Number(e.target.value))} 
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Maximum length of study notes and podcast scripts.
+                    </p>
+                  </div>
+                  
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="temperature">Temperature</Label>
+                      <Input 
+                        id="temperature" 
+                        type="number" 
+                        min={0} 
+                        max={2} 
+                        step={0.1} 
+                        value={temperature} 
+                        onChange={(e) => setTemperature(Number(e.target.value))} 
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Lower values give more focused, consistent answers (0-2).
+                      </p>
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="max-tokens">Max Tokens</Label>
+                      <Input 
+                        id="max-tokens" 
+                        type="number" 
+                        min={100} 
+                        max={4000} 
+                        step={100} 
+                        value={maxTokens} 
+                        onChange={(e) => setMaxTokens(Number(e.target.value))} 
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Maximum length of a chat answer.
+                      </p>
+                    </div>
+                  </div>
                 </CardContent>
                 <CardFooter>
                   <Button 
                     className="bg-sattva-600 hover:bg-sattva-700"
                     onClick={handleSaveApiSettings}
+                    disabled={isSavingApi}
                   >
-                    Save API Settings
+                    {isSavingApi ? 'Saving...' : 'Save API Settings'}
                   </Button>
                 </CardFooter>
               </Card>
@@ -0,0 +1,61 @@
+-- Add the columns that record whether a file's chunks were embedded
+-- Run this in your Supabase SQL Editor
+
+DO $$
+BEGIN
+  -- indexed once every chunk has an embedding, failed when embedding didn't work, NULL before the first attempt
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'index_status'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN index_status TEXT CHECK (index_status IN ('indexed', 'failed'));
+    
+    RAISE NOTICE 'Added index_status column';
+    
+    -- Files whose chunks all have embeddings don't need to be indexed again
+    UPDATE files f
+    SET index_status = 'indexed'
+    WHERE EXISTS (SELECT 1 FROM file_chunks c WHERE c.file_id = f.id)
+    AND NOT EXISTS (SELECT 1 FROM file_chunks c WHERE c.file_id = f.id AND c.embedding IS NULL);
+  END IF;
+  
+  -- Last error message of a failed indexing attempt
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'index_error'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN index_error TEXT;
+    
+    RAISE NOTICE 'Added index_error column';
+  END IF;
+  
+  -- When the file's chunks were last embedded
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'indexed_at'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN indexed_at TIMESTAMP WITH TIME ZONE;
+    
+    RAISE NOTICE 'Added indexed_at column';
+  END IF;
+  
+  -- Used to find the files that still need indexing when the app loads
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM pg_indexes 
+    WHERE indexname = 'files_user_index_status_idx'
+  ) THEN
+    CREATE INDEX files_user_index_status_idx ON files (user_id, index_status);
+    
+    RAISE NOTICE 'Created index on user_id and index_status';
+  END IF;
+END $$;
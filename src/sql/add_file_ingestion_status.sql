@@ -0,0 +1,62 @@
+-- Add the columns used by the background ingestion queue to the files table
+-- Run this in your Supabase SQL Editor
+
+-- Files are marked as processing while a browser tab extracts and embeds them
+-- (ADD VALUE can't run inside the DO block below)
+ALTER TYPE extraction_status_type ADD VALUE IF NOT EXISTS 'processing';
+
+DO $$
+BEGIN
+  -- Last error message of a failed extraction attempt
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'extraction_error'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN extraction_error TEXT;
+    
+    RAISE NOTICE 'Added extraction_error column';
+  END IF;
+  
+  -- Number of extraction attempts, so failing files stop being retried
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'extraction_attempts'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN extraction_attempts INTEGER NOT NULL DEFAULT 0;
+    
+    RAISE NOTICE 'Added extraction_attempts column';
+  END IF;
+  
+  -- Used to find unfinished jobs when the app loads
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM pg_indexes 
+    WHERE indexname = 'files_user_extraction_status_idx'
+  ) THEN
+    CREATE INDEX files_user_extraction_status_idx ON files (user_id, extraction_status);
+    
+    RAISE NOTICE 'Created index on user_id and extraction_status';
+  END IF;
+  
+  -- Publish file changes so status badges update live
+  IF EXISTS (
+    SELECT 1 
+    FROM pg_publication 
+    WHERE pubname = 'supabase_realtime'
+  ) AND NOT EXISTS (
+    SELECT 1 
+    FROM pg_publication_tables 
+    WHERE pubname = 'supabase_realtime' 
+    AND tablename = 'files'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE files;
+    
+    RAISE NOTICE 'Added files table to the supabase_realtime publication';
+  END IF;
+END $$;
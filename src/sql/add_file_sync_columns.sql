@@ -0,0 +1,68 @@
+-- Add the columns used to re-sync website and YouTube files with their source
+-- Run this in your Supabase SQL Editor
+
+DO $$
+BEGIN
+  -- SHA-256 of content_text, to tell whether a re-fetched source changed
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'content_hash'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN content_hash TEXT;
+    
+    RAISE NOTICE 'Added content_hash column';
+  END IF;
+  
+  -- When the source was last fetched successfully
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'last_synced_at'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN last_synced_at TIMESTAMP WITH TIME ZONE;
+    
+    RAISE NOTICE 'Added last_synced_at column';
+  END IF;
+  
+  -- Hours between scheduled syncs, NULL for files that are only synced on demand
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'sync_interval_hours'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN sync_interval_hours INTEGER;
+    
+    RAISE NOTICE 'Added sync_interval_hours column';
+  END IF;
+  
+  -- Outcome of the last sync: unchanged, changed (with what was added and removed) or failed
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'last_sync_summary'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN last_sync_summary JSONB;
+    
+    RAISE NOTICE 'Added last_sync_summary column';
+  END IF;
+  
+  -- Used to find the files that are due for a scheduled sync
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM pg_indexes 
+    WHERE indexname = 'files_user_sync_interval_idx'
+  ) THEN
+    CREATE INDEX files_user_sync_interval_idx ON files (user_id, sync_interval_hours) WHERE sync_interval_hours IS NOT NULL;
+    
+    RAISE NOTICE 'Created index on user_id and sync_interval_hours';
+  END IF;
+END $$;
@@ -0,0 +1,19 @@
+-- Add per-knowledgebase search settings
+-- Run this in your Supabase SQL Editor
+
+-- Weights used when fusing full-text and vector search results, e.g.
+-- { "vector_weight": 1, "keyword_weight": 1, "rrf_k": 60 }
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'knowledgebases' 
+    AND column_name = 'search_settings'
+  ) THEN
+    ALTER TABLE knowledgebases 
+    ADD COLUMN search_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+    
+    RAISE NOTICE 'Added search_settings column to knowledgebases table';
+  END IF;
+END $$;
@@ -0,0 +1,98 @@
+-- Create the file_chunks table used for vector search over knowledgebase content
+-- Run this in your Supabase SQL Editor
+
+-- Enable the pgvector extension
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Chunks of extracted file text with their embeddings
+-- Chunks are created once when content is added to a knowledgebase
+CREATE TABLE IF NOT EXISTS file_chunks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  file_id UUID NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  knowledgebase_id UUID NOT NULL REFERENCES knowledgebases(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  start_offset INTEGER, -- Character offset of the chunk in files.content_text (NULL for transcripts)
+  end_offset INTEGER,
+  metadata JSONB, -- Page range for documents, start/end time for transcripts
+  embedding vector(1536), -- text-embedding-3-small. Other models need their own size here, in match_file_chunks and in VITE_LLM_EMBEDDING_DIMENSIONS
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'file_chunks_file_id_idx') THEN
+    CREATE INDEX file_chunks_file_id_idx ON file_chunks(file_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'file_chunks_knowledgebase_id_idx') THEN
+    CREATE INDEX file_chunks_knowledgebase_id_idx ON file_chunks(knowledgebase_id);
+  END IF;
+
+  -- Approximate nearest-neighbour index for cosine distance
+  IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'file_chunks_embedding_idx') THEN
+    CREATE INDEX file_chunks_embedding_idx ON file_chunks USING hnsw (embedding vector_cosine_ops);
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE file_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for file_chunks (with conditional checks)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'file_chunks' AND policyname = 'Users can view their own file chunks') THEN
+    CREATE POLICY "Users can view their own file chunks"
+      ON file_chunks FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'file_chunks' AND policyname = 'Users can create their own file chunks') THEN
+    CREATE POLICY "Users can create their own file chunks"
+      ON file_chunks FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'file_chunks' AND policyname = 'Users can delete their own file chunks') THEN
+    CREATE POLICY "Users can delete their own file chunks"
+      ON file_chunks FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Nearest-neighbour search over the chunks of a knowledgebase
+-- Runs with the caller's permissions, so RLS still applies
+CREATE OR REPLACE FUNCTION match_file_chunks(
+  query_embedding vector(1536),
+  match_knowledgebase_id UUID,
+  match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  chunk_index INTEGER,
+  content TEXT,
+  start_offset INTEGER,
+  end_offset INTEGER,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    c.id,
+    c.file_id,
+    c.chunk_index,
+    c.content,
+    c.start_offset,
+    c.end_offset,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM file_chunks c
+  WHERE c.knowledgebase_id = match_knowledgebase_id
+    AND c.embedding IS NOT NULL
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
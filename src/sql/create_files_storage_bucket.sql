@@ -0,0 +1,29 @@
+-- Create the private storage bucket for original uploaded files (used by the PDF viewer and media player)
+-- Run this in your Supabase SQL Editor
+
+-- Create the bucket if it doesn't exist
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('files', 'files', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files are stored under <user_id>/<knowledgebase_id>/..., so the first folder is the owner
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'objects' AND policyname = 'Users can view their own files') THEN
+    CREATE POLICY "Users can view their own files"
+      ON storage.objects FOR SELECT
+      USING (bucket_id = 'files' AND (storage.foldername(name))[1] = auth.uid()::text);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'objects' AND policyname = 'Users can upload their own files') THEN
+    CREATE POLICY "Users can upload their own files"
+      ON storage.objects FOR INSERT
+      WITH CHECK (bucket_id = 'files' AND (storage.foldername(name))[1] = auth.uid()::text);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'objects' AND policyname = 'Users can delete their own files') THEN
+    CREATE POLICY "Users can delete their own files"
+      ON storage.objects FOR DELETE
+      USING (bucket_id = 'files' AND (storage.foldername(name))[1] = auth.uid()::text);
+  END IF;
+END $$;
@@ -0,0 +1,105 @@
+-- Create the user_ai_settings table for per-user model preferences
+-- Run this in your Supabase SQL Editor
+
+-- API keys are kept in Supabase Vault (encrypted at rest), never in this table.
+-- Each user's secret is named ai_api_key_<user id>; has_api_key only tells the UI one is saved.
+CREATE TABLE IF NOT EXISTS user_ai_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  chat_model TEXT NOT NULL DEFAULT 'gpt-3.5-turbo',
+  notes_model TEXT NOT NULL DEFAULT 'gpt-3.5-turbo',
+  temperature REAL NOT NULL DEFAULT 0.5 CHECK (temperature >= 0 AND temperature <= 2),
+  max_tokens INTEGER NOT NULL DEFAULT 800 CHECK (max_tokens > 0),
+  notes_max_tokens INTEGER NOT NULL DEFAULT 2000 CHECK (notes_max_tokens > 0),
+  has_api_key BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE user_ai_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user_ai_settings (with conditional checks)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'user_ai_settings' AND policyname = 'Users can view their own AI settings') THEN
+    CREATE POLICY "Users can view their own AI settings"
+      ON user_ai_settings FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'user_ai_settings' AND policyname = 'Users can create their own AI settings') THEN
+    CREATE POLICY "Users can create their own AI settings"
+      ON user_ai_settings FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'user_ai_settings' AND policyname = 'Users can update their own AI settings') THEN
+    CREATE POLICY "Users can update their own AI settings"
+      ON user_ai_settings FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Save, replace or remove (NULL or empty key) the current user's API key
+CREATE OR REPLACE FUNCTION set_user_api_key(new_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing_secret_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO user_ai_settings (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT id INTO existing_secret_id
+  FROM vault.secrets
+  WHERE name = 'ai_api_key_' || auth.uid()::TEXT;
+
+  IF new_key IS NULL OR new_key = '' THEN
+    IF existing_secret_id IS NOT NULL THEN
+      DELETE FROM vault.secrets WHERE id = existing_secret_id;
+    END IF;
+
+    UPDATE user_ai_settings
+    SET has_api_key = FALSE, updated_at = NOW()
+    WHERE user_id = auth.uid();
+
+    RETURN FALSE;
+  END IF;
+
+  IF existing_secret_id IS NOT NULL THEN
+    PERFORM vault.update_secret(existing_secret_id, new_key);
+  ELSE
+    existing_secret_id := vault.create_secret(new_key, 'ai_api_key_' || auth.uid()::TEXT);
+  END IF;
+
+  UPDATE user_ai_settings
+  SET has_api_key = TRUE, updated_at = NOW()
+  WHERE user_id = auth.uid();
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Read back the current user's API key (only ever returns the caller's own key)
+CREATE OR REPLACE FUNCTION get_user_api_key()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT decrypted_secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'ai_api_key_' || auth.uid()::TEXT;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_user_api_key(TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION get_user_api_key() FROM anon;
@@ -0,0 +1,73 @@
+-- Create the website_sources table that groups the pages of a crawled website
+-- Run this in your Supabase SQL Editor
+
+-- One row per crawled site section; its pages are regular files linked through website_source_id
+CREATE TABLE IF NOT EXISTS website_sources (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  knowledgebase_id UUID NOT NULL REFERENCES knowledgebases(id) ON DELETE CASCADE,
+  root_url TEXT NOT NULL,
+  title TEXT,
+  max_depth INTEGER NOT NULL DEFAULT 2 CHECK (max_depth >= 0),
+  max_pages INTEGER NOT NULL DEFAULT 25 CHECK (max_pages > 0),
+  use_sitemap BOOLEAN NOT NULL DEFAULT TRUE,
+  page_count INTEGER NOT NULL DEFAULT 0,
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  -- Pages are removed together with their website source
+  IF NOT EXISTS (
+    SELECT 1 
+    FROM information_schema.columns 
+    WHERE table_name = 'files' 
+    AND column_name = 'website_source_id'
+  ) THEN
+    ALTER TABLE files 
+    ADD COLUMN website_source_id UUID REFERENCES website_sources(id) ON DELETE CASCADE;
+    
+    RAISE NOTICE 'Added website_source_id column';
+  END IF;
+  
+  IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'files_website_source_id_idx') THEN
+    CREATE INDEX files_website_source_id_idx ON files(website_source_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'website_sources_knowledgebase_id_idx') THEN
+    CREATE INDEX website_sources_knowledgebase_id_idx ON website_sources(knowledgebase_id);
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE website_sources ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for website_sources (with conditional checks)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'website_sources' AND policyname = 'Users can view their own website sources') THEN
+    CREATE POLICY "Users can view their own website sources"
+      ON website_sources FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'website_sources' AND policyname = 'Users can create their own website sources') THEN
+    CREATE POLICY "Users can create their own website sources"
+      ON website_sources FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'website_sources' AND policyname = 'Users can update their own website sources') THEN
+    CREATE POLICY "Users can update their own website sources"
+      ON website_sources FOR UPDATE
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'website_sources' AND policyname = 'Users can delete their own website sources') THEN
+    CREATE POLICY "Users can delete their own website sources"
+      ON website_sources FOR DELETE
+      USING (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -10,6 +10,10 @@ export default defineConfig({
     port: 8080,
   },
   plugins: [react()],
+  optimizeDeps: {
+    // ffmpeg.wasm starts its own worker from a relative URL, which pre-bundling breaks
+    exclude: ['@ffmpeg/ffmpeg'],
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),